@@ -1,7 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { TransformationType, SourceType } from './types';
-import type { AudioData, TransformationParams } from './types';
-import { getDefaultParams, TRANSFORMATION_PARAMS_CONFIG } from './constants';
+import type { AudioData, TransformationParams, ChainStage, XYCorner, MasteringSettings } from './types';
+import { getDefaultParams, getTransformation, FILE_ONLY_TRANSFORMATIONS } from './services/transformationRegistry';
 import Header from './components/Header';
 import AudioUploader from './components/AudioUploader';
 import TransformationSelector from './components/TransformationSelector';
@@ -10,24 +10,21 @@ import ResultPlayer from './components/ResultPlayer';
 import AIEnhancer from './components/AIEnhancer';
 import Spinner from './components/Spinner';
 import { IconMusic, IconTransform, IconStop } from './components/Icons';
-import { applyAmplitudeMapping, applySpectralShaping, applyRhythmicGating, applyConvolution, applyTimeScaleWarping, applySurfaceTranslationMapping, applyFourierMasking, applyHarmonicImprinting, applyInterferenceEchoes, applyFormantShifting, applyTransformationMorph, applyDynamicRingModulation } from './services/audioProcessor';
+import { runTransformation, masterResult, clearRenderCache } from './services/transformEngine';
+import { isAbortError, scaleProgress } from './services/pcmBuffer';
+import { DEFAULT_MASTERING } from './services/mastering';
 import SourceSelector from './components/SourceSelector';
 import LiveAudioProcessor from './services/liveAudioProcessor';
 import MorphingControls from './components/MorphingControls';
 import VisualizerModal from './components/VisualizerModal';
-
-const liveOnlyDisabledTransformations = [
-    TransformationType.SPECTRAL, 
-    TransformationType.CONVOLUTION,
-    TransformationType.TIME_WARP,
-    TransformationType.SURFACE_TRANSLATE,
-    TransformationType.FOURIER_MASKING,
-    TransformationType.HARMONIC_IMPRINT,
-    TransformationType.INTERFERENCE_ECHOES,
-    TransformationType.FORMANT_SHIFTING,
-    TransformationType.DYNAMIC_RING_MOD,
-    TransformationType.TRANSFORMATION_MORPH,
-];
+import OnsetEditor from './components/OnsetEditor';
+import PitchCurveView from './components/PitchCurveView';
+import EqCurveView from './components/EqCurveView';
+import ChainRack, { createChainStage } from './components/ChainRack';
+import BreakpointEditor from './components/BreakpointEditor';
+import XYMorphPad, { createXYCorners } from './components/XYMorphPad';
+import { DEFAULT_BREAKPOINTS } from './services/automation';
+import MasteringControls from './components/MasteringControls';
 
 export default function App(): React.ReactNode {
   const [sourceType, setSourceType] = useState<SourceType>(SourceType.FILE);
@@ -39,10 +36,29 @@ export default function App(): React.ReactNode {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Offline render progress (0-1) and the controller used to cancel it
+  const [renderProgress, setRenderProgress] = useState<number>(0);
+  const renderAbortRef = useRef<AbortController | null>(null);
+
+  // Output stage settings, and the last render before it went through them
+  const [mastering, setMastering] = useState<MasteringSettings>(DEFAULT_MASTERING);
+  const unmasteredRef = useRef<AudioData | null>(null);
+  // The settings as they are now, for renders that finish after they have changed
+  const masteringRef = useRef(mastering);
+  masteringRef.current = mastering;
+  const remasterAbortRef = useRef<AbortController | null>(null);
+
   // Morphing state
   const [morphA, setMorphA] = useState<TransformationType>(TransformationType.AMPLITUDE);
   const [morphB, setMorphB] = useState<TransformationType>(TransformationType.SPECTRAL);
 
+  // Chain state
+  const [chain, setChain] = useState<ChainStage[]>(() => [createChainStage(TransformationType.AMPLITUDE)]);
+
+  // XY Morphing state. While the puck is dragged, re-mixes are shown unmastered.
+  const [xyCorners, setXYCorners] = useState<XYCorner[]>(createXYCorners);
+  const xyDraggingRef = useRef(false);
+
   // Live processing state
   const [isLive, setIsLive] = useState(false);
   const [micStream, setMicStream] = useState<MediaStream | null>(null);
@@ -63,12 +79,15 @@ export default function App(): React.ReactNode {
 
   const handleSourceUpload = (audioData: AudioData) => {
     setSourceAudio(audioData);
+    // Edited onset markers belong to the previous file
+    setTransformationParams(prev => ({ ...prev, sourceOnsets: undefined }));
     setProcessedAudio(null);
     setError(null);
   };
 
   const handleTargetUpload = (audioData: AudioData) => {
     setTargetAudio(audioData);
+    setTransformationParams(prev => ({ ...prev, targetOnsets: undefined }));
     setProcessedAudio(null);
     setError(null);
     if(isLive) { // if we are live, stop processing to apply new target
@@ -85,7 +104,7 @@ export default function App(): React.ReactNode {
     setSourceAudio(null);
     setMicStream(null);
     setError(null);
-    if (liveOnlyDisabledTransformations.includes(transformation)) {
+    if (FILE_ONLY_TRANSFORMATIONS.includes(transformation)) {
         setTransformation(TransformationType.AMPLITUDE);
     }
   };
@@ -100,72 +119,114 @@ export default function App(): React.ReactNode {
     }
   }, [transformationParams, isLive]);
 
-  const handleFileTransform = useCallback(async () => {
+  // Cached corner renders belong to the transformation that made them
+  useEffect(() => {
+    clearRenderCache();
+  }, [transformation]);
+
+  // Masters the last render again, e.g. after the output stage settings change
+  const remaster = useCallback(() => {
+    const unmastered = unmasteredRef.current;
+    if (!unmastered) return;
+    remasterAbortRef.current?.abort();
+    const abortController = new AbortController();
+    remasterAbortRef.current = abortController;
+    masterResult(unmastered.buffer, masteringRef.current, { signal: abortController.signal })
+      .then(mastered => setProcessedAudio({ name: unmastered.name, ...mastered }))
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Mastering error:', err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred while mastering.');
+      });
+  }, []);
+
+  // A quiet render keeps the current result on screen and skips the progress UI; XY Morphing
+  // uses it to re-mix cached corner renders while the puck moves.
+  const renderFileTransform = useCallback(async (quiet: boolean) => {
     if (!sourceAudio || !targetAudio) {
       setError('Please upload both a source and a target audio file.');
       return;
     }
 
-    setIsLoading(true);
+    if (!quiet) {
+      setIsLoading(true);
+      setProcessedAudio(null);
+      setRenderProgress(0);
+    }
     setError(null);
-    setProcessedAudio(null);
 
-    try {
-      let result: AudioBuffer | null = null;
-      // Use a web worker in the future for these to avoid blocking main thread
-      switch (transformation) {
-        case TransformationType.AMPLITUDE:
-          result = await applyAmplitudeMapping(sourceAudio.buffer, targetAudio.buffer);
-          break;
-        case TransformationType.SPECTRAL:
-          result = await applySpectralShaping(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-          break;
-        case TransformationType.RHYTHMIC:
-          result = await applyRhythmicGating(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-          break;
-        case TransformationType.CONVOLUTION:
-          result = await applyConvolution(sourceAudio.buffer, targetAudio.buffer);
-          break;
-        case TransformationType.TIME_WARP:
-          result = await applyTimeScaleWarping(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-          break;
-        case TransformationType.SURFACE_TRANSLATE:
-          result = await applySurfaceTranslationMapping(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-          break;
-        case TransformationType.FOURIER_MASKING:
-          result = await applyFourierMasking(sourceAudio.buffer, targetAudio.buffer);
-          break;
-        case TransformationType.HARMONIC_IMPRINT:
-            result = await applyHarmonicImprinting(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-            break;
-        case TransformationType.INTERFERENCE_ECHOES:
-            result = await applyInterferenceEchoes(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-            break;
-        case TransformationType.FORMANT_SHIFTING:
-            result = await applyFormantShifting(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-            break;
-        case TransformationType.DYNAMIC_RING_MOD:
-            result = await applyDynamicRingModulation(sourceAudio.buffer, targetAudio.buffer, transformationParams);
-            break;
-        case TransformationType.TRANSFORMATION_MORPH:
-            result = await applyTransformationMorph(sourceAudio.buffer, targetAudio.buffer, morphA, morphB, transformationParams);
-            break;
-        default:
-          throw new Error(`Unknown transformation type: ${transformation}`);
-      }
+    renderAbortRef.current?.abort();
+    remasterAbortRef.current?.abort();
+    const abortController = new AbortController();
+    renderAbortRef.current = abortController;
 
-      if (result) {
-        setProcessedAudio({ name: `transformed_${targetAudio.name}`, buffer: result });
-      } else {
-        throw new Error('Transformation failed to produce audio.');
+    const hooks = { signal: abortController.signal, onProgress: quiet ? undefined : setRenderProgress };
+    try {
+      const result = await runTransformation({
+        transformation,
+        source: sourceAudio.buffer,
+        target: targetAudio.buffer,
+        params: transformationParams,
+        morphA,
+        morphB,
+        chain,
+        xyCorners,
+      }, scaleProgress(hooks, 0, 0.9));
+      const name = `transformed_${targetAudio.name}`;
+      unmasteredRef.current = { name, buffer: result };
+      if (quiet && xyDraggingRef.current) {
+        // Mastered once the puck is let go (see handleXYDraggingChange)
+        setProcessedAudio({ name, buffer: result });
+        return;
       }
+      // Master again if the settings changed while mastering, so the result is never stale
+      let settings: MasteringSettings;
+      let mastered: Awaited<ReturnType<typeof masterResult>>;
+      do {
+        settings = masteringRef.current;
+        mastered = await masterResult(result, settings, scaleProgress(hooks, 0.9, 1));
+      } while (settings !== masteringRef.current);
+      setProcessedAudio({ name, ...mastered });
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Transformation error:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred during transformation.');
     } finally {
-      setIsLoading(false);
+      if (renderAbortRef.current === abortController) {
+        renderAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, [sourceAudio, targetAudio, transformation, transformationParams, morphA, morphB]);
+  }, [sourceAudio, targetAudio, transformation, transformationParams, morphA, morphB, chain, xyCorners]);
+
+  const handleFileTransform = () => renderFileTransform(false);
+
+  const handleXYDraggingChange = (dragging: boolean) => {
+    xyDraggingRef.current = dragging;
+    // A re-mix still rendering masters itself once it sees the drag has ended
+    if (!dragging && !renderAbortRef.current) remaster();
+  };
+
+  // Re-mix XY Morphing results as the puck moves. Only the blend changes, so every corner
+  // render comes from the cache.
+  const { morphX, morphY, morphCrossfade } = transformationParams;
+  const hasResult = processedAudio !== null;
+  const remixRef = useRef(renderFileTransform);
+  remixRef.current = renderFileTransform;
+  useEffect(() => {
+    if (transformation !== TransformationType.XY_MORPH || !hasResult) return;
+    remixRef.current(true);
+  }, [morphX, morphY, morphCrossfade]);
+
+  // Re-master the last render when the output stage settings change. A render still in
+  // flight masters against the latest settings itself when it finishes.
+  useEffect(() => {
+    if (hasResult && !renderAbortRef.current) remaster();
+  }, [mastering]);
+
+  const handleCancelTransform = () => {
+    renderAbortRef.current?.abort();
+  };
 
   const toggleLiveProcessing = useCallback(async () => {
     if (isLive) {
@@ -203,6 +264,8 @@ export default function App(): React.ReactNode {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      renderAbortRef.current?.abort();
+      remasterAbortRef.current?.abort();
       liveProcessorRef.current?.stop();
       micStream?.getTracks().forEach(track => track.stop());
     }
@@ -212,7 +275,18 @@ export default function App(): React.ReactNode {
                         (sourceType === SourceType.LIVE && (!micStream || !targetAudio)) ||
                         isLoading;
 
-  const showParameters = TRANSFORMATION_PARAMS_CONFIG[transformation];
+  const selectedDefinition = getTransformation(transformation);
+  const morphADefinition = getTransformation(morphA);
+  const morphBDefinition = getTransformation(morphB);
+  // Channel mapping and length policies only apply to offline renders
+  const showRenderOptions = sourceType === SourceType.FILE;
+  const hasControls = (definition: typeof selectedDefinition) =>
+    Object.keys(definition.params).length > 0 || definition.choices !== undefined ||
+    (showRenderOptions && (definition.channelMode !== undefined || definition.lengthPolicy !== undefined));
+  const activeDefinitions = transformation === TransformationType.TRANSFORMATION_MORPH ? [morphADefinition, morphBDefinition] : [selectedDefinition];
+  const onsetInputs = [...new Set(activeDefinitions.flatMap(definition => definition.onsetInputs ?? []))];
+  const pitchInputs = [...new Set(activeDefinitions.flatMap(definition => definition.pitchInputs ?? []))];
+  const showEqCurve = activeDefinitions.some(definition => definition.id === TransformationType.EQ_MATCH);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 font-sans">
@@ -238,7 +312,7 @@ export default function App(): React.ReactNode {
             <TransformationSelector 
               selected={transformation} 
               onSelect={setTransformation}
-              disabledItems={sourceType === SourceType.LIVE ? liveOnlyDisabledTransformations : []}
+              disabledItems={sourceType === SourceType.LIVE ? FILE_ONLY_TRANSFORMATIONS : []}
             />
 
             {transformation === TransformationType.TRANSFORMATION_MORPH ? (
@@ -248,53 +322,117 @@ export default function App(): React.ReactNode {
                         setMorphA={setMorphA}
                         morphB={morphB}
                         setMorphB={setMorphB}
-                        disabledItems={sourceType === SourceType.LIVE ? liveOnlyDisabledTransformations : []}
+                        disabledItems={sourceType === SourceType.LIVE ? FILE_ONLY_TRANSFORMATIONS : []}
+                    />
+                    <TransformationParameters
+                        title="Morph Blend (A ⟷ B)"
+                        transformation={TransformationType.TRANSFORMATION_MORPH}
+                        params={transformationParams}
+                        onParamsChange={handleParamsChange}
+                        configs={getTransformation(TransformationType.TRANSFORMATION_MORPH).params}
+                        choices={getTransformation(TransformationType.TRANSFORMATION_MORPH).choices}
                     />
-                     {TRANSFORMATION_PARAMS_CONFIG[TransformationType.TRANSFORMATION_MORPH] && (
-                        <TransformationParameters
-                            title="Morph Blend (A ⟷ B)"
-                            transformation={TransformationType.TRANSFORMATION_MORPH}
-                            params={transformationParams}
-                            onParamsChange={handleParamsChange}
-                            configs={TRANSFORMATION_PARAMS_CONFIG[TransformationType.TRANSFORMATION_MORPH]!}
+                    {transformationParams.morphCurve === 'breakpoints' && (
+                        <BreakpointEditor
+                            breakpoints={transformationParams.morphBreakpoints ?? DEFAULT_BREAKPOINTS}
+                            onChange={(morphBreakpoints) => handleParamsChange({ morphBreakpoints })}
+                            highLabel={`B: ${morphB}`}
+                            lowLabel={`A: ${morphA}`}
                         />
                     )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <div>
-                            {TRANSFORMATION_PARAMS_CONFIG[morphA] && (
+                            {hasControls(morphADefinition) && (
                                 <TransformationParameters
                                     title={`A: ${morphA} Params`}
                                     transformation={morphA}
                                     params={transformationParams}
                                     onParamsChange={handleParamsChange}
-                                    configs={TRANSFORMATION_PARAMS_CONFIG[morphA]!}
+                                    configs={morphADefinition.params}
+                                    choices={morphADefinition.choices}
+                                    defaultChannelMode={morphADefinition.channelMode}
+                                    defaultLengthPolicy={morphADefinition.lengthPolicy}
+                                    allowAutomation={showRenderOptions}
                                 />
                             )}
                         </div>
                         <div>
-                             {TRANSFORMATION_PARAMS_CONFIG[morphB] && (
+                             {hasControls(morphBDefinition) && (
                                 <TransformationParameters
                                     title={`B: ${morphB} Params`}
                                     transformation={morphB}
                                     params={transformationParams}
                                     onParamsChange={handleParamsChange}
-                                    configs={TRANSFORMATION_PARAMS_CONFIG[morphB]!}
+                                    configs={morphBDefinition.params}
+                                    choices={morphBDefinition.choices}
+                                    defaultChannelMode={morphBDefinition.channelMode}
+                                    defaultLengthPolicy={morphBDefinition.lengthPolicy}
+                                    allowAutomation={showRenderOptions}
                                 />
                             )}
                         </div>
                     </div>
                 </div>
+            ) : transformation === TransformationType.TRANSFORMATION_CHAIN ? (
+                <ChainRack stages={chain} onStagesChange={setChain} />
+            ) : transformation === TransformationType.XY_MORPH ? (
+                <>
+                    <XYMorphPad
+                        corners={xyCorners}
+                        onCornersChange={setXYCorners}
+                        x={morphX ?? 0.5}
+                        y={morphY ?? 0.5}
+                        onPositionChange={(x, y) => handleParamsChange({ morphX: x, morphY: y })}
+                        onDraggingChange={handleXYDraggingChange}
+                    />
+                    <TransformationParameters
+                        title="Blend"
+                        transformation={TransformationType.XY_MORPH}
+                        params={transformationParams}
+                        onParamsChange={handleParamsChange}
+                        configs={{}}
+                        choices={selectedDefinition.choices}
+                    />
+                </>
             ) : (
-                showParameters && (
+                hasControls(selectedDefinition) && (
                     <TransformationParameters
                         transformation={transformation}
                         params={transformationParams}
                         onParamsChange={handleParamsChange}
-                        configs={TRANSFORMATION_PARAMS_CONFIG[transformation]!}
+                        configs={selectedDefinition.params}
+                        choices={selectedDefinition.choices}
+                        defaultChannelMode={showRenderOptions ? selectedDefinition.channelMode : undefined}
+                        defaultLengthPolicy={showRenderOptions ? selectedDefinition.lengthPolicy : undefined}
+                        allowAutomation={showRenderOptions}
                     />
                 )
             )}
 
+            {showRenderOptions && onsetInputs.length > 0 && (
+              <OnsetEditor
+                inputs={onsetInputs}
+                sourceAudio={sourceAudio}
+                targetAudio={targetAudio}
+                params={transformationParams}
+                onParamsChange={handleParamsChange}
+              />
+            )}
+
+            {showRenderOptions && pitchInputs.length > 0 && (
+              <PitchCurveView
+                inputs={pitchInputs}
+                sourceAudio={sourceAudio}
+                targetAudio={targetAudio}
+                minConfidence={transformationParams.melodyConfidence ?? 0.5}
+              />
+            )}
+
+            {showRenderOptions && showEqCurve && (
+              <EqCurveView sourceAudio={sourceAudio} targetAudio={targetAudio} params={transformationParams} />
+            )}
+
+            {showRenderOptions && <MasteringControls settings={mastering} onSettingsChange={setMastering} />}
 
             <div className="mt-8 flex flex-col items-center">
               <button
@@ -341,9 +479,23 @@ export default function App(): React.ReactNode {
                 Transformation Result
               </h2>
               {isLoading && !isLive && (
-                 <div className="flex justify-center items-center h-32">
-                   <Spinner />
-                   <span className="ml-3 text-lg">Generating new soundscape...</span>
+                 <div className="flex flex-col justify-center items-center h-32 gap-4">
+                   <div className="flex items-center">
+                     <Spinner />
+                     <span className="text-lg">Generating new soundscape... {Math.round(renderProgress * 100)}%</span>
+                   </div>
+                   <div className="w-full max-w-md h-2 bg-gray-700 rounded-full overflow-hidden">
+                     <div
+                       className="h-full bg-gradient-to-r from-cyan-500 to-blue-500 transition-[width] duration-200"
+                       style={{ width: `${Math.round(renderProgress * 100)}%` }}
+                     />
+                   </div>
+                   <button
+                     onClick={handleCancelTransform}
+                     className="px-4 py-1.5 text-sm font-semibold text-gray-200 bg-gray-700 rounded-lg hover:bg-red-500/60 transition-colors"
+                   >
+                     Cancel
+                   </button>
                  </div>
               )}
               {processedAudio && !isLoading && (
@@ -355,6 +507,9 @@ export default function App(): React.ReactNode {
                     transformation={transformation}
                     morphA={transformation === TransformationType.TRANSFORMATION_MORPH ? morphA : undefined}
                     morphB={transformation === TransformationType.TRANSFORMATION_MORPH ? morphB : undefined}
+                    chain={transformation === TransformationType.TRANSFORMATION_CHAIN
+                      ? chain.filter(stage => !stage.bypass).map(stage => stage.transformation)
+                      : undefined}
                    />
                 </div>
               )}
@@ -10,9 +10,10 @@ interface AIEnhancerProps {
   transformation: TransformationType;
   morphA?: TransformationType;
   morphB?: TransformationType;
+  chain?: TransformationType[];
 }
 
-export default function AIEnhancer({ sourceName, targetName, transformation, morphA, morphB }: AIEnhancerProps): React.ReactNode {
+export default function AIEnhancer({ sourceName, targetName, transformation, morphA, morphB, chain }: AIEnhancerProps): React.ReactNode {
   const [isLoading, setIsLoading] = useState(false);
   const [names, setNames] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -25,7 +26,7 @@ export default function AIEnhancer({ sourceName, targetName, transformation, mor
     setNames([]);
 
     try {
-      const result = await generateSoundName(sourceName, targetName, transformation, morphA, morphB);
+      const result = await generateSoundName(sourceName, targetName, transformation, morphA, morphB, chain);
       setNames(result);
     } catch (err) {
       console.error('Gemini API error:', err);
@@ -37,7 +38,7 @@ export default function AIEnhancer({ sourceName, targetName, transformation, mor
     } finally {
       setIsLoading(false);
     }
-  }, [sourceName, targetName, transformation, morphA, morphB]);
+  }, [sourceName, targetName, transformation, morphA, morphB, chain]);
 
   return (
     <div className="mt-8 pt-6 border-t border-gray-700/50">
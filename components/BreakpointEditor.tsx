@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import type { Breakpoint } from '../types';
+
+interface BreakpointEditorProps {
+  breakpoints: Breakpoint[];
+  onChange: (breakpoints: Breakpoint[]) => void;
+  // Labels for the bottom (0) and top (1) of the value range
+  lowLabel?: string;
+  highLabel?: string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 120;
+const POINT_RADIUS = 5;
+
+const sortByTime = (points: Breakpoint[]) => [...points].sort((a, b) => a.time - b.time);
+
+/**
+ * Draws a 0-1 envelope over normalised time. Click to add a point, drag to move it and
+ * right-click to remove it (at least two points are kept).
+ */
+export default function BreakpointEditor({ breakpoints, onChange, lowLabel, highLabel }: BreakpointEditorProps): React.ReactNode {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const toPoint = (event: React.PointerEvent | React.MouseEvent): Breakpoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const time = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    const value = rect.height > 0 ? 1 - (event.clientY - rect.top) / rect.height : 0;
+    return { time: Math.min(1, Math.max(0, time)), value: Math.min(1, Math.max(0, value)) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const index = (event.target as Element).getAttribute('data-index');
+    if (index !== null) {
+      setDragIndex(Number(index));
+      return;
+    }
+    const point = toPoint(event);
+    const next = sortByTime([...breakpoints, point]);
+    setDragIndex(next.indexOf(point));
+    onChange(next);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const next = [...breakpoints];
+    next[dragIndex] = toPoint(event);
+    onChange(next);
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndex === null) return;
+    setDragIndex(null);
+    onChange(sortByTime(breakpoints));
+  };
+
+  const handleContextMenu = (event: React.MouseEvent<SVGSVGElement>) => {
+    const index = (event.target as Element).getAttribute('data-index');
+    if (index === null || breakpoints.length <= 2) return;
+    event.preventDefault();
+    onChange(breakpoints.filter((_, i) => i !== Number(index)));
+  };
+
+  // The curve holds its first and last values out to the edges
+  const sorted = sortByTime(breakpoints);
+  const line = sorted.length > 0
+    ? [{ time: 0, value: sorted[0].value }, ...sorted, { time: 1, value: sorted[sorted.length - 1].value }]
+    : [];
+  const path = line.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.time * WIDTH},${(1 - point.value) * HEIGHT}`).join(' ');
+
+  return (
+    <div className="space-y-1">
+      {highLabel && <div className="text-xs text-gray-500">{highLabel}</div>}
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onContextMenu={handleContextMenu}
+        className="w-full h-28 bg-gray-800 rounded-md border border-gray-600 cursor-crosshair touch-none"
+      >
+        {line.length > 0 && (
+          <path
+            d={path}
+            fill="none"
+            stroke="#06b6d4"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {breakpoints.map((point, index) => (
+          <circle
+            key={index}
+            data-index={index}
+            cx={point.time * WIDTH}
+            cy={(1 - point.value) * HEIGHT}
+            r={POINT_RADIUS}
+            fill={index === dragIndex ? '#ffffff' : '#c084fc'}
+            className="cursor-move"
+          />
+        ))}
+      </svg>
+      {lowLabel && <div className="text-xs text-gray-500">{lowLabel}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React from 'react';
+import type { ChainStage, TransformationParams } from '../types';
+import { TransformationType } from '../types';
+import { CHAINABLE_TRANSFORMATIONS, getDefaultParams, getTransformation } from '../services/transformationRegistry';
+import TransformationParameters from './TransformationParameters';
+import { IconChain, IconChevronUp, IconChevronDown, IconX } from './Icons';
+
+interface ChainRackProps {
+  stages: ChainStage[];
+  onStagesChange: (stages: ChainStage[]) => void;
+}
+
+let nextStageId = 0;
+
+export function createChainStage(transformation: TransformationType): ChainStage {
+  nextStageId += 1;
+  return { id: `stage-${nextStageId}`, transformation, params: getDefaultParams(), bypass: false, mix: 1 };
+}
+
+export default function ChainRack({ stages, onStagesChange }: ChainRackProps): React.ReactNode {
+
+  const updateStage = (id: string, changes: Partial<ChainStage>) => {
+    onStagesChange(stages.map(stage => (stage.id === id ? { ...stage, ...changes } : stage)));
+  };
+
+  const updateStageParams = (stage: ChainStage, params: Partial<TransformationParams>) => {
+    updateStage(stage.id, { params: { ...stage.params, ...params } });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const next = [...stages];
+    const [stage] = next.splice(index, 1);
+    next.splice(index + offset, 0, stage);
+    onStagesChange(next);
+  };
+
+  const removeStage = (id: string) => {
+    onStagesChange(stages.filter(stage => stage.id !== id));
+  };
+
+  const addStage = () => {
+    onStagesChange([...stages, createChainStage(TransformationType.AMPLITUDE)]);
+  };
+
+  return (
+    <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
+      <h3 className="text-xl font-bold text-center mb-5 text-gray-300 flex items-center justify-center gap-3">
+        <IconChain className="w-6 h-6 text-purple-400"/>
+        Effect Rack
+      </h3>
+      <div className="space-y-4">
+        {stages.length === 0 && (
+          <p className="text-sm text-center text-gray-500">Add a stage to start building the chain.</p>
+        )}
+        {stages.map((stage, index) => {
+          const definition = getTransformation(stage.transformation);
+          const hasParams = Object.keys(definition.params).length > 0 || definition.choices !== undefined ||
+            definition.channelMode !== undefined || definition.lengthPolicy !== undefined;
+          return (
+            <div key={stage.id} className={`border border-gray-700 rounded-lg p-4 ${stage.bypass ? 'opacity-50' : ''}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-sm font-mono text-cyan-400">{index + 1}</span>
+                <select
+                  aria-label={`Stage ${index + 1} transformation`}
+                  value={stage.transformation}
+                  onChange={(e) => updateStage(stage.id, { transformation: e.target.value as TransformationType })}
+                  className="flex-1 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 p-2"
+                >
+                  {CHAINABLE_TRANSFORMATIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={stage.bypass}
+                    onChange={(e) => updateStage(stage.id, { bypass: e.target.checked })}
+                  />
+                  Bypass
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  Wet
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={stage.mix}
+                    onChange={(e) => updateStage(stage.id, { mix: parseFloat(e.target.value) })}
+                    className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <span className="w-10 text-right font-mono text-cyan-400">{Math.round(stage.mix * 100)}%</span>
+                </label>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => moveStage(index, -1)} disabled={index === 0} aria-label="Move stage up" className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                    <IconChevronUp className="w-5 h-5"/>
+                  </button>
+                  <button onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} aria-label="Move stage down" className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                    <IconChevronDown className="w-5 h-5"/>
+                  </button>
+                  <button onClick={() => removeStage(stage.id)} aria-label="Remove stage" className="p-1 text-gray-400 hover:text-red-400">
+                    <IconX className="w-5 h-5"/>
+                  </button>
+                </div>
+              </div>
+              {hasParams && (
+                <TransformationParameters
+                  title={`${index + 1}: ${stage.transformation} Params`}
+                  transformation={stage.transformation}
+                  params={stage.params}
+                  onParamsChange={(params) => updateStageParams(stage, params)}
+                  configs={definition.params}
+                  choices={definition.choices}
+                  defaultChannelMode={definition.channelMode}
+                  defaultLengthPolicy={definition.lengthPolicy}
+                  allowAutomation
+                />
+              )}
+            </div>
+          );
+        })}
+        <button
+          onClick={addStage}
+          className="w-full py-2 border border-dashed border-gray-600 rounded-lg text-sm text-gray-400 hover:text-white hover:border-cyan-500"
+        >
+          + Add Stage
+        </button>
+      </div>
+    </div>
+  );
+}
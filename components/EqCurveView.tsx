@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import type { AudioData, TransformationParams } from '../types';
+import { matchingCurve, resampleSpectrum } from '../services/eqMatch';
+import { useMeasurement } from './useMeasurement';
+
+interface EqCurveViewProps {
+  sourceAudio: AudioData | null;
+  targetAudio: AudioData | null;
+  params: TransformationParams;
+}
+
+const WIDTH = 400;
+const HEIGHT = 120;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+// The dB axis always spans at least this much either side of 0
+const MIN_RANGE = 6;
+const GRID_FREQUENCIES = [100, 1000, 10000];
+
+// Measured at the default FFT size, which is what EQ Matching renders with
+const SPECTRUM_OPTIONS = {};
+
+const frequencyLabel = (frequency: number) => (frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`);
+
+/**
+ * Draws the matching EQ curve EQ Matching will apply, in dB over a log frequency axis, as it
+ * stands with the current amount, smoothing and limits.
+ */
+export default function EqCurveView({ sourceAudio, targetAudio, params }: EqCurveViewProps): React.ReactNode {
+  const { result: sourceSpectrum } = useMeasurement(sourceAudio?.buffer ?? null, 'spectrum', SPECTRUM_OPTIONS);
+  const { result: targetSpectrum } = useMeasurement(targetAudio?.buffer ?? null, 'spectrum', SPECTRUM_OPTIONS);
+  const { eqMatchAmount = 1, eqMatchResolution = 3, eqMatchMaxBoost = 12, eqMatchMaxCut = 12 } = params;
+  const sampleRate = targetAudio?.buffer.sampleRate ?? 44100;
+  const sourceRate = sourceAudio?.buffer.sampleRate ?? sampleRate;
+
+  const curve = useMemo(() => {
+    if (!sourceSpectrum || !targetSpectrum) return null;
+    // The render resamples the source to the target's rate first, so compare bins by frequency
+    return matchingCurve(resampleSpectrum(sourceSpectrum, sourceRate, sampleRate), targetSpectrum, sampleRate, {
+      bandsPerOctave: eqMatchResolution,
+      amount: eqMatchAmount,
+      maxBoost: eqMatchMaxBoost,
+      maxCut: eqMatchMaxCut,
+    });
+  }, [sourceSpectrum, targetSpectrum, sourceRate, sampleRate, eqMatchAmount, eqMatchResolution, eqMatchMaxBoost, eqMatchMaxCut]);
+
+  if (!sourceAudio || !targetAudio) return null;
+  if (!curve) {
+    return (
+      <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
+        <h3 className="text-xl font-bold text-center mb-5 text-gray-300">Matching EQ Curve</h3>
+        <p className="text-sm text-center text-gray-500">Measuring spectra…</p>
+      </div>
+    );
+  }
+
+  const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  const range = Math.max(MIN_RANGE, Math.ceil(curve.reduce((max, gain) => Math.max(max, Math.abs(gain)), 0)));
+  const x = (frequency: number) => Math.log(frequency / MIN_FREQUENCY) / Math.log(maxFrequency / MIN_FREQUENCY) * WIDTH;
+  const y = (gain: number) => (0.5 - gain / (2 * range)) * HEIGHT;
+  const gridFrequencies = GRID_FREQUENCIES.filter(frequency => frequency < maxFrequency);
+  const binWidth = sampleRate / (2 * (curve.length - 1));
+
+  let path = '';
+  for (let k = Math.ceil(MIN_FREQUENCY / binWidth); k < curve.length && k * binWidth <= maxFrequency; k++) {
+    path += `${path ? 'L' : 'M'}${x(k * binWidth)},${y(curve[k])} `;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
+      <h3 className="text-xl font-bold text-center mb-5 text-gray-300">Matching EQ Curve</h3>
+      <div className="text-xs text-gray-500">+{range} dB</div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-28 bg-gray-800 rounded-md border border-gray-600"
+      >
+        {gridFrequencies.map(frequency => (
+          <line key={frequency} x1={x(frequency)} x2={x(frequency)} y1={0} y2={HEIGHT} stroke="#4b5563" vectorEffect="non-scaling-stroke" />
+        ))}
+        <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} stroke="#6b7280" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <path d={path} fill="none" stroke="#06b6d4" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="relative h-4 text-xs text-gray-500">
+        <span>-{range} dB</span>
+        {gridFrequencies.map(frequency => (
+          <span key={frequency} className="absolute -translate-x-1/2" style={{ left: `${x(frequency) / WIDTH * 100}%` }}>
+            {frequencyLabel(frequency)}Hz
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
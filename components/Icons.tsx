@@ -84,6 +84,63 @@ export const IconFourierMask: React.FC<IconProps> = ({ className }) => (
     </svg>
 );
 
+export const IconCepstrum: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4 20v-9m4 9V7m4 13v-7m4 7V9m4 11v-9" opacity="0.4"/>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M2 13c2-3 4-7 6-7s3 6 5 7 4-5 6-4 2 3 3 4" />
+    </svg>
+);
+
+export const IconGranular: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <circle cx="6" cy="8" r="1.5" />
+        <circle cx="11" cy="5" r="1" />
+        <circle cx="16" cy="9" r="2" />
+        <circle cx="9" cy="13" r="2" />
+        <circle cx="18" cy="16" r="1" />
+        <circle cx="13" cy="18" r="1.5" />
+        <circle cx="5" cy="18" r="1" opacity="0.5"/>
+    </svg>
+);
+
+export const IconSpectralMorph: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 20V9m3 11V5m3 15v-8" opacity="0.4"/>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15 20v-6m3 6V8m3 12v-4" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M10 6h4m0 0-1.5-1.5M14 6l-1.5 1.5" />
+    </svg>
+);
+
+export const IconMelodyTransfer: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16h3v-4h3v-3h3v5h3V7h3v4h3" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 20h18" opacity="0.4" />
+    </svg>
+);
+
+export const IconSliceResequence: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <rect x="3" y="6" width="5" height="5" rx="1" />
+        <rect x="10" y="6" width="4" height="5" rx="1" />
+        <rect x="16" y="6" width="5" height="5" rx="1" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M5.5 11v2.5l11 4M12 11v6.5m6.5-6.5v2.5l-13 4" opacity="0.6" />
+    </svg>
+);
+
+export const IconSidechain: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 6h1.5l1.5 9c1.5 0 3-6 4.5-9l1.5 9c1.5 0 3-6 4.5-9l1.5 9c1 0 2-3 3-4" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 20h18" opacity="0.4" />
+    </svg>
+);
+
+export const IconEqMatch: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 12h18" opacity="0.4" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 14c2 0 3-5 5-5s3 7 6 7 3-6 4-6 2 2 3 2" />
+    </svg>
+);
+
 export const IconHarmonicImprint: React.FC<IconProps> = ({ className }) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M5 20v-8m4 8V8m4 12V8" opacity="0.4"/>
@@ -125,6 +182,19 @@ export const IconTransformationMorph: React.FC<IconProps> = ({ className }) => (
     </svg>
 );
 
+export const IconChain: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 0 1 1.242 7.244l-4.5 4.5a4.5 4.5 0 0 1-6.364-6.364l1.757-1.757m13.35-.622 1.757-1.757a4.5 4.5 0 0 0-6.364-6.364l-4.5 4.5a4.5 4.5 0 0 0 1.242 7.244" />
+    </svg>
+);
+
+export const IconXYPad: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 4.5h15v15h-15v-15ZM12 4.5v15M4.5 12h15" />
+        <circle cx="15" cy="9" r="1.5" fill="currentColor" />
+    </svg>
+);
+
 export const IconTransform: React.FC<IconProps> = ({ className }) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 11.667 0l3.181-3.183m-11.667-11.667a8.25 8.25 0 0 1 11.667 0l3.181 3.183m-14.85-3.183L6.336 7.67a8.25 8.25 0 0 1 11.667 0l3.181-3.183" />
@@ -201,4 +271,16 @@ export const IconPalette: React.FC<IconProps> = ({ className }) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M4.098 19.902a3.75 3.75 0 0 0 5.304 0l6.401-6.402M6.75 21A3.375 3.375 0 0 1 3.375 17.625a3.375 3.375 0 0 1 3.375-3.375h1.5a3.375 3.375 0 0 1 3.375 3.375v1.5a3.375 3.375 0 0 1-3.375 3.375h-1.5Zm9.042-9.042-6.402-6.402a3.75 3.75 0 0 0-5.304 0l-1.902 1.902a3.75 3.75 0 0 0 0 5.304l6.402 6.402" />
   </svg>
-);
\ No newline at end of file
+);
+
+export const IconChevronUp: React.FC<IconProps> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m4.5 15.75 7.5-7.5 7.5 7.5" />
+  </svg>
+);
+
+export const IconChevronDown: React.FC<IconProps> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
+  </svg>
+);
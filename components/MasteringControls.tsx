@@ -0,0 +1,53 @@
+import React from 'react';
+import type { MasteringSettings } from '../types';
+
+interface MasteringControlsProps {
+  settings: MasteringSettings;
+  onSettingsChange: (settings: MasteringSettings) => void;
+}
+
+const SLIDERS: { key: 'targetLufs' | 'ceiling'; label: string; min: number; max: number; unit: string }[] = [
+  { key: 'targetLufs', label: 'Target Loudness', min: -30, max: -6, unit: ' LUFS' },
+  { key: 'ceiling', label: 'True-Peak Ceiling', min: -6, max: 0, unit: ' dBTP' },
+];
+
+/**
+ * Settings for the output stage every render passes through: loudness normalisation to a target
+ * LUFS, then a true-peak limiter.
+ */
+export default function MasteringControls({ settings, onSettingsChange }: MasteringControlsProps): React.ReactNode {
+  return (
+    <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-xl font-bold text-gray-300">Output Stage</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+          />
+          Normalise &amp; Limit
+        </label>
+      </div>
+      <div className={`space-y-4 ${settings.enabled ? '' : 'opacity-50'}`}>
+        {SLIDERS.map(({ key, label, min, max, unit }) => (
+          <div key={key} className="grid grid-cols-[auto_1fr_minmax(90px,auto)] items-center gap-4">
+            <label htmlFor={`mastering-${key}`} className="text-sm font-medium text-gray-400">{label}</label>
+            <input
+              type="range"
+              id={`mastering-${key}`}
+              min={min}
+              max={max}
+              step={0.5}
+              value={settings[key]}
+              disabled={!settings.enabled}
+              onChange={(e) => onSettingsChange({ ...settings, [key]: parseFloat(e.target.value) })}
+              className="h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="text-sm text-cyan-400 font-mono text-right">{settings[key].toFixed(1)}{unit}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
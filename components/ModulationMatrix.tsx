@@ -0,0 +1,108 @@
+import React from 'react';
+import type { ModulationRouting, ModulationFeature, ModulationPolarity, NumericParamKey, ParamSchema } from '../types';
+import { MODULATION_FEATURE_OPTIONS, MODULATION_POLARITY_OPTIONS } from '../services/transformationRegistry';
+import { IconX } from './Icons';
+
+interface ModulationMatrixProps {
+  routings: ModulationRouting[];
+  onRoutingsChange: (routings: ModulationRouting[]) => void;
+  // Only routings to automatable params in this schema are shown; others are kept as they are
+  configs: ParamSchema;
+}
+
+let nextRoutingId = 0;
+
+export function createModulationRouting(target: NumericParamKey): ModulationRouting {
+  nextRoutingId += 1;
+  return { id: `routing-${nextRoutingId}`, feature: 'rms', target, depth: 0.5, polarity: 'positive', smoothing: 50 };
+}
+
+const selectClassName = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 p-2';
+
+/**
+ * Routes features of the source (loudness, brightness, onset density) to params, so the source
+ * plays the transformation as it renders.
+ */
+export default function ModulationMatrix({ routings, onRoutingsChange, configs }: ModulationMatrixProps): React.ReactNode {
+  const targets = (Object.keys(configs) as NumericParamKey[]).filter(key => configs[key]?.automatable);
+  if (targets.length === 0) return null;
+  const visible = routings.filter(routing => targets.includes(routing.target));
+
+  const updateRouting = (id: string, changes: Partial<ModulationRouting>) => {
+    onRoutingsChange(routings.map(routing => (routing.id === id ? { ...routing, ...changes } : routing)));
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-700">
+      <h4 className="text-sm font-medium text-gray-400">Modulation</h4>
+      {visible.map(routing => (
+        <div key={routing.id} className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            aria-label="Source feature"
+            value={routing.feature}
+            onChange={(e) => updateRouting(routing.id, { feature: e.target.value as ModulationFeature })}
+            className={selectClassName}
+          >
+            {MODULATION_FEATURE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <span className="text-gray-500">→</span>
+          <select
+            aria-label="Target param"
+            value={routing.target}
+            onChange={(e) => updateRouting(routing.id, { target: e.target.value as NumericParamKey })}
+            className={selectClassName}
+          >
+            {targets.map(key => <option key={key} value={key}>{configs[key]!.label}</option>)}
+          </select>
+          <select
+            aria-label="Polarity"
+            value={routing.polarity}
+            onChange={(e) => updateRouting(routing.id, { polarity: e.target.value as ModulationPolarity })}
+            className={selectClassName}
+          >
+            {MODULATION_POLARITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-gray-400">
+            Depth
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={routing.depth}
+              onChange={(e) => updateRouting(routing.id, { depth: parseFloat(e.target.value) })}
+              className="w-20 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="w-10 text-right font-mono text-cyan-400">{Math.round(routing.depth * 100)}%</span>
+          </label>
+          <label className="flex items-center gap-2 text-gray-400">
+            Smoothing
+            <input
+              type="range"
+              min={0}
+              max={1000}
+              step={10}
+              value={routing.smoothing}
+              onChange={(e) => updateRouting(routing.id, { smoothing: parseFloat(e.target.value) })}
+              className="w-20 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="w-16 text-right font-mono text-cyan-400">{routing.smoothing}ms</span>
+          </label>
+          <button
+            onClick={() => onRoutingsChange(routings.filter(other => other.id !== routing.id))}
+            aria-label="Remove routing"
+            className="p-1 text-gray-400 hover:text-red-400"
+          >
+            <IconX className="w-4 h-4"/>
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onRoutingsChange([...routings, createModulationRouting(targets[0])])}
+        className="w-full py-2 border border-dashed border-gray-600 rounded-lg text-sm text-gray-400 hover:text-white hover:border-cyan-500"
+      >
+        + Add Routing
+      </button>
+    </div>
+  );
+}
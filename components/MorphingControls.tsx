@@ -1,5 +1,6 @@
 import React from 'react';
 import { TransformationType } from '../types';
+import { MORPHABLE_TRANSFORMATIONS } from '../services/transformationRegistry';
 
 interface MorphingControlsProps {
     morphA: TransformationType;
@@ -9,11 +10,6 @@ interface MorphingControlsProps {
     disabledItems?: TransformationType[];
 }
 
-// Get all transformation types except the morphing one itself
-const morphableTransformations = Object.values(TransformationType).filter(
-    t => t !== TransformationType.TRANSFORMATION_MORPH
-);
-
 export default function MorphingControls({ morphA, setMorphA, morphB, setMorphB, disabledItems = [] }: MorphingControlsProps): React.ReactNode {
     
     const renderSelect = (value: TransformationType, setter: (type: TransformationType) => void, label: string) => (
@@ -25,7 +21,7 @@ export default function MorphingControls({ morphA, setMorphA, morphB, setMorphB,
                 onChange={(e) => setter(e.target.value as TransformationType)}
                 className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5"
             >
-                {morphableTransformations.map(t => {
+                {MORPHABLE_TRANSFORMATIONS.map(t => {
                     const isDisabled = disabledItems.includes(t);
                     return <option key={t} value={t} disabled={isDisabled}>{t}{isDisabled ? ' (File only)' : ''}</option>;
                 })}
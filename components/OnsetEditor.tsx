@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AudioData, TransformationParams } from '../types';
+import type { OnsetInput } from '../services/transformationRegistry';
+import { useMeasurement } from './useMeasurement';
+import WaveformVisualizer from './WaveformVisualizer';
+
+interface OnsetEditorProps {
+  inputs: OnsetInput[];
+  sourceAudio: AudioData | null;
+  targetAudio: AudioData | null;
+  params: TransformationParams;
+  onParamsChange: (newParams: Partial<TransformationParams>) => void;
+}
+
+const EDITED_KEYS = { source: 'sourceOnsets', target: 'targetOnsets' } as const;
+// How long the sensitivity slider has to rest before onsets are detected again
+const SENSITIVITY_DEBOUNCE_MS = 250;
+
+function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+  return debounced;
+}
+
+interface OnsetLaneProps {
+  input: OnsetInput;
+  audio: AudioData;
+  params: TransformationParams;
+  onParamsChange: (newParams: Partial<TransformationParams>) => void;
+}
+
+function OnsetLane({ input, audio, params, onParamsChange }: OnsetLaneProps): React.ReactNode {
+  const { onsetMethod } = params;
+  const onsetSensitivity = useDebouncedValue(params.onsetSensitivity, SENSITIVITY_DEBOUNCE_MS);
+  const { buffer } = audio;
+  const edited = params[EDITED_KEYS[input]];
+  // Edited lanes ignore detection, so only measure while the lane follows it
+  const { result: onsets, pending } = useMeasurement(edited ? null : buffer, 'onsets', { method: onsetMethod, sensitivity: onsetSensitivity });
+  const detected = useMemo(() => (onsets ?? []).map(i => i / buffer.sampleRate), [onsets, buffer]);
+  const markers = edited ?? detected;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-400">
+          {input === 'source' ? 'Source' : 'Target'}: {audio.name}
+        </span>
+        <span className="flex items-center gap-3 text-gray-500">
+          {!edited && pending ? 'Detecting onsets…' : `${markers.length} onsets${edited ? ' (edited)' : ''}`}
+          {edited && (
+            <button
+              onClick={() => onParamsChange({ [EDITED_KEYS[input]]: undefined })}
+              className="text-cyan-400 hover:text-cyan-300"
+            >
+              Reset
+            </button>
+          )}
+        </span>
+      </div>
+      <WaveformVisualizer
+        buffer={buffer}
+        markers={markers}
+        onMarkersChange={(next) => onParamsChange({ [EDITED_KEYS[input]]: next })}
+      />
+    </div>
+  );
+}
+
+/**
+ * Shows the onsets a rhythm-driven transformation will use and lets the user correct them
+ * before rendering. Until a lane is edited it follows the live detection settings.
+ */
+export default function OnsetEditor({ inputs, sourceAudio, targetAudio, params, onParamsChange }: OnsetEditorProps): React.ReactNode {
+  const lanes = inputs
+    .map(input => ({ input, audio: input === 'source' ? sourceAudio : targetAudio }))
+    .filter((lane): lane is { input: OnsetInput; audio: AudioData } => lane.audio !== null);
+  if (lanes.length === 0) return null;
+
+  return (
+    <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
+      <h3 className="text-xl font-bold text-center mb-2 text-gray-300">Onsets</h3>
+      <p className="text-xs text-center text-gray-500 mb-5">
+        Click to add a marker, drag to move it, right-click to remove it.
+      </p>
+      <div className="space-y-4">
+        {lanes.map(({ input, audio }) => (
+          <OnsetLane key={input} input={input} audio={audio} params={params} onParamsChange={onParamsChange} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import type { AudioData } from '../types';
+import type { OnsetInput } from '../services/transformationRegistry';
+import { frequencyToMidi } from '../services/pitchTracker';
+import { useMeasurement } from './useMeasurement';
+
+interface PitchCurveViewProps {
+  inputs: OnsetInput[];
+  sourceAudio: AudioData | null;
+  targetAudio: AudioData | null;
+  // Frames below this confidence are drawn as unpitched
+  minConfidence: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 120;
+// The note axis always spans at least an octave
+const MIN_RANGE = 12;
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const noteName = (midi: number) => `${NOTE_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+
+// Melody Transfer tracks with the same (default) options, so its render reuses these curves
+const PITCH_OPTIONS = {};
+
+interface PitchLaneProps {
+  input: OnsetInput;
+  audio: AudioData;
+  minConfidence: number;
+}
+
+function PitchLane({ input, audio, minConfidence }: PitchLaneProps): React.ReactNode {
+  const { result: curve } = useMeasurement(audio.buffer, 'pitch', PITCH_OPTIONS);
+
+  const plot = useMemo(() => {
+    if (!curve) return null;
+    const { frequencies, confidence } = curve;
+    const numFrames = frequencies.length;
+    const notes = Array.from(frequencies, (frequency, n) =>
+      frequency > 0 && confidence[n] >= minConfidence ? frequencyToMidi(frequency) : null
+    );
+    const pitched = notes.filter((note): note is number => note !== null);
+    let low = pitched.length > 0 ? Math.floor(pitched.reduce((a, b) => Math.min(a, b))) - 1 : 48;
+    let high = pitched.length > 0 ? Math.ceil(pitched.reduce((a, b) => Math.max(a, b))) + 1 : 72;
+    if (high - low < MIN_RANGE) {
+      const centre = Math.round((low + high) / 2);
+      low = centre - MIN_RANGE / 2;
+      high = centre + MIN_RANGE / 2;
+    }
+
+    const x = (n: number) => (numFrames > 1 ? n / (numFrames - 1) : 0) * WIDTH;
+    // Unpitched frames break the line
+    let pitchPath = '';
+    notes.forEach((note, n) => {
+      if (note === null) return;
+      const command = n > 0 && notes[n - 1] !== null ? 'L' : 'M';
+      pitchPath += `${command}${x(n)},${(1 - (note - low) / (high - low)) * HEIGHT} `;
+    });
+    let confidencePath = `M0,${HEIGHT} `;
+    confidence.forEach((value, n) => { confidencePath += `L${x(n)},${(1 - value) * HEIGHT} `; });
+    confidencePath += `L${WIDTH},${HEIGHT} Z`;
+
+    return { pitchPath, confidencePath, low, high, pitchedFrames: pitched.length / Math.max(1, numFrames) };
+  }, [curve, minConfidence]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-400">
+          {input === 'source' ? 'Source' : 'Target'}: {audio.name}
+        </span>
+        <span className="text-gray-500">{plot ? `${Math.round(plot.pitchedFrames * 100)}% pitched` : 'Tracking pitch…'}</span>
+      </div>
+      <div className="text-xs text-gray-500">{plot ? noteName(plot.high) : '\u00a0'}</div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`w-full h-28 bg-gray-800 rounded-md border border-gray-600${plot ? '' : ' animate-pulse'}`}
+      >
+        {plot && (
+          <>
+            <path d={plot.confidencePath} fill="#6b7280" fillOpacity={0.25} stroke="none" />
+            <path d={plot.pitchPath} fill="none" stroke="#06b6d4" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          </>
+        )}
+      </svg>
+      <div className="text-xs text-gray-500">{plot ? noteName(plot.low) : '\u00a0'}</div>
+    </div>
+  );
+}
+
+/**
+ * Draws the pitch a melody-driven transformation will follow: the detected note over time in
+ * cyan, with the tracker's confidence shaded behind it.
+ */
+export default function PitchCurveView({ inputs, sourceAudio, targetAudio, minConfidence }: PitchCurveViewProps): React.ReactNode {
+  const lanes = inputs
+    .map(input => ({ input, audio: input === 'source' ? sourceAudio : targetAudio }))
+    .filter((lane): lane is { input: OnsetInput; audio: AudioData } => lane.audio !== null);
+  if (lanes.length === 0) return null;
+
+  return (
+    <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
+      <h3 className="text-xl font-bold text-center mb-5 text-gray-300">Detected Pitch</h3>
+      <div className="space-y-4">
+        {lanes.map(({ input, audio }) => (
+          <PitchLane key={input} input={input} audio={audio} minConfidence={minConfidence} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -63,6 +63,8 @@ const AudioPlayer: React.FC<{ audioData: AudioData; label: string; icon: React.R
 };
 
 
+const formatLevel = (value: number, unit: string) => `${Number.isFinite(value) ? value.toFixed(1) : '-∞'} ${unit}`;
+
 export default function ResultPlayer({ original, modified, onOpenVisualizer }: ResultPlayerProps): React.ReactNode {
   const [playableModifiedAudio, setPlayableModifiedAudio] = useState<AudioData | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
@@ -110,6 +112,14 @@ export default function ResultPlayer({ original, modified, onOpenVisualizer }: R
             {original && <AudioPlayer audioData={original} label="Original Target" icon={<IconOriginal className="w-10 h-10 text-blue-400"/>} />}
             {playableModifiedAudio && <AudioPlayer audioData={playableModifiedAudio} label="Modified Result" icon={<IconModified className="w-10 h-10 text-purple-400"/>} />}
         </div>
+
+        {modified?.loudness && (
+          <p className="text-center text-sm font-mono text-gray-400">
+            Integrated <span className="text-cyan-400">{formatLevel(modified.loudness.integrated, 'LUFS')}</span>
+            {' · '}
+            True Peak <span className="text-cyan-400">{formatLevel(modified.loudness.truePeak, 'dBTP')}</span>
+          </p>
+        )}
         
         <div className="flex justify-center">
             <a
@@ -1,27 +1,100 @@
 import React from 'react';
-import type { TransformationParams, TransformationType } from '../types';
+import type { TransformationParams, TransformationType, ParamSchema, ParamConfig, ChoiceSchema, ChannelMode, LengthPolicy, NumericParamKey, ChoiceParamKey, Breakpoint } from '../types';
+import { CHANNEL_MODE_OPTIONS, LENGTH_POLICY_OPTIONS } from '../services/transformationRegistry';
+import BreakpointEditor from './BreakpointEditor';
+import ModulationMatrix from './ModulationMatrix';
 import { IconAdjustments } from './Icons';
 
 interface TransformationParametersProps {
   transformation: TransformationType;
   params: TransformationParams;
   onParamsChange: (newParams: Partial<TransformationParams>) => void;
-  configs: Record<string, any>;
+  configs: ParamSchema;
+  choices?: ChoiceSchema;
   title?: string;
+  // When set, shows the channel mapping selector with this as the default
+  defaultChannelMode?: ChannelMode;
+  // When set, shows the length policy selector with this as the default
+  defaultLengthPolicy?: LengthPolicy;
+  // Lets automatable params draw an automation lane or follow source features instead of
+  // holding one value
+  allowAutomation?: boolean;
 }
 
+interface OptionSelectProps<T extends string> {
+  id: string;
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}
+
+function OptionSelect<T extends string>({ id, label, value, options, onChange }: OptionSelectProps<T>): React.ReactNode {
+  return (
+    <div className="grid grid-cols-[auto_1fr] items-center gap-4">
+      <label htmlFor={id} className="text-sm font-medium text-gray-400">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value as T)}
+        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2"
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// The editor works in 0-1; lanes are stored in the param's own range
+const toLaneEditor = (lane: Breakpoint[], { min, max }: ParamConfig): Breakpoint[] =>
+  lane.map(point => ({ time: point.time, value: max > min ? (point.value - min) / (max - min) : 0 }));
+
+const fromLaneEditor = (points: Breakpoint[], { min, max }: ParamConfig): Breakpoint[] =>
+  points.map(point => ({ time: point.time, value: min + point.value * (max - min) }));
+
 export default function TransformationParameters({
   transformation,
   params,
   onParamsChange,
   configs,
+  choices = {},
   title,
+  defaultChannelMode,
+  defaultLengthPolicy,
+  allowAutomation = false,
 }: TransformationParametersProps): React.ReactNode {
 
-  const handleSliderChange = (paramKey: keyof TransformationParams, value: string) => {
+  const handleSliderChange = (paramKey: NumericParamKey, value: string) => {
     onParamsChange({ [paramKey]: parseFloat(value) });
   };
 
+  const handleChoiceChange = (paramKey: ChoiceParamKey, value: string) => {
+    // The value is one of the schema's options, which mirror the param's string union
+    onParamsChange({ [paramKey]: value } as Partial<TransformationParams>);
+  };
+
+  const handleLaneChange = (paramKey: NumericParamKey, lane: Breakpoint[] | undefined) => {
+    const { [paramKey]: _previous, ...others } = params.automation ?? {};
+    onParamsChange({ automation: lane ? { ...others, [paramKey]: lane } : others });
+  };
+
+  const toggleLane = (paramKey: NumericParamKey, value: number) => {
+    // A new lane starts flat at the slider's value
+    handleLaneChange(paramKey, params.automation?.[paramKey] ? undefined : [{ time: 0, value }, { time: 1, value }]);
+  };
+
+  const handleChannelModeChange = (mode: ChannelMode) => {
+    onParamsChange({ channelModes: { ...params.channelModes, [transformation]: mode } });
+  };
+
+  const handleLengthPolicyChange = (policy: LengthPolicy) => {
+    onParamsChange({ lengthPolicies: { ...params.lengthPolicies, [transformation]: policy } });
+  };
+
   return (
     <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6">
       <h3 className="text-xl font-bold text-center mb-5 text-gray-300 flex items-center justify-center gap-3">
@@ -29,35 +102,99 @@ export default function TransformationParameters({
         {title || 'Parameters'}
       </h3>
       <div className="space-y-4">
+        {defaultChannelMode && (
+          <OptionSelect
+            id={`${transformation}-channel-mode`}
+            label="Channel Mapping"
+            value={params.channelModes?.[transformation] ?? defaultChannelMode}
+            options={CHANNEL_MODE_OPTIONS}
+            onChange={handleChannelModeChange}
+          />
+        )}
+        {defaultLengthPolicy && (
+          <OptionSelect
+            id={`${transformation}-length-policy`}
+            label="Length Policy"
+            value={params.lengthPolicies?.[transformation] ?? defaultLengthPolicy}
+            options={LENGTH_POLICY_OPTIONS}
+            onChange={handleLengthPolicyChange}
+          />
+        )}
+        {Object.entries(choices).map(([paramKey, config]) => {
+          if (!config) return null;
+          const key = paramKey as ChoiceParamKey;
+          return (
+            <OptionSelect
+              key={key}
+              id={`${transformation}-${key}`}
+              label={config.label}
+              value={params[key] ?? config.defaultValue}
+              options={config.options}
+              onChange={(value) => handleChoiceChange(key, value)}
+            />
+          );
+        })}
         {Object.entries(configs).map(([paramKey, config]) => {
-          const key = paramKey as keyof TransformationParams;
+          if (!config) return null;
+          const key = paramKey as NumericParamKey;
           const value = params[key] ?? config.defaultValue;
+          const canAutomate = allowAutomation && config.automatable === true;
+          const lane = canAutomate ? params.automation?.[key] : undefined;
+          const format = (number: number) => `${Number(number).toFixed(config.step < 1 ? 2 : 0)}${config.unit || ''}`;
           return (
-            <div key={key} className="grid grid-cols-[auto_1fr_minmax(70px,auto)] items-center gap-4">
-              <label htmlFor={key} className="text-sm font-medium text-gray-400 col-span-1">
-                {config.label}
-              </label>
-              <input
-                type="range"
-                id={key}
-                name={key}
-                min={config.min}
-                max={config.max}
-                step={config.step}
-                value={value}
-                onChange={(e) => handleSliderChange(key, e.target.value)}
-                className="col-span-1 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer range-thumb:bg-cyan-500"
-                style={{
-                  '--thumb-color': '#06b6d4',
-                  '--track-color': '#4b5563' 
-                } as React.CSSProperties}
-              />
-              <span className="text-sm text-cyan-400 font-mono text-right">
-                {Number(value).toFixed(config.step < 1 ? 2 : 0)}{config.unit || ''}
-              </span>
+            <div key={key} className="space-y-2">
+              <div className={`grid ${canAutomate ? 'grid-cols-[auto_1fr_minmax(70px,auto)_auto]' : 'grid-cols-[auto_1fr_minmax(70px,auto)]'} items-center gap-4`}>
+                <label htmlFor={key} className="text-sm font-medium text-gray-400 col-span-1">
+                  {config.label}
+                </label>
+                <input
+                  type="range"
+                  id={key}
+                  name={key}
+                  min={config.min}
+                  max={config.max}
+                  step={config.step}
+                  value={value}
+                  disabled={lane !== undefined}
+                  onChange={(e) => handleSliderChange(key, e.target.value)}
+                  className="col-span-1 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer range-thumb:bg-cyan-500 disabled:opacity-40"
+                  style={{
+                    '--thumb-color': '#06b6d4',
+                    '--track-color': '#4b5563' 
+                  } as React.CSSProperties}
+                />
+                <span className="text-sm text-cyan-400 font-mono text-right">
+                  {lane ? 'auto' : format(value)}
+                </span>
+                {canAutomate && (
+                  <button
+                    onClick={() => toggleLane(key, value)}
+                    aria-pressed={lane !== undefined}
+                    aria-label={`Automate ${config.label}`}
+                    className={`px-2 py-1 text-xs rounded ${lane ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    Auto
+                  </button>
+                )}
+              </div>
+              {lane && (
+                <BreakpointEditor
+                  breakpoints={toLaneEditor(lane, config)}
+                  onChange={(points) => handleLaneChange(key, fromLaneEditor(points, config))}
+                  highLabel={format(config.max)}
+                  lowLabel={format(config.min)}
+                />
+              )}
             </div>
           );
         })}
+        {allowAutomation && (
+          <ModulationMatrix
+            routings={params.modulations ?? []}
+            onRoutingsChange={(modulations) => onParamsChange({ modulations })}
+            configs={configs}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import React from 'react';
 import { TransformationType } from '../types';
-import { IconAmplitude, IconSpectral, IconRhythmic, IconConvolution, IconTimeWarp, IconSurfaceTranslation, IconFourierMask, IconHarmonicImprint, IconInterferenceEchoes, IconFormantShifting, IconRingMod, IconTransformationMorph } from './Icons';
+import { TRANSFORMATIONS } from '../services/transformationRegistry';
+import * as Icons from './Icons';
 
 interface TransformationSelectorProps {
   selected: TransformationType;
@@ -8,88 +9,14 @@ interface TransformationSelectorProps {
   disabledItems?: TransformationType[];
 }
 
-const options = [
-  { 
-    id: TransformationType.AMPLITUDE, 
-    title: 'Amplitude Mapping',
-    description: 'Applies the volume envelope of the source to the target.',
-    icon: IconAmplitude
-  },
-  { 
-    id: TransformationType.SPECTRAL, 
-    title: 'Spectral Shaping',
-    description: 'Reshapes the frequency content of the target to match the source.',
-    icon: IconSpectral
-  },
-  {
-    id: TransformationType.RHYTHMIC,
-    title: 'Rhythmic Gating',
-    description: 'Triggers the target sound using the rhythmic attacks of the source.',
-    icon: IconRhythmic
-  },
-  {
-    id: TransformationType.CONVOLUTION,
-    title: 'Convolution Morphing',
-    description: 'Imprints the sonic character of the source onto the target.',
-    icon: IconConvolution
-  },
-  {
-    id: TransformationType.TIME_WARP,
-    title: 'Time Scale Warping',
-    description: "Matches the target's rhythm to the source's groove by time-stretching.",
-    icon: IconTimeWarp
-  },
-  {
-    id: TransformationType.SURFACE_TRANSLATE,
-    title: 'Surface Translation',
-    description: "Uses the source's waveform to re-sequence the target's sonic texture.",
-    icon: IconSurfaceTranslation
-  },
-  {
-    id: TransformationType.FOURIER_MASKING,
-    title: 'Fourier Masking',
-    description: "Combines source's frequency power with target's phase.",
-    icon: IconFourierMask
-  },
-  {
-    id: TransformationType.HARMONIC_IMPRINT,
-    title: 'Harmonic Imprinting',
-    description: "Resonates the target using the source's key frequencies.",
-    icon: IconHarmonicImprint
-  },
-  {
-    id: TransformationType.INTERFERENCE_ECHOES,
-    title: 'Interference Echoes',
-    description: "Source's rhythm triggers cascading echoes of the target.",
-    icon: IconInterferenceEchoes
-  },
-  {
-    id: TransformationType.FORMANT_SHIFTING,
-    title: 'Formant Shifting',
-    description: "Imprints the vocal character of the source onto the target.",
-    icon: IconFormantShifting
-  },
-  {
-    id: TransformationType.DYNAMIC_RING_MOD,
-    title: 'Dynamic Ring Modulation',
-    description: "Source's volume controls the frequency of a metallic modulator.",
-    icon: IconRingMod
-  },
-  {
-    id: TransformationType.TRANSFORMATION_MORPH,
-    title: 'Transformation Morphing',
-    description: 'Blends the result of two different transformations together.',
-    icon: IconTransformationMorph
-  }
-];
-
 export default function TransformationSelector({ selected, onSelect, disabledItems = [] }: TransformationSelectorProps): React.ReactNode {
   return (
     <div className="w-full max-w-5xl mx-auto">
       <h3 className="text-xl font-bold text-center mb-4 text-gray-300">Choose Transformation Method</h3>
       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
-        {options.map((option) => {
+        {TRANSFORMATIONS.map((option) => {
           const isDisabled = disabledItems.includes(option.id);
+          const OptionIcon = Icons[option.icon];
           return (
             <label
               key={option.id}
@@ -113,7 +40,7 @@ export default function TransformationSelector({ selected, onSelect, disabledIte
                 className="hidden"
                 disabled={isDisabled}
               />
-              <option.icon className={`w-10 h-10 mr-4 flex-shrink-0 ${selected === option.id && !isDisabled ? 'text-cyan-400' : 'text-gray-400'}`} />
+              <OptionIcon className={`w-10 h-10 mr-4 flex-shrink-0 ${selected === option.id && !isDisabled ? 'text-cyan-400' : 'text-gray-400'}`} />
               <div>
                 <span className="font-bold text-lg text-gray-100">{option.title}</span>
                 <p className="text-sm text-gray-400 hidden lg:block">{option.description}</p>
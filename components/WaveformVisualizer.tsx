@@ -0,0 +1,137 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import type { PcmBuffer } from '../types';
+import { getMonoData } from '../services/channelMapping';
+
+interface WaveformVisualizerProps {
+  buffer: PcmBuffer;
+  // Marker positions in seconds
+  markers?: number[];
+  // When set, markers can be added (click), moved (drag) and removed (right-click)
+  onMarkersChange?: (markers: number[]) => void;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 120;
+// How close (in canvas pixels) a pointer has to be to grab a marker
+const GRAB_DISTANCE = 6;
+
+export default function WaveformVisualizer({ buffer, markers = [], onMarkersChange }: WaveformVisualizerProps): React.ReactNode {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const duration = buffer.length / buffer.sampleRate;
+
+  // Min/max per canvas column, computed once per buffer
+  const peaks = useMemo(() => {
+    const data = getMonoData(buffer);
+    const columns = new Float32Array(CANVAS_WIDTH * 2);
+    const samplesPerColumn = data.length / CANVAS_WIDTH;
+    for (let x = 0; x < CANVAS_WIDTH; x++) {
+      let min = 0;
+      let max = 0;
+      const end = Math.min(data.length, Math.floor((x + 1) * samplesPerColumn));
+      for (let i = Math.floor(x * samplesPerColumn); i < end; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+      columns[2 * x] = min;
+      columns[2 * x + 1] = max;
+    }
+    return columns;
+  }, [buffer]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = '#1f2937'; // bg-gray-800
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const mid = CANVAS_HEIGHT / 2;
+    ctx.fillStyle = '#06b6d4'; // cyan-500
+    for (let x = 0; x < CANVAS_WIDTH; x++) {
+      const top = mid - peaks[2 * x + 1] * mid;
+      const bottom = mid - peaks[2 * x] * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    ctx.strokeStyle = '#c084fc'; // purple-400
+    ctx.lineWidth = 2;
+    markers.forEach((time, index) => {
+      const x = (time / duration) * CANVAS_WIDTH;
+      ctx.globalAlpha = index === dragIndex ? 1 : 0.8;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, CANVAS_HEIGHT);
+      ctx.stroke();
+    });
+    ctx.globalAlpha = 1;
+  }, [peaks, markers, duration, dragIndex]);
+
+  // Pointer position in canvas pixels, regardless of how the canvas is scaled by CSS
+  const toCanvasX = (event: React.PointerEvent | React.MouseEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return rect.width > 0 ? ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH : 0;
+  };
+  const toTime = (x: number) => Math.min(duration, Math.max(0, (x / CANVAS_WIDTH) * duration));
+  const findMarker = (x: number) => {
+    let closest = -1;
+    let closestDistance = GRAB_DISTANCE;
+    markers.forEach((time, index) => {
+      const distance = Math.abs((time / duration) * CANVAS_WIDTH - x);
+      if (distance <= closestDistance) {
+        closest = index;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onMarkersChange || event.button !== 0) return;
+    const x = toCanvasX(event);
+    const index = findMarker(x);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    if (index >= 0) {
+      setDragIndex(index);
+      return;
+    }
+    const next = [...markers, toTime(x)].sort((a, b) => a - b);
+    setDragIndex(next.indexOf(toTime(x)));
+    onMarkersChange(next);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onMarkersChange || dragIndex === null) return;
+    const next = [...markers];
+    next[dragIndex] = toTime(toCanvasX(event));
+    onMarkersChange(next);
+  };
+
+  const handlePointerUp = () => {
+    if (!onMarkersChange || dragIndex === null) return;
+    setDragIndex(null);
+    onMarkersChange([...markers].sort((a, b) => a - b));
+  };
+
+  const handleContextMenu = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onMarkersChange) return;
+    const index = findMarker(toCanvasX(event));
+    if (index < 0) return;
+    event.preventDefault();
+    onMarkersChange(markers.filter((_, i) => i !== index));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CANVAS_WIDTH}
+      height={CANVAS_HEIGHT}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onContextMenu={handleContextMenu}
+      className={`w-full h-24 bg-gray-800 rounded-md border border-gray-600 ${onMarkersChange ? 'cursor-crosshair' : ''}`}
+    ></canvas>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import type { TransformationParams, XYCorner } from '../types';
+import { TransformationType } from '../types';
+import { CHAINABLE_TRANSFORMATIONS, getDefaultParams, getTransformation } from '../services/transformationRegistry';
+import { getXYWeights } from '../services/audioProcessor';
+import TransformationParameters from './TransformationParameters';
+
+interface XYMorphPadProps {
+  corners: XYCorner[];
+  onCornersChange: (corners: XYCorner[]) => void;
+  x: number;
+  y: number;
+  onPositionChange: (x: number, y: number) => void;
+  // Called when the puck is grabbed and let go
+  onDraggingChange?: (dragging: boolean) => void;
+}
+
+// Where each corner sits on the pad, as fractions of its width and height
+const CORNER_POSITIONS: Record<number, { x: number; y: number }[]> = {
+  3: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0.5, y: 1 }],
+  4: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }],
+};
+
+const EXTRA_CORNER = TransformationType.FOURIER_MASKING;
+
+export function createXYCorners(): XYCorner[] {
+  return [
+    TransformationType.AMPLITUDE,
+    TransformationType.SPECTRAL,
+    TransformationType.RHYTHMIC,
+    EXTRA_CORNER,
+  ].map(transformation => ({ transformation, params: getDefaultParams() }));
+}
+
+export default function XYMorphPad({ corners, onCornersChange, x, y, onPositionChange, onDraggingChange }: XYMorphPadProps): React.ReactNode {
+  const padRef = useRef<HTMLDivElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [editingCorner, setEditingCorner] = useState(0);
+  const weights = getXYWeights(corners.length, x, y);
+  const positions = CORNER_POSITIONS[corners.length];
+
+  const setDragging = (dragging: boolean) => {
+    setIsDragging(dragging);
+    onDraggingChange?.(dragging);
+  };
+
+  const moveTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = padRef.current!.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+    onPositionChange(clamp((event.clientX - rect.left) / rect.width), clamp((event.clientY - rect.top) / rect.height));
+  };
+
+  const updateCorner = (index: number, changes: Partial<XYCorner>) => {
+    onCornersChange(corners.map((corner, i) => (i === index ? { ...corner, ...changes } : corner)));
+  };
+
+  const setCornerCount = (count: number) => {
+    if (count === corners.length) return;
+    onCornersChange(count === 3
+      ? corners.slice(0, 3)
+      : [...corners, { transformation: EXTRA_CORNER, params: getDefaultParams() }]);
+    setEditingCorner(0);
+  };
+
+  const editing = corners[editingCorner];
+  const editingDefinition = getTransformation(editing.transformation);
+
+  return (
+    <div className="p-6 bg-gray-900/50 border border-gray-700 rounded-lg mt-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-gray-300">XY Morph Pad</h3>
+        <div className="flex gap-2 text-sm">
+          {[3, 4].map(count => (
+            <button
+              key={count}
+              onClick={() => setCornerCount(count)}
+              className={`px-3 py-1 rounded-lg ${corners.length === count ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {count} corners
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+        <div
+          ref={padRef}
+          role="slider"
+          aria-label="XY morph position"
+          aria-valuetext={`x ${x}, y ${y}`}
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setDragging(true); moveTo(e); }}
+          onPointerMove={(e) => isDragging && moveTo(e)}
+          onPointerUp={() => setDragging(false)}
+          onPointerCancel={() => setDragging(false)}
+          className="relative aspect-square w-full bg-gray-800 border border-gray-600 rounded-md cursor-crosshair touch-none"
+        >
+          {positions.map((position, index) => (
+            <span
+              key={index}
+              className="absolute -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full bg-purple-400"
+              style={{ left: `${position.x * 100}%`, top: `${position.y * 100}%`, opacity: 0.3 + 0.7 * weights[index] }}
+            />
+          ))}
+          <span
+            className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-cyan-400 border-2 border-white shadow-lg pointer-events-none"
+            style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+          />
+        </div>
+
+        <div className="space-y-3">
+          {corners.map((corner, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <button
+                onClick={() => setEditingCorner(index)}
+                className={`w-8 text-sm font-mono ${index === editingCorner ? 'text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}
+                aria-label={`Edit corner ${index + 1} params`}
+              >
+                {index + 1}
+              </button>
+              <select
+                aria-label={`Corner ${index + 1} transformation`}
+                value={corner.transformation}
+                onChange={(e) => updateCorner(index, { transformation: e.target.value as TransformationType })}
+                className="flex-1 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 p-2"
+              >
+                {CHAINABLE_TRANSFORMATIONS.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+              <span className="w-12 text-right text-sm font-mono text-cyan-400">{Math.round(weights[index] * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <TransformationParameters
+        title={`Corner ${editingCorner + 1}: ${editing.transformation} Params`}
+        transformation={editing.transformation}
+        params={editing.params}
+        onParamsChange={(params: Partial<TransformationParams>) => updateCorner(editingCorner, { params: { ...editing.params, ...params } })}
+        configs={editingDefinition.params}
+        choices={editingDefinition.choices}
+        defaultChannelMode={editingDefinition.channelMode}
+        defaultLengthPolicy={editingDefinition.lengthPolicy}
+        allowAutomation
+      />
+    </div>
+  );
+}
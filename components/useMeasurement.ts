@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { measureOffThread } from '../services/transformEngine';
+import type { MeasurementKind, MeasurementOptions, MeasurementResult } from '../services/measurements';
+
+/**
+ * Measures a buffer off the main thread. While a new measurement is pending, `result` keeps
+ * the last one for the same buffer (so markers don't flicker while a slider moves) and
+ * `pending` is true.
+ */
+export function useMeasurement<K extends MeasurementKind>(
+  buffer: AudioBuffer | null,
+  kind: K,
+  options: MeasurementOptions<K>
+): { result: MeasurementResult<K> | null; pending: boolean } {
+  // Options are compared by value, so callers can pass a fresh object on every render
+  const key = JSON.stringify(options);
+  const [measured, setMeasured] = useState<{ buffer: AudioBuffer; key: string; result: MeasurementResult<K> } | null>(null);
+
+  useEffect(() => {
+    if (!buffer) return;
+    let current = true;
+    measureOffThread(buffer, kind, JSON.parse(key) as MeasurementOptions<K>).then(
+      (result) => {
+        if (current) setMeasured({ buffer, key, result });
+      },
+      (error) => console.error(`Measuring ${kind} failed:`, error)
+    );
+    return () => {
+      current = false;
+    };
+  }, [buffer, kind, key]);
+
+  const result = measured && measured.buffer === buffer ? measured.result : null;
+  return { result, pending: buffer !== null && (result === null || measured!.key !== key) };
+}
@@ -13,10 +13,28 @@ class EnvelopeFollower {
     }
 }
 
+// Per-sample live kernels, keyed by the `live.kernel` name declared in the transformation registry
+// (services/transformationRegistry.ts). Each receives the processor, the source (mic) sample and
+// the target sample, and returns the processed sample.
+const KERNELS = {
+    amplitude(processor, sourceSample, targetSample) {
+        const envelope = processor.envelopeFollower.process(sourceSample);
+        return targetSample * envelope * 5.0; // Boost gain
+    },
+    gate(processor, sourceSample, targetSample) {
+        const envelope = processor.envelopeFollower.process(sourceSample);
+        const gate = envelope > processor.gateThreshold ? 1.0 : 0.0;
+        return targetSample * gate;
+    },
+};
+
+// Unknown kernels just pass the target audio through
+const passThrough = (processor, sourceSample, targetSample) => targetSample;
+
 class TransformProcessor extends AudioWorkletProcessor {
     constructor(options) {
         super(options);
-        this.transformation = options.processorOptions.transformation;
+        this.kernel = KERNELS[options.processorOptions.kernel] || passThrough;
         this.params = options.processorOptions.params;
         
         this._initialize();
@@ -58,29 +76,7 @@ class TransformProcessor extends AudioWorkletProcessor {
             for (let i = 0; i < outputChannel.length; i++) {
                 const sourceSample = sourceChannel[i] || 0;
                 const targetSample = targetChannel[i] || 0;
-                let processedSample = targetSample;
-
-                switch(this.transformation) {
-                    case 'Amplitude Mapping': {
-                        const envelope = this.envelopeFollower.process(sourceSample);
-                        processedSample = targetSample * envelope * 5.0; // Boost gain
-                        break;
-                    }
-                    
-                    case 'Rhythmic Gating': {
-                        const envelope = this.envelopeFollower.process(sourceSample);
-                        const gate = envelope > this.gateThreshold ? 1.0 : 0.0;
-                        processedSample = targetSample * gate;
-                        break;
-                    }
-                    
-                    // For disabled transformations, just pass through target audio
-                    case 'Spectral Shaping':
-                    case 'Convolution Morphing':
-                    default:
-                        processedSample = targetSample;
-                        break;
-                }
+                const processedSample = this.kernel(this, sourceSample, targetSample);
                 outputChannel[i] = processedSample;
             }
         }
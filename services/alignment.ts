@@ -0,0 +1,93 @@
+import type { LengthPolicy, PcmBuffer } from '../types';
+import { createPcmBuffer } from './pcmBuffer';
+
+export interface AlignedPair {
+    source: PcmBuffer;
+    target: PcmBuffer;
+}
+
+/**
+ * Makes the source and target the same length before a transformation runs. Both buffers must
+ * already share a sample rate.
+ *
+ * - loop: the source repeats (or is cut) to cover the target.
+ * - stretch: the source is resampled in time to span exactly the target's length.
+ * - pad: the shorter buffer is padded with silence to the longer one's length.
+ * - truncate: both are cut to the shorter one's length.
+ */
+export async function applyLengthPolicy(
+    policy: LengthPolicy,
+    source: PcmBuffer,
+    target: PcmBuffer,
+    stretch: (buffer: PcmBuffer, length: number) => Promise<PcmBuffer>
+): Promise<AlignedPair> {
+    if (source.length === target.length) return { source, target };
+
+    switch (policy) {
+        case 'loop':
+            return { source: loopToLength(source, target.length), target };
+        case 'stretch':
+            return { source: await stretch(source, target.length), target };
+        case 'pad': {
+            const length = Math.max(source.length, target.length);
+            return { source: fitToLength(source, length), target: fitToLength(target, length) };
+        }
+        case 'truncate': {
+            const length = Math.min(source.length, target.length);
+            return { source: fitToLength(source, length), target: fitToLength(target, length) };
+        }
+        default:
+            throw new Error(`Unknown length policy: ${policy}`);
+    }
+}
+
+/**
+ * Cuts or zero-pads every channel to `length` samples.
+ */
+function fitToLength(buffer: PcmBuffer, length: number): PcmBuffer {
+    if (buffer.length === length) return buffer;
+
+    const result = createPcmBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        result.getChannelData(c).set(data.length > length ? data.subarray(0, length) : data);
+    }
+    return result;
+}
+
+function loopToLength(buffer: PcmBuffer, length: number): PcmBuffer {
+    if (buffer.length === 0) return createPcmBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+
+    const result = createPcmBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        const output = result.getChannelData(c);
+        for (let offset = 0; offset < length; offset += data.length) {
+            output.set(data.subarray(0, Math.min(data.length, length - offset)), offset);
+        }
+    }
+    return result;
+}
+
+/**
+ * Moves onset markers (in seconds) along with a source that `applyLengthPolicy` resized from
+ * `duration` to `newDuration`, so edited markers still line up with the audio.
+ */
+export function fitOnsetsToLength(policy: LengthPolicy, times: number[], duration: number, newDuration: number): number[] {
+    switch (policy) {
+        case 'loop': {
+            if (duration <= 0) return [];
+            const looped: number[] = [];
+            for (let offset = 0; offset < newDuration; offset += duration) {
+                for (const time of times) {
+                    if (time + offset < newDuration) looped.push(time + offset);
+                }
+            }
+            return looped;
+        }
+        case 'stretch':
+            return duration > 0 ? times.map(time => time * newDuration / duration) : times;
+        default:
+            return times.filter(time => time < newDuration);
+    }
+}
@@ -1,105 +1,90 @@
-import { FFT_SIZE, BAND_FREQUENCIES, EPSILON } from '../constants';
-import { TransformationType } from '../types';
-import type { TransformationParams } from '../types';
+import { FFT_SIZE, SPECTRAL_BANDS, BAND_FREQUENCIES, EPSILON } from '../constants';
+import type { TransformationParams, PcmBuffer, RenderHooks } from '../types';
 import { bufferToWav } from './wavEncoder';
+import { createPcmBuffer, createAbortError, throwIfAborted, toAudioBuffer, scaleProgress } from './pcmBuffer';
+import { getMonoData, downmixToMono } from './channelMapping';
+import { getFFT } from './fft';
+import { cepstralEnvelope } from './cepstrum';
+import { createRandom, scheduleGrains, renderGrains } from './granular';
+import { morphMagnitudes } from './spectralMorph';
+import { trackFormants, FORMANT_HOP_SECONDS } from './formantTracker';
+import type { FormantTracks } from './formantTracker';
+import { trackHarmonics } from './harmonicTracker';
+import type { HarmonicTracks } from './harmonicTracker';
+import { trackPitch } from './pitchTracker';
+import type { PitchCurve } from './pitchTracker';
+import { melodyShift } from './melodyTransfer';
+import { shiftPitch } from './pitchShifter';
+import { modulatorSample, channelDetune, followPitch } from './ringModulator';
+import { sliceAtOnsets, orderSlices, renderSlices } from './slicer';
+import { sidechainGains } from './dynamics';
+import { averageSpectrum, matchingCurve, applyMatchingEq } from './eqMatch';
+import { shapeImpulseResponse, applyTailPolicy } from './impulseResponse';
+import { resolveOnsets } from './onsetDetector';
+import { renderControlCurve, renderParam, scheduleParam, getAutomationLane, DEFAULT_BREAKPOINTS } from './automation';
+import { estimateTempo, noteDivisionSeconds, echoTailSeconds } from './tempo';
+import { stretchBuffer } from './timeStretch';
+import type { TimeMapSegment } from './timeStretch';
 
 // --- FFT Implementation ---
-// A self-contained, simple Radix-2 FFT implementation.
-const fftCache = new Map();
-export function getFFT(size: number) {
-    if (size <= 0 || (size & (size - 1)) !== 0) {
-        throw new Error('FFT size must be a power of two');
-    }
-    if (fftCache.has(size)) return fftCache.get(size);
-    
-    const bitReverse = new Uint32Array(size);
-    const log2size = Math.log2(size);
-    for (let i = 0; i < size; i++) {
-        let p = 0;
-        for (let j = 0; j < log2size; j++) {
-            if ((i >> j) & 1) {
-                p |= 1 << (log2size - 1 - j);
-            }
-        }
-        bitReverse[i] = p;
-    }
-
-    const sinTable = new Float32Array(size);
-    const cosTable = new Float32Array(size);
-    for (let i = 0; i < size; i++) {
-        sinTable[i] = Math.sin(Math.PI * i / size);
-        cosTable[i] = Math.cos(Math.PI * i / size);
-    }
-    
-    const fft = (real: Float32Array, imag: Float32Array, invert: boolean) => {
-        // Bit-reversal permutation
-        for (let i = 0; i < size; i++) {
-            const j = bitReverse[i];
-            if (j > i) {
-                [real[i], real[j]] = [real[j], real[i]];
-                [imag[i], imag[j]] = [imag[j], imag[i]];
-            }
-        }
-
-        // Cooley-Tukey FFT
-        for (let len = 2; len <= size; len <<= 1) {
-            const halfLen = len >> 1;
-            const tableStep = size / len;
-            for (let i = 0; i < size; i += len) {
-                for (let j = 0; j < halfLen; j++) {
-                    const k = j * tableStep;
-                    const t_re = cosTable[k];
-                    const t_im = (invert ? -1 : 1) * sinTable[k];
-                    const p_re = real[i + j + halfLen];
-                    const p_im = imag[i + j + halfLen];
-                    const u_re = real[i + j];
-                    const u_im = imag[i + j];
-                    
-                    real[i + j] = u_re + p_re * t_re - p_im * t_im;
-                    imag[i + j] = u_im + p_re * t_im + p_im * t_re;
-                    real[i + j + halfLen] = u_re - (p_re * t_re - p_im * t_im);
-                    imag[i + j + halfLen] = u_im - (p_re * t_im + p_im * t_re);
-                }
-            }
-        }
-        if(invert){
-            for(let i=0; i<size; i++){
-                real[i] /= size;
-                imag[i] /= size;
-            }
-        }
-    };
-    fftCache.set(size, fft);
-    return fft;
-}
+// This has been moved to services/fft.ts
+export { getFFT };
 
 
 // --- Core Transformation Logic ---
 
+// How many samples the sample-domain loops process between progress/cancellation checks.
+const PROGRESS_INTERVAL = 1 << 16;
+// Longest tail Interference Echoes renders, however slowly its repeats decay
+const MAX_ECHO_TAIL_SECONDS = 120;
+// Sample-domain transformations take and return PcmBuffers so they can also run in the
+// transformation worker. The ones built on an OfflineAudioContext need real AudioBuffers
+// and stay on the main thread.
+
 /**
  * Applies the amplitude envelope of a source buffer to a target buffer.
  */
-export async function applyAmplitudeMapping(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer): Promise<AudioBuffer> {
-    const sourceEnvelope = await getAmplitudeEnvelope(sourceBuffer);
+export async function applyAmplitudeMapping(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const sourceEnvelope = getAmplitudeEnvelope(sourceBuffer);
+    hooks.onProgress?.(0.5);
+    throwIfAborted(hooks.signal);
     return applyEnvelopeToBuffer(sourceEnvelope, targetBuffer);
 }
 
 /**
  * Applies a "spiky" rhythmic envelope from the source to the target, creating a gating effect.
+ * The gate opens at each source onset whose envelope clears the threshold and closes once the
+ * envelope falls back below it.
  */
-export async function applyRhythmicGating(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
+export async function applyRhythmicGating(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
     const { gateThreshold = 0.2 } = params;
-    const sourceEnvelope = await getAmplitudeEnvelope(sourceBuffer, 0.998); // Use slower smoothing for better gating
-    const gateBuffer = new OfflineAudioContext(sourceEnvelope.numberOfChannels, sourceEnvelope.length, sourceEnvelope.sampleRate).createBuffer(sourceEnvelope.numberOfChannels, sourceEnvelope.length, sourceEnvelope.sampleRate);
-    
+    const onsets = resolveOnsets(sourceBuffer, params.sourceOnsets, params);
+    hooks.onProgress?.(0.3);
+    throwIfAborted(hooks.signal);
+    const sourceEnvelope = getAmplitudeEnvelope(sourceBuffer, 0.998); // Use slower smoothing for better gating
+    hooks.onProgress?.(0.6);
+    throwIfAborted(hooks.signal);
+    const gateBuffer = createPcmBuffer(sourceEnvelope.numberOfChannels, sourceEnvelope.length, sourceEnvelope.sampleRate);
+    // How long after an onset the envelope has to reach the threshold
+    const attackWindow = Math.round(0.05 * sourceEnvelope.sampleRate);
+    const threshold = renderParam(params, 'gateThreshold', gateThreshold, sourceEnvelope.length);
+
     for (let channel = 0; channel < sourceEnvelope.numberOfChannels; channel++) {
         const envelopeData = sourceEnvelope.getChannelData(channel);
         const gateData = gateBuffer.getChannelData(channel);
 
-        for (let i = 0; i < envelopeData.length; i++) {
-            // A simple hard gate based on the threshold
-            gateData[i] = envelopeData[i] > gateThreshold ? 1.0 : 0.0;
-        }
+        onsets.forEach((onset, index) => {
+            const segmentEnd = index + 1 < onsets.length ? onsets[index + 1] : envelopeData.length;
+            let peak = onset;
+            for (let i = onset; i < Math.min(onset + attackWindow, segmentEnd); i++) {
+                if (envelopeData[i] > envelopeData[peak]) peak = i;
+            }
+            if (envelopeData[peak] <= threshold[peak]) return;
+
+            let close = peak;
+            while (close < segmentEnd && envelopeData[close] > threshold[close]) close++;
+            gateData.fill(1.0, onset, close);
+        });
     }
     return applyEnvelopeToBuffer(gateBuffer, targetBuffer);
 }
@@ -107,150 +92,221 @@ export async function applyRhythmicGating(sourceBuffer: AudioBuffer, targetBuffe
 
 /**
  * Dynamically reshapes the spectral content of the target buffer to match the source buffer
- * using a vocoder-style filter bank approach.
+ * using a channel vocoder: each band of the target follows the envelope of the same band in the source.
  */
-export async function applySpectralShaping(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
-    const { spectralMix = 1.0 } = params;
-    const offlineCtx = new OfflineAudioContext(targetBuffer.numberOfChannels, targetBuffer.length, targetBuffer.sampleRate);
-    
-    const sourceNode = offlineCtx.createBufferSource();
-    sourceNode.buffer = sourceBuffer;
-    
-    const targetNode = offlineCtx.createBufferSource();
-    targetNode.buffer = targetBuffer;
-    
-    const wetGain = offlineCtx.createGain();
-    wetGain.gain.value = spectralMix;
-    
-    const dryGain = offlineCtx.createGain();
-    dryGain.gain.value = 1.0 - spectralMix;
+export async function applySpectralShaping(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const {
+        spectralMix = 1.0,
+        spectralBands = SPECTRAL_BANDS,
+        spectralBandQ = 5,
+        spectralAttack = 3,
+        spectralRelease = 250,
+    } = params;
+    const sampleRate = targetBuffer.sampleRate;
+    const resultBuffer = createPcmBuffer(targetBuffer.numberOfChannels, targetBuffer.length, sampleRate);
+
+    // Keep bands safely below Nyquist so the filter design stays stable
+    const bands = getBandFrequencies(spectralBands).filter(freq => freq < sampleRate * 0.45);
+    const attackCoef = Math.exp(-1 / (sampleRate * spectralAttack / 1000));
+    const releaseCoef = Math.exp(-1 / (sampleRate * spectralRelease / 1000));
+    // Caps how far a quiet target band can be pushed up to meet a loud source band (~24dB)
+    const maxBandGain = 16;
+    const mix = renderParam(params, 'spectralMix', spectralMix, targetBuffer.length);
 
-    // Dry path
-    targetNode.connect(dryGain);
-    dryGain.connect(offlineCtx.destination);
-    
-    // Wet path
-    const wetBus = offlineCtx.createGain();
-    targetNode.connect(wetBus);
-    
-    BAND_FREQUENCIES.forEach((freq) => {
-        const sourceFilter = offlineCtx.createBiquadFilter();
-        sourceFilter.type = 'bandpass';
-        sourceFilter.frequency.value = freq;
-        sourceFilter.Q.value = 5;
-
-        const sourceEnvelopeFollower = createEnvelopeFollower(offlineCtx);
-
-        const targetFilter = offlineCtx.createBiquadFilter();
-        targetFilter.type = 'bandpass';
-        targetFilter.frequency.value = freq;
-        targetFilter.Q.value = 5;
-
-        const targetGain = offlineCtx.createGain();
-
-        sourceNode.connect(sourceFilter);
-        sourceFilter.connect(sourceEnvelopeFollower);
-        wetBus.connect(targetFilter);
-        targetFilter.connect(targetGain);
-        sourceEnvelopeFollower.connect(targetGain.gain);
-        targetGain.connect(wetGain);
-    });
-    wetGain.connect(offlineCtx.destination);
+    for (let channel = 0; channel < targetBuffer.numberOfChannels; channel++) {
+        const targetData = targetBuffer.getChannelData(channel);
+        const sourceData = sourceBuffer.getChannelData(channel % sourceBuffer.numberOfChannels);
+        const resultData = resultBuffer.getChannelData(channel);
+        const wet = new Float32Array(targetData.length);
+
+        for (let b = 0; b < bands.length; b++) {
+            throwIfAborted(hooks.signal);
+            hooks.onProgress?.((channel * bands.length + b) / (targetBuffer.numberOfChannels * bands.length));
+            const coeffs = designBandpass(bands[b], spectralBandQ, sampleRate);
+            const sourceBand = applyBiquad(sourceData, coeffs, targetData.length);
+            const targetBand = applyBiquad(targetData, coeffs, targetData.length);
+            const sourceEnv = followEnvelope(sourceBand, attackCoef, releaseCoef);
+            const targetEnv = followEnvelope(targetBand, attackCoef, releaseCoef);
+
+            for (let i = 0; i < wet.length; i++) {
+                const gain = Math.min(maxBandGain, sourceEnv[i] / (targetEnv[i] + EPSILON));
+                wet[i] += targetBand[i] * gain;
+            }
+        }
 
-    sourceNode.start(0);
-    targetNode.start(0);
-    return await offlineCtx.startRendering();
+        for (let i = 0; i < resultData.length; i++) {
+            resultData[i] = wet[i] * mix[i] + targetData[i] * (1.0 - mix[i]);
+        }
+    }
+
+    return resultBuffer;
+}
+
+/**
+ * Cuts and shapes the impulse response for Convolution. This is the sample-heavy part of the
+ * render, so the engine runs it in the worker ahead of the audio graph.
+ */
+export function analyzeConvolution(sourceBuffer: PcmBuffer, params: TransformationParams): PcmBuffer {
+    const { irStart = 0, irLength = 10, irFade = 0.01, irStretch = 1, irDirection = 'forward' } = params;
+    return shapeImpulseResponse(sourceBuffer, {
+        start: irStart,
+        length: irLength,
+        fade: irFade,
+        reverse: irDirection === 'reverse',
+        stretch: irStretch,
+    });
 }
 
 /**
- * Convolves the target with the source, using the source as an impulse response.
+ * Convolves the target with the source, using the source as an impulse response. The IR is
+ * the chosen window of the source (optionally reversed, stretched and faded out); the wet
+ * signal can be pre-delayed and blended with the dry target, and the ringing tail is kept,
+ * cut once it has decayed, or cut at the end of the target.
  */
-export async function applyConvolution(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer): Promise<AudioBuffer> {
-    const newLength = sourceBuffer.length + targetBuffer.length - 1;
-    const offlineCtx = new OfflineAudioContext(targetBuffer.numberOfChannels, newLength, targetBuffer.sampleRate);
+export async function applyConvolution(
+    sourceBuffer: PcmBuffer,
+    targetBuffer: PcmBuffer,
+    params: TransformationParams,
+    hooks: RenderHooks = {},
+    impulseResponse: PcmBuffer = analyzeConvolution(sourceBuffer, params)
+): Promise<PcmBuffer> {
+    const { convolutionMix = 1, convolutionPreDelay = 0, convolutionTail = 'decay' } = params;
+    const sampleRate = targetBuffer.sampleRate;
+    const preDelay = convolutionPreDelay / 1000;
+    const duration = targetBuffer.length / sampleRate;
+    const newLength = Math.round(preDelay * sampleRate) + impulseResponse.length + targetBuffer.length - 1;
+    const offlineCtx = new OfflineAudioContext(targetBuffer.numberOfChannels, newLength, sampleRate);
     const targetSource = offlineCtx.createBufferSource();
-    targetSource.buffer = targetBuffer;
+    targetSource.buffer = toAudioBuffer(targetBuffer);
+
+    const dryGain = offlineCtx.createGain();
+    scheduleParam(dryGain.gain, params, 'convolutionMix', convolutionMix, duration, mix => 1.0 - mix);
+    targetSource.connect(dryGain);
+    dryGain.connect(offlineCtx.destination);
+
     const convolver = offlineCtx.createConvolver();
     convolver.normalize = true;
-    convolver.buffer = sourceBuffer;
+    convolver.buffer = toAudioBuffer(impulseResponse);
+    const delay = offlineCtx.createDelay(Math.max(preDelay, 0.001));
+    delay.delayTime.value = preDelay;
+    const wetGain = offlineCtx.createGain();
+    scheduleParam(wetGain.gain, params, 'convolutionMix', convolutionMix, duration);
     targetSource.connect(convolver);
-    convolver.connect(offlineCtx.destination);
+    convolver.connect(delay);
+    delay.connect(wetGain);
+    wetGain.connect(offlineCtx.destination);
+
     targetSource.start(0);
-    const renderedBuffer = await offlineCtx.startRendering();
-    return trimSilence(renderedBuffer);
+    const renderedBuffer = await renderOffline(offlineCtx, hooks);
+    return applyTailPolicy(renderedBuffer, convolutionTail, targetBuffer.length);
+}
+
+export interface TimeWarpPlan {
+    segments: TimeMapSegment[];
+    outputLength: number;
 }
 
 /**
- * Stretches and compresses segments of the target buffer to match the rhythm of the source.
+ * Pairs the target's segments between transients with the source's inter-onset intervals.
+ * Returns null when there are not enough transients to warp anything.
  */
-export async function applyTimeScaleWarping(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
-    const { transientSensitivity = 1.8 } = params;
-    const sourceTransients = detectTransients(sourceBuffer, transientSensitivity);
-    const targetTransients = detectTransients(targetBuffer, transientSensitivity);
-    
-    let totalDuration = 0;
+export function analyzeTimeScaleWarping(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams): TimeWarpPlan | null {
+    // Segment boundaries: the onsets plus both ends of each buffer
+    const withEnds = (onsets: number[], length: number) => [0, ...onsets.filter(i => i > 0 && i < length - 1), length - 1];
+    const sourceTransients = withEnds(resolveOnsets(sourceBuffer, params.sourceOnsets, params), sourceBuffer.length);
+    const targetTransients = withEnds(resolveOnsets(targetBuffer, params.targetOnsets, params), targetBuffer.length);
+
     const numSegments = Math.min(sourceTransients.length, targetTransients.length) - 1;
-    if (numSegments <= 0) return targetBuffer; // Not enough transients to process
+    if (numSegments <= 0) return null;
 
+    const minSegmentLength = 0.01 * targetBuffer.sampleRate;
+    const segments: TimeMapSegment[] = [];
+    let outputLength = 0;
     for (let i = 0; i < numSegments; i++) {
-        const sourceDuration = (sourceTransients[i + 1] - sourceTransients[i]) / sourceBuffer.sampleRate;
-        totalDuration += sourceDuration;
+        const sourceLength = sourceTransients[i + 1] - sourceTransients[i];
+        const targetLength = targetTransients[i + 1] - targetTransients[i];
+        if (targetLength < minSegmentLength || sourceLength < minSegmentLength) continue;
+
+        segments.push({
+            inputStart: targetTransients[i],
+            inputEnd: targetTransients[i + 1],
+            outputStart: outputLength,
+            outputEnd: outputLength + sourceLength,
+        });
+        outputLength += sourceLength;
     }
-    
-    const offlineCtx = new OfflineAudioContext(targetBuffer.numberOfChannels, Math.ceil(totalDuration * targetBuffer.sampleRate), targetBuffer.sampleRate);
-    
-    let currentTime = 0;
-    for (let i = 0; i < numSegments; i++) {
-        const sourceSegmentStart = sourceTransients[i];
-        const sourceSegmentEnd = sourceTransients[i + 1];
-        const sourceDuration = (sourceSegmentEnd - sourceSegmentStart) / sourceBuffer.sampleRate;
-
-        const targetSegmentStart = targetTransients[i];
-        const targetSegmentEnd = targetTransients[i + 1];
-        const targetDuration = (targetSegmentEnd - targetSegmentStart) / targetBuffer.sampleRate;
+    return segments.length > 0 ? { segments, outputLength } : null;
+}
 
-        if (targetDuration < 0.01 || sourceDuration < 0.01) continue;
+/**
+ * Stretches and compresses segments of the target buffer to match the rhythm of the source.
+ * Each target segment between transients is fitted to the matching source inter-onset interval,
+ * either with the pitch-preserving phase vocoder or, in tape mode, by changing playback speed.
+ */
+export async function applyTimeScaleWarping(
+    sourceBuffer: PcmBuffer,
+    targetBuffer: PcmBuffer,
+    params: TransformationParams,
+    hooks: RenderHooks = {},
+    plan: TimeWarpPlan | null = analyzeTimeScaleWarping(sourceBuffer, targetBuffer, params)
+): Promise<PcmBuffer> {
+    const { timeWarpMode = 'vocoder' } = params;
+    if (!plan) return targetBuffer; // Not enough transients to process
+    const { segments, outputLength } = plan;
+
+    if (timeWarpMode === 'vocoder') {
+        return stretchBuffer(targetBuffer, segments, outputLength, hooks);
+    }
 
-        const playbackRate = targetDuration / sourceDuration;
+    const tapeSource = toAudioBuffer(targetBuffer);
+    const sampleRate = targetBuffer.sampleRate;
+    const offlineCtx = new OfflineAudioContext(targetBuffer.numberOfChannels, outputLength, sampleRate);
+    for (const segment of segments) {
+        const targetDuration = (segment.inputEnd - segment.inputStart) / sampleRate;
         const segmentPlayer = offlineCtx.createBufferSource();
-        segmentPlayer.buffer = targetBuffer;
-        segmentPlayer.playbackRate.value = playbackRate;
-        segmentPlayer.start(currentTime, targetSegmentStart / targetBuffer.sampleRate, targetDuration);
-        
-        currentTime += sourceDuration;
+        segmentPlayer.buffer = tapeSource;
+        segmentPlayer.playbackRate.value = (segment.inputEnd - segment.inputStart) / (segment.outputEnd - segment.outputStart);
+        segmentPlayer.connect(offlineCtx.destination);
+        segmentPlayer.start(segment.outputStart / sampleRate, segment.inputStart / sampleRate, targetDuration);
     }
 
-    return await offlineCtx.startRendering();
+    return await renderOffline(offlineCtx, hooks);
 }
 
 /**
  * Uses the source's waveform shape to re-sequence the target's sonic texture.
  */
-export async function applySurfaceTranslationMapping(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
+export async function applySurfaceTranslationMapping(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
     const { surfaceJitter = 0 } = params;
-    const sourceData = sourceBuffer.getChannelData(0);
-    const targetData = targetBuffer.getChannelData(0);
-    const sortedTargetData = new Float32Array(targetData).sort();
-    
-    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const resultBuffer = audioCtx.createBuffer(1, sourceBuffer.length, sourceBuffer.sampleRate);
-    const resultData = resultBuffer.getChannelData(0);
+    const numChannels = targetBuffer.numberOfChannels;
+    const resultBuffer = createPcmBuffer(numChannels, sourceBuffer.length, sourceBuffer.sampleRate);
+    const jitter = renderParam(params, 'surfaceJitter', surfaceJitter, sourceBuffer.length);
+
+    for (let c = 0; c < numChannels; c++) {
+        const sourceData = sourceBuffer.getChannelData(c % sourceBuffer.numberOfChannels);
+        const sortedTargetData = new Float32Array(targetBuffer.getChannelData(c)).sort();
+        const resultData = resultBuffer.getChannelData(c);
 
-    const sortedLength = sortedTargetData.length;
-    const jitterAmount = surfaceJitter * sortedLength * 0.05; // Jitter can affect up to 5% of the texture range
+        const sortedLength = sortedTargetData.length;
+        const jitterRange = sortedLength * 0.05; // Jitter can affect up to 5% of the texture range
 
-    for (let i = 0; i < sourceData.length; i++) {
-        const sourceSample = sourceData[i]; // Value from -1 to 1
-        const normalizedIndex = (sourceSample + 1) / 2; // Map to [0, 1]
-        const baseTargetIndex = Math.floor(normalizedIndex * (sortedLength - 1));
-        
-        const randomOffset = (Math.random() - 0.5) * jitterAmount;
-        const finalIndex = Math.round(baseTargetIndex + randomOffset);
-        
-        // Clamp index to be within bounds
-        const clampedIndex = Math.max(0, Math.min(sortedLength - 1, finalIndex));
-        
-        resultData[i] = sortedTargetData[clampedIndex];
+        for (let i = 0; i < sourceData.length; i++) {
+            if (i % PROGRESS_INTERVAL === 0) {
+                throwIfAborted(hooks.signal);
+                hooks.onProgress?.((c * sourceData.length + i) / (numChannels * sourceData.length));
+            }
+            const sourceSample = sourceData[i]; // Value from -1 to 1
+            const normalizedIndex = (sourceSample + 1) / 2; // Map to [0, 1]
+            const baseTargetIndex = Math.floor(normalizedIndex * (sortedLength - 1));
+            
+            const randomOffset = (Math.random() - 0.5) * jitter[i] * jitterRange;
+            const finalIndex = Math.round(baseTargetIndex + randomOffset);
+            
+            // Clamp index to be within bounds
+            const clampedIndex = Math.max(0, Math.min(sortedLength - 1, finalIndex));
+            
+            resultData[i] = sortedTargetData[clampedIndex];
+        }
     }
     
     return resultBuffer;
@@ -259,51 +315,137 @@ export async function applySurfaceTranslationMapping(sourceBuffer: AudioBuffer,
 /**
  * Combines the magnitude of the source's spectrum with the phase of the target's spectrum.
  */
-export async function applyFourierMasking(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer): Promise<AudioBuffer> {
+export async function applyFourierMasking(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, hooks: RenderHooks = {}): Promise<PcmBuffer> {
     const fftSize = 2048;
     const hopSize = fftSize / 4;
     const fft = getFFT(fftSize);
     
     const length = Math.min(sourceBuffer.length, targetBuffer.length);
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const resultBuffer = audioContext.createBuffer(1, length, sourceBuffer.sampleRate);
-    const resultData = resultBuffer.getChannelData(0);
-
-    const sourceData = sourceBuffer.getChannelData(0);
-    const targetData = targetBuffer.getChannelData(0);
+    const numChannels = targetBuffer.numberOfChannels;
+    const resultBuffer = createPcmBuffer(numChannels, length, targetBuffer.sampleRate);
 
     const fftWindow = new Float32Array(fftSize);
     for (let i = 0; i < fftSize; i++) {
         fftWindow[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / (fftSize - 1)));
     }
     
-    for (let i = 0; (i + fftSize) <= length; i += hopSize) {
-        const sourceReal = new Float32Array(fftSize);
-        const targetReal = new Float32Array(fftSize);
-        for(let j=0; j<fftSize; j++){
-            sourceReal[j] = sourceData[i+j] * fftWindow[j];
-            targetReal[j] = targetData[i+j] * fftWindow[j];
-        }
-        const sourceImag = new Float32Array(fftSize).fill(0);
-        const targetImag = new Float32Array(fftSize).fill(0);
+    for (let c = 0; c < numChannels; c++) {
+        const sourceData = sourceBuffer.getChannelData(c % sourceBuffer.numberOfChannels);
+        const targetData = targetBuffer.getChannelData(c);
+        const resultData = resultBuffer.getChannelData(c);
 
-        fft(sourceReal, sourceImag, false);
-        fft(targetReal, targetImag, false);
+        for (let i = 0; (i + fftSize) <= length; i += hopSize) {
+            if ((i / hopSize) % 64 === 0) {
+                throwIfAborted(hooks.signal);
+                hooks.onProgress?.((c * length + i) / (numChannels * length));
+            }
+            const sourceReal = new Float32Array(fftSize);
+            const targetReal = new Float32Array(fftSize);
+            for(let j=0; j<fftSize; j++){
+                sourceReal[j] = sourceData[i+j] * fftWindow[j];
+                targetReal[j] = targetData[i+j] * fftWindow[j];
+            }
+            const sourceImag = new Float32Array(fftSize).fill(0);
+            const targetImag = new Float32Array(fftSize).fill(0);
+
+            fft(sourceReal, sourceImag, false);
+            fft(targetReal, targetImag, false);
         
-        const newReal = new Float32Array(fftSize);
-        const newImag = new Float32Array(fftSize);
-
-        for (let j = 0; j < fftSize; j++) {
-            const sourceMag = Math.sqrt(sourceReal[j] ** 2 + sourceImag[j] ** 2);
-            const targetPhase = Math.atan2(targetImag[j], targetReal[j]);
-            newReal[j] = sourceMag * Math.cos(targetPhase);
-            newImag[j] = sourceMag * Math.sin(targetPhase);
+            const newReal = new Float32Array(fftSize);
+            const newImag = new Float32Array(fftSize);
+
+            for (let j = 0; j < fftSize; j++) {
+                const sourceMag = Math.sqrt(sourceReal[j] ** 2 + sourceImag[j] ** 2);
+                const targetPhase = Math.atan2(targetImag[j], targetReal[j]);
+                newReal[j] = sourceMag * Math.cos(targetPhase);
+                newImag[j] = sourceMag * Math.sin(targetPhase);
+            }
+
+            fft(newReal, newImag, true); // Inverse FFT
+
+            for (let j = 0; j < fftSize; j++) {
+                resultData[i + j] += newReal[j] * fftWindow[j];
+            }
         }
+    }
 
-        fft(newReal, newImag, true); // Inverse FFT
+    return resultBuffer;
+}
 
-        for (let j = 0; j < fftSize; j++) {
-            resultData[i + j] += newReal[j] * fftWindow[j];
+/**
+ * Imposes the source's spectral envelope (its timbre) on the target frame by frame. Both
+ * envelopes come from cepstral liftering; the target's is divided out first, so the target keeps
+ * its pitch and harmonics while taking on the source's formants and colour.
+ */
+export async function applyCepstralCrossSynthesis(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const { lifterOrder = 30, envelopeStrength = 1, cepstralFftSize = '2048' } = params;
+    const fftSize = Number(cepstralFftSize);
+    const hopSize = fftSize / 4;
+    const fft = getFFT(fftSize);
+    const length = targetBuffer.length;
+    const numChannels = targetBuffer.numberOfChannels;
+    const resultBuffer = createPcmBuffer(numChannels, length, targetBuffer.sampleRate);
+    const strength = renderParam(params, 'envelopeStrength', envelopeStrength, length);
+    // Caps how far a band can be pushed up where the target has little energy (~24dB)
+    const maxEnvelopeGain = 16;
+
+    // Periodic Hann for analysis and synthesis; at 75% overlap the squared windows sum to 1.5
+    const fftWindow = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+        fftWindow[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / fftSize));
+    }
+    const overlapGain = 1.5;
+
+    const sourceReal = new Float32Array(fftSize);
+    const sourceImag = new Float32Array(fftSize);
+    const targetReal = new Float32Array(fftSize);
+    const targetImag = new Float32Array(fftSize);
+    const sourceMagnitude = new Float32Array(fftSize);
+    const targetMagnitude = new Float32Array(fftSize);
+    const firstFrame = hopSize - fftSize;
+
+    for (let c = 0; c < numChannels; c++) {
+        const sourceData = sourceBuffer.getChannelData(c % sourceBuffer.numberOfChannels);
+        const targetData = targetBuffer.getChannelData(c);
+        const resultData = resultBuffer.getChannelData(c);
+
+        // Frames start before the buffer so every sample is covered by four of them
+        for (let start = firstFrame; start < length; start += hopSize) {
+            if (((start - firstFrame) / hopSize) % 64 === 0) {
+                throwIfAborted(hooks.signal);
+                hooks.onProgress?.((c * length + Math.max(0, start)) / (numChannels * length));
+            }
+            for (let j = 0; j < fftSize; j++) {
+                const index = start + j;
+                const inRange = index >= 0 && index < length;
+                sourceReal[j] = inRange && index < sourceData.length ? sourceData[index] * fftWindow[j] : 0;
+                targetReal[j] = inRange ? targetData[index] * fftWindow[j] : 0;
+            }
+            sourceImag.fill(0);
+            targetImag.fill(0);
+            fft(sourceReal, sourceImag, false);
+            fft(targetReal, targetImag, false);
+
+            for (let k = 0; k < fftSize; k++) {
+                sourceMagnitude[k] = Math.hypot(sourceReal[k], sourceImag[k]);
+                targetMagnitude[k] = Math.hypot(targetReal[k], targetImag[k]);
+            }
+            const sourceEnvelope = cepstralEnvelope(sourceMagnitude, lifterOrder);
+            const targetEnvelope = cepstralEnvelope(targetMagnitude, lifterOrder);
+            const frameStrength = strength[Math.min(length - 1, Math.max(0, start + fftSize / 2))];
+
+            for (let k = 0; k < fftSize; k++) {
+                const ratio = Math.min(maxEnvelopeGain, sourceEnvelope[k] / (targetEnvelope[k] + EPSILON));
+                const gain = Math.pow(ratio, frameStrength);
+                targetReal[k] *= gain;
+                targetImag[k] *= gain;
+            }
+            fft(targetReal, targetImag, true);
+
+            for (let j = 0; j < fftSize; j++) {
+                const index = start + j;
+                if (index >= 0 && index < length) resultData[index] += targetReal[j] * fftWindow[j] / overlapGain;
+            }
         }
     }
 
@@ -311,12 +453,304 @@ export async function applyFourierMasking(sourceBuffer: AudioBuffer, targetBuffe
 }
 
 /**
- * Imprints the harmonic structure of the source onto the target using resonant filters.
+ * Morphs the target's spectrum towards the source's, frame by frame. Position 0 is the target
+ * and 1 the source; automating the position glides between them over the file. Magnitudes blend
+ * per bin or by gliding paired peaks (see morphMagnitudes), and the phase is either the
+ * target's or advanced by the blend of both inputs' instantaneous frequencies.
  */
-export async function applyHarmonicImprinting(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
-    const { numHarmonics = 12, harmonicQ = 30 } = params;
-    const harmonics = detectHarmonics(sourceBuffer, numHarmonics, targetBuffer.sampleRate);
-    if(harmonics.length === 0) return targetBuffer;
+export async function applySpectralMorph(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const { spectralMorphPosition = 0.5, spectralMorphMode = 'bins', spectralMorphPhase = 'target' } = params;
+    const fftSize = 2048;
+    const hopSize = fftSize / 4;
+    const numBins = fftSize / 2 + 1;
+    const fft = getFFT(fftSize);
+    const length = targetBuffer.length;
+    const numChannels = targetBuffer.numberOfChannels;
+    const resultBuffer = createPcmBuffer(numChannels, length, targetBuffer.sampleRate);
+    const position = renderParam(params, 'spectralMorphPosition', spectralMorphPosition, length);
+
+    // Periodic Hann for analysis and synthesis; at 75% overlap the squared windows sum to 1.5
+    const fftWindow = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+        fftWindow[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / fftSize));
+    }
+    const overlapGain = 1.5;
+    const wrapPhase = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+
+    const sourceReal = new Float32Array(fftSize);
+    const sourceImag = new Float32Array(fftSize);
+    const targetReal = new Float32Array(fftSize);
+    const targetImag = new Float32Array(fftSize);
+    const sourceMagnitude = new Float32Array(numBins);
+    const targetMagnitude = new Float32Array(numBins);
+    const morphedMagnitude = new Float32Array(numBins);
+    const firstFrame = hopSize - fftSize;
+
+    for (let c = 0; c < numChannels; c++) {
+        const sourceData = sourceBuffer.getChannelData(c % sourceBuffer.numberOfChannels);
+        const targetData = targetBuffer.getChannelData(c);
+        const resultData = resultBuffer.getChannelData(c);
+        const previousSourcePhase = new Float64Array(numBins);
+        const previousTargetPhase = new Float64Array(numBins);
+        const synthesisPhase = new Float64Array(numBins);
+
+        for (let start = firstFrame; start < length; start += hopSize) {
+            const frame = (start - firstFrame) / hopSize;
+            if (frame % 64 === 0) {
+                throwIfAborted(hooks.signal);
+                hooks.onProgress?.((c * length + Math.max(0, start)) / (numChannels * length));
+            }
+            for (let j = 0; j < fftSize; j++) {
+                const index = start + j;
+                const inRange = index >= 0 && index < length;
+                sourceReal[j] = inRange && index < sourceData.length ? sourceData[index] * fftWindow[j] : 0;
+                targetReal[j] = inRange ? targetData[index] * fftWindow[j] : 0;
+            }
+            sourceImag.fill(0);
+            targetImag.fill(0);
+            fft(sourceReal, sourceImag, false);
+            fft(targetReal, targetImag, false);
+
+            for (let k = 0; k < numBins; k++) {
+                sourceMagnitude[k] = Math.hypot(sourceReal[k], sourceImag[k]);
+                targetMagnitude[k] = Math.hypot(targetReal[k], targetImag[k]);
+            }
+            const p = position[Math.min(length - 1, Math.max(0, start + fftSize / 2))];
+            morphMagnitudes(targetMagnitude, sourceMagnitude, p, spectralMorphMode, morphedMagnitude);
+
+            for (let k = 0; k < numBins; k++) {
+                const targetPhase = Math.atan2(targetImag[k], targetReal[k]);
+                let phase = targetPhase;
+                if (spectralMorphPhase === 'interpolate') {
+                    const sourcePhase = Math.atan2(sourceImag[k], sourceReal[k]);
+                    const expected = 2 * Math.PI * k * hopSize / fftSize;
+                    const targetDeviation = wrapPhase(targetPhase - previousTargetPhase[k] - expected);
+                    const sourceDeviation = wrapPhase(sourcePhase - previousSourcePhase[k] - expected);
+                    synthesisPhase[k] = frame === 0
+                        ? targetPhase
+                        : wrapPhase(synthesisPhase[k] + expected + targetDeviation + (sourceDeviation - targetDeviation) * p);
+                    previousTargetPhase[k] = targetPhase;
+                    previousSourcePhase[k] = sourcePhase;
+                    phase = synthesisPhase[k];
+                }
+                targetReal[k] = morphedMagnitude[k] * Math.cos(phase);
+                targetImag[k] = morphedMagnitude[k] * Math.sin(phase);
+                // Mirror the upper half so the inverse transform is real
+                if (k > 0 && k < numBins - 1) {
+                    targetReal[fftSize - k] = targetReal[k];
+                    targetImag[fftSize - k] = -targetImag[k];
+                }
+            }
+            fft(targetReal, targetImag, true);
+
+            for (let j = 0; j < fftSize; j++) {
+                const index = start + j;
+                if (index >= 0 && index < length) resultData[index] += targetReal[j] * fftWindow[j] / overlapGain;
+            }
+        }
+    }
+
+    return resultBuffer;
+}
+
+/**
+ * Scatters grains of the target into a stereo cloud played by the source. In onset mode each
+ * source onset jumps the read head to a new spot in the target and sets off a burst that decays
+ * until the next one; in envelope mode the source's loudness sets the density and scans the read
+ * head through the target. The louder or fresher the source, the denser, more pitch-scattered
+ * and wider the cloud. The same seed always renders the same cloud.
+ */
+export async function applyGranularCloud(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const {
+        grainSize = 80,
+        grainDensity = 40,
+        grainJitter = 0.2,
+        grainPitchScatter = 2,
+        grainSeed = 1,
+        grainWindow = 'hann',
+        grainControl = 'onsets',
+    } = params;
+    const length = sourceBuffer.length;
+    const sampleRate = targetBuffer.sampleRate;
+    const random = createRandom(grainSeed);
+    const drive = new Float32Array(length);
+    const readHead = new Float32Array(length);
+    // How long an onset's burst takes to die down to a third
+    const burstDecay = 0.2 * sampleRate;
+
+    if (grainControl === 'envelope') {
+        const envelope = getAmplitudeEnvelope(downmixToMono(sourceBuffer)).getChannelData(0);
+        drive.set(envelope);
+        for (let i = 0; i < length; i++) readHead[i] = envelope[i] * targetBuffer.length;
+    } else {
+        const onsets = resolveOnsets(sourceBuffer, params.sourceOnsets, params);
+        onsets.forEach((onset, index) => {
+            const end = index + 1 < onsets.length ? onsets[index + 1] : length;
+            const jumpTo = random() * targetBuffer.length;
+            for (let i = onset; i < end; i++) {
+                drive[i] = Math.exp(-(i - onset) / burstDecay);
+                readHead[i] = (jumpTo + i - onset) % targetBuffer.length;
+            }
+        });
+    }
+    hooks.onProgress?.(0.2);
+    throwIfAborted(hooks.signal);
+
+    const grains = scheduleGrains({
+        drive,
+        readHead,
+        sizeMs: renderParam(params, 'grainSize', grainSize, length),
+        density: renderParam(params, 'grainDensity', grainDensity, length),
+        jitter: renderParam(params, 'grainJitter', grainJitter, length),
+        pitchScatter: renderParam(params, 'grainPitchScatter', grainPitchScatter, length),
+    }, length, sampleRate, random);
+    return renderGrains(targetBuffer, grains, length, grainWindow, scaleProgress(hooks, 0.3, 1));
+}
+
+/**
+ * Cuts the target at its onsets and re-triggers the slices at the source's onsets, so the
+ * target's own sounds play the source's rhythm. Which slice plays at each source onset is set
+ * by the slice order: in sequence, the closest spectral or loudness match to what the source
+ * plays there, or seeded random picks.
+ */
+export async function applySliceResequence(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const { sliceFade = 5, sliceSeed = 1, sliceOrder = 'sequential' } = params;
+    const sampleRate = targetBuffer.sampleRate;
+    const sourceOnsets = resolveOnsets(sourceBuffer, params.sourceOnsets, params);
+    const targetOnsets = resolveOnsets(targetBuffer, params.targetOnsets, params);
+    throwIfAborted(hooks.signal);
+
+    const slots = sliceAtOnsets(getMonoData(sourceBuffer), sourceOnsets, sampleRate);
+    const slices = sliceAtOnsets(getMonoData(targetBuffer), targetOnsets, sampleRate);
+    if (slots.length === 0 || slices.length === 0) return targetBuffer;
+    hooks.onProgress?.(0.3);
+
+    const choices = orderSlices(slots, slices, sliceOrder, createRandom(sliceSeed));
+    const fadeLength = Math.round(sliceFade * sampleRate / 1000);
+    return renderSlices(targetBuffer, slots, slices, choices, sourceBuffer.length, fadeLength, scaleProgress(hooks, 0.3, 1));
+}
+
+/**
+ * Runs the target through a compressor, expander or gate keyed by the source, so the source's
+ * level ducks, pumps or opens up the target.
+ */
+export async function applySidechainDynamics(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const {
+        dynamicsThreshold = -24, dynamicsRatio = 4, dynamicsKnee = 6, dynamicsAttack = 10, dynamicsRelease = 150,
+        dynamicsHold = 0, dynamicsLookahead = 0, dynamicsMode = 'compress',
+    } = params;
+    const { numberOfChannels, length, sampleRate } = targetBuffer;
+    const gains = sidechainGains(getMonoData(sourceBuffer), length, sampleRate, {
+        mode: dynamicsMode,
+        thresholdDb: renderParam(params, 'dynamicsThreshold', dynamicsThreshold, length),
+        ratio: renderParam(params, 'dynamicsRatio', dynamicsRatio, length),
+        kneeDb: dynamicsKnee,
+        attackMs: dynamicsAttack,
+        releaseMs: dynamicsRelease,
+        holdMs: dynamicsHold,
+        lookaheadMs: dynamicsLookahead,
+    }, scaleProgress(hooks, 0, 0.8));
+
+    const result = createPcmBuffer(numberOfChannels, length, sampleRate);
+    for (let c = 0; c < numberOfChannels; c++) {
+        const input = targetBuffer.getChannelData(c);
+        const output = result.getChannelData(c);
+        for (let i = 0; i < length; i++) output[i] = input[i] * gains[i];
+    }
+    return result;
+}
+
+/**
+ * Matches the target's overall tonal balance to the source's. The long-term average spectra
+ * of both are compared through fractional-octave smoothing, and the target is filtered once
+ * with the resulting static EQ curve (unlike Spectral Shaping, which follows the source over
+ * time).
+ */
+export async function applyEqMatch(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const { eqMatchAmount = 1, eqMatchResolution = 3, eqMatchMaxBoost = 12, eqMatchMaxCut = 12, eqMatchPhase = 'linear' } = params;
+    const sourceSpectrum = averageSpectrum(sourceBuffer);
+    throwIfAborted(hooks.signal);
+    const targetSpectrum = averageSpectrum(targetBuffer);
+    throwIfAborted(hooks.signal);
+    hooks.onProgress?.(0.2);
+
+    const curve = matchingCurve(sourceSpectrum, targetSpectrum, targetBuffer.sampleRate, {
+        bandsPerOctave: eqMatchResolution,
+        amount: eqMatchAmount,
+        maxBoost: eqMatchMaxBoost,
+        maxCut: eqMatchMaxCut,
+    });
+    return applyMatchingEq(targetBuffer, curve, eqMatchPhase, scaleProgress(hooks, 0.2, 1));
+}
+
+export interface MelodyPitch {
+    source?: PitchCurve;
+    target?: PitchCurve;
+}
+
+/**
+ * Pitch-shifts the target so it follows the source's melody. Both inputs are pitch-tracked
+ * (unless their curves are passed in); the shift at each moment moves the target's pitch onto
+ * the source's note (optionally snapped to a scale), with a glide between notes.
+ */
+export async function applyMelodyTransfer(
+    sourceBuffer: PcmBuffer,
+    targetBuffer: PcmBuffer,
+    params: TransformationParams,
+    hooks: RenderHooks = {},
+    pitch: MelodyPitch = {}
+): Promise<PcmBuffer> {
+    const { melodyTranspose = 0, melodyGlide = 50, melodyConfidence = 0.5, melodyScale = 'none', melodyKey = 'C' } = params;
+    const sourcePitch = pitch.source ?? trackPitch(sourceBuffer);
+    throwIfAborted(hooks.signal);
+    const targetPitch = pitch.target ?? trackPitch(targetBuffer);
+    throwIfAborted(hooks.signal);
+    hooks.onProgress?.(0.1);
+
+    const { length } = targetBuffer;
+    const hop = sourcePitch.hopSeconds * targetBuffer.sampleRate;
+    const transposeBySample = renderParam(params, 'melodyTranspose', melodyTranspose, length);
+    const transpose = sourcePitch.frequencies.map((_, n) => transposeBySample[Math.min(length - 1, Math.round(n * hop))]);
+    const shift = melodyShift(sourcePitch, targetPitch, {
+        transpose,
+        glideMs: melodyGlide,
+        minConfidence: melodyConfidence,
+        scale: melodyScale,
+        key: melodyKey,
+    });
+
+    // Frame values are linearly interpolated out to every sample
+    const semitones = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        const position = Math.min(i / hop, shift.length - 1);
+        const frame = Math.floor(position);
+        const next = Math.min(frame + 1, shift.length - 1);
+        semitones[i] = shift[frame] + (shift[next] - shift[frame]) * (position - frame);
+    }
+    return shiftPitch(targetBuffer, semitones, scaleProgress(hooks, 0.1, 1));
+}
+
+// Tracks the source's harmonics ahead of the audio graph (see TransformationDefinition.analyze)
+export function analyzeHarmonicImprinting(sourceBuffer: PcmBuffer, params: TransformationParams): HarmonicTracks | null {
+    const { numHarmonics = 12, harmonicHop = 20, harmonicSalience = -30 } = params;
+    return trackHarmonics(sourceBuffer, { numHarmonics, hopMs: harmonicHop, minSalience: harmonicSalience });
+}
+
+/**
+ * Imprints the harmonic structure of the source onto the target using resonant filters. The
+ * source's pitch and harmonics are tracked over time and each filter follows one harmonic,
+ * boosting only while that harmonic is present, so a melodic source plays its melody through
+ * the target.
+ */
+export async function applyHarmonicImprinting(
+    sourceBuffer: AudioBuffer,
+    targetBuffer: AudioBuffer,
+    params: TransformationParams,
+    hooks: RenderHooks = {},
+    tracks: HarmonicTracks | null = analyzeHarmonicImprinting(sourceBuffer, params)
+): Promise<PcmBuffer> {
+    const { harmonicQ = 30 } = params;
+    if (!tracks) return targetBuffer;
 
     const offlineCtx = new OfflineAudioContext(targetBuffer.numberOfChannels, targetBuffer.length, targetBuffer.sampleRate);
     const targetNode = offlineCtx.createBufferSource();
@@ -324,46 +758,97 @@ export async function applyHarmonicImprinting(sourceBuffer: AudioBuffer, targetB
     
     let lastNode: AudioNode = targetNode;
     
-    harmonics.forEach(freq => {
-        if(freq > 0 && freq < offlineCtx.sampleRate / 2) {
-            const peakFilter = offlineCtx.createBiquadFilter();
-            peakFilter.type = 'peaking';
-            peakFilter.frequency.value = freq;
-            peakFilter.Q.value = harmonicQ;
-            peakFilter.gain.value = 15; // 15dB boost
-            lastNode.connect(peakFilter);
-            lastNode = peakFilter;
+    const maxFrequency = offlineCtx.sampleRate / 2 - 1;
+    tracks.partials.forEach(({ frequencies, active }) => {
+        if (!active.includes(1)) return;
+        const peakFilter = offlineCtx.createBiquadFilter();
+        peakFilter.type = 'peaking';
+        scheduleParam(peakFilter.Q, params, 'harmonicQ', harmonicQ, targetBuffer.duration);
+        for (let frame = 0; frame < frequencies.length; frame++) {
+            const time = frame * tracks.hopSeconds;
+            if (time > targetBuffer.duration) break;
+            const frequency = Math.min(frequencies[frame], maxFrequency);
+            const gain = active[frame] ? 15 : 0; // 15dB boost while the harmonic sounds
+            if (frame === 0) {
+                peakFilter.frequency.setValueAtTime(frequency, 0);
+                peakFilter.gain.setValueAtTime(gain, 0);
+            } else {
+                peakFilter.frequency.linearRampToValueAtTime(frequency, time);
+                peakFilter.gain.linearRampToValueAtTime(gain, time);
+            }
         }
+        lastNode.connect(peakFilter);
+        lastNode = peakFilter;
     });
 
     lastNode.connect(offlineCtx.destination);
     
     targetNode.start(0);
-    return await offlineCtx.startRendering();
+    return await renderOffline(offlineCtx, hooks);
+}
+
+export interface EchoTriggers {
+    // Source onsets, in samples
+    onsets: number[];
+    // Detected tempo in BPM; only measured when the echoes sync to it
+    tempo: number | null;
+}
+
+// Finds what drives the echoes ahead of the audio graph (see TransformationDefinition.analyze)
+export function analyzeInterferenceEchoes(sourceBuffer: PcmBuffer, params: TransformationParams): EchoTriggers {
+    return {
+        onsets: resolveOnsets(sourceBuffer, params.sourceOnsets, params),
+        tempo: params.interferenceSync === 'detected' ? estimateTempo(sourceBuffer) : null,
+    };
 }
 
 /**
- * Uses rhythmic events from the source to trigger echoes of the target.
+ * Uses rhythmic events from the source to trigger echoes of the target. Each source onset opens
+ * a short gate into a feedback delay whose time is set in ms or synced to a note division of
+ * the source's detected tempo (or an entered BPM). The repeats are lowpassed on every pass,
+ * wobbled by an LFO on the delay time, and either stay in place, bounce between left and right,
+ * or fall on three panned taps per loop. The render runs until the repeats have decayed 60dB.
  */
-export async function applyInterferenceEchoes(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
-    const { interferenceFeedback = 0.5, interferenceMix = 0.5 } = params;
-    const context = new OfflineAudioContext(targetBuffer.numberOfChannels, targetBuffer.length + targetBuffer.sampleRate * 4, targetBuffer.sampleRate);
-
-    const sourceTransients = detectTransients(sourceBuffer, 1.8);
-    if (sourceTransients.length <= 1) return targetBuffer; // Not enough transients
+export async function applyInterferenceEchoes(
+    sourceBuffer: AudioBuffer,
+    targetBuffer: AudioBuffer,
+    params: TransformationParams,
+    hooks: RenderHooks = {},
+    { onsets: sourceTransients, tempo }: EchoTriggers = analyzeInterferenceEchoes(sourceBuffer, params)
+): Promise<PcmBuffer> {
+    const {
+        interferenceFeedback = 0.5, interferenceMix = 0.5, interferenceDelay = 300, interferenceSync = 'off',
+        interferenceBpm = 120, interferenceDivision = '1/8', interferenceStereo = 'mono', interferenceCutoff = 4000,
+        interferenceWobbleRate = 0.5, interferenceWobbleDepth = 0, interferenceTrigger = 10,
+    } = params;
+
+    if (sourceTransients.length === 0) return targetBuffer; // Nothing to trigger the echoes
+
+    // A source with no measurable tempo falls back to the entered BPM
+    const bpm = interferenceSync === 'detected' ? tempo ?? interferenceBpm : interferenceBpm;
+    const delayTime = interferenceSync === 'off' ? interferenceDelay / 1000 : noteDivisionSeconds(interferenceDivision, bpm);
+    const wobbleDepth = getAutomationLane(params, 'interferenceWobbleDepth')?.reduce((max, point) => Math.max(max, point.value), 0) ?? interferenceWobbleDepth;
+    const peakFeedback = getAutomationLane(params, 'interferenceFeedback')?.reduce((max, point) => Math.max(max, point.value), 0) ?? interferenceFeedback;
+    // Multi-tap loops back after its third tap
+    const loopTime = interferenceStereo === 'multi-tap' ? 3 * delayTime : delayTime;
+    const tail = Math.min(MAX_ECHO_TAIL_SECONDS, echoTailSeconds(loopTime, peakFeedback) + interferenceTrigger / 1000 + wobbleDepth / 1000);
+
+    const { sampleRate, duration } = targetBuffer;
+    const numberOfChannels = interferenceStereo === 'mono' ? targetBuffer.numberOfChannels : Math.max(2, targetBuffer.numberOfChannels);
+    const context = new OfflineAudioContext(numberOfChannels, targetBuffer.length + Math.ceil(tail * sampleRate), sampleRate);
 
     const targetNode = context.createBufferSource();
     targetNode.buffer = targetBuffer;
 
     // Dry Path
     const dryGain = context.createGain();
-    dryGain.gain.value = 1.0 - interferenceMix;
+    scheduleParam(dryGain.gain, params, 'interferenceMix', interferenceMix, duration, mix => 1.0 - mix);
     targetNode.connect(dryGain);
     dryGain.connect(context.destination);
 
     // Wet Path
     const wetGain = context.createGain();
-    wetGain.gain.value = interferenceMix;
+    scheduleParam(wetGain.gain, params, 'interferenceMix', interferenceMix, duration);
     wetGain.connect(context.destination);
 
     // This gain node will be pulsed by the source transients to let the target sound into the delay line
@@ -371,43 +856,127 @@ export async function applyInterferenceEchoes(sourceBuffer: AudioBuffer, targetB
     gateGain.gain.setValueAtTime(0, 0); // Start closed
     targetNode.connect(gateGain);
 
-    // The delay line
-    const delay = context.createDelay(5.0); // 5 seconds max delay
-    delay.delayTime.value = 0.3; // A base delay time
-    const filter = context.createBiquadFilter();
-    filter.type = 'lowpass';
-    filter.frequency.value = 4000;
-    const feedback = context.createGain();
-    feedback.gain.value = interferenceFeedback;
-    
-    // Connect the delay line
-    gateGain.connect(delay);
-    delay.connect(filter);
-    filter.connect(feedback);
-    feedback.connect(delay); // feedback loop
-    filter.connect(wetGain); // output to wet gain
+    // The LFO that wobbles every delay line, scaled from ms to seconds
+    const wobble = context.createOscillator();
+    wobble.frequency.value = interferenceWobbleRate;
+    const wobbleGain = context.createGain();
+    scheduleParam(wobbleGain.gain, params, 'interferenceWobbleDepth', interferenceWobbleDepth, duration, ms => ms / 1000);
+    wobble.connect(wobbleGain);
+
+    const createDelayLine = (modulation: AudioNode = wobbleGain) => {
+        const delay = context.createDelay(delayTime + wobbleDepth / 1000 + 0.01);
+        delay.delayTime.value = delayTime;
+        modulation.connect(delay.delayTime);
+        return delay;
+    };
+    const createFilter = () => {
+        const filter = context.createBiquadFilter();
+        filter.type = 'lowpass';
+        scheduleParam(filter.frequency, params, 'interferenceCutoff', interferenceCutoff, duration);
+        return filter;
+    };
+    const createFeedback = () => {
+        const feedback = context.createGain();
+        scheduleParam(feedback.gain, params, 'interferenceFeedback', interferenceFeedback, duration);
+        return feedback;
+    };
+    // The stereo modes build their own image from a mono feed
+    const createMonoSum = () => {
+        const monoSum = context.createGain();
+        monoSum.channelCount = 1;
+        monoSum.channelCountMode = 'explicit';
+        gateGain.connect(monoSum);
+        return monoSum;
+    };
+
+    if (interferenceStereo === 'ping-pong') {
+        // The right side wobbles in opposite phase, which widens the image
+        const invert = context.createGain();
+        invert.gain.value = -1;
+        wobbleGain.connect(invert);
+        const left = createDelayLine();
+        const right = createDelayLine(invert);
+        const leftFilter = createFilter();
+        const rightFilter = createFilter();
+        const leftFeedback = createFeedback();
+        const rightFeedback = createFeedback();
+
+        // Each side feeds the other, so the repeats alternate left and right
+        const merger = context.createChannelMerger(2);
+        createMonoSum().connect(left);
+        left.connect(leftFilter);
+        leftFilter.connect(merger, 0, 0);
+        leftFilter.connect(leftFeedback);
+        leftFeedback.connect(right);
+        right.connect(rightFilter);
+        rightFilter.connect(merger, 0, 1);
+        rightFilter.connect(rightFeedback);
+        rightFeedback.connect(left);
+        merger.connect(wetGain);
+    } else if (interferenceStereo === 'multi-tap') {
+        // Three delays in series, tapped left, right and centre; the last feeds back to the first
+        const taps = [createDelayLine(), createDelayLine(), createDelayLine()];
+        const filter = createFilter();
+        const feedback = createFeedback();
+        createMonoSum().connect(taps[0]);
+        taps[0].connect(filter);
+        filter.connect(taps[1]);
+        taps[1].connect(taps[2]);
+        taps[2].connect(feedback);
+        feedback.connect(taps[0]);
+
+        const outputs: AudioNode[] = [filter, taps[1], taps[2]];
+        [-0.8, 0.8, 0].forEach((pan, index) => {
+            const panner = context.createStereoPanner();
+            panner.pan.value = pan;
+            outputs[index].connect(panner);
+            panner.connect(wetGain);
+        });
+    } else {
+        const delay = createDelayLine();
+        const filter = createFilter();
+        const feedback = createFeedback();
+        gateGain.connect(delay);
+        delay.connect(filter);
+        filter.connect(feedback);
+        feedback.connect(delay); // feedback loop
+        filter.connect(wetGain); // output to wet gain
+    }
 
     // Schedule the gate to open at each transient
     sourceTransients.forEach(sampleIndex => {
         const triggerTime = sampleIndex / sourceBuffer.sampleRate;
         gateGain.gain.setValueAtTime(1.0, triggerTime);
-        gateGain.gain.setValueAtTime(0.0, triggerTime + 0.01); // Create a short 10ms pulse
+        gateGain.gain.setValueAtTime(0.0, triggerTime + interferenceTrigger / 1000);
     });
 
     targetNode.start(0);
-    return await context.startRendering();
+    wobble.start(0);
+    const rendered = await renderOffline(context, hooks);
+    // The tail estimate ignores the lowpass, so trim whatever has already died away
+    return applyTailPolicy(rendered, 'decay', targetBuffer.length);
 }
 
+// Tracks the source's formants ahead of the audio graph (see TransformationDefinition.analyze)
+export function analyzeFormantShifting(sourceBuffer: PcmBuffer, params: TransformationParams): FormantTracks | null {
+    const { numFormants = 4 } = params;
+    return trackFormants(sourceBuffer, numFormants);
+}
 
 /**
- * Imprints the vocal formant structure of the source onto the target.
+ * Imprints the vocal formant structure of the source onto the target. The source's formants are
+ * tracked frame by frame and a bank of peaking filters follows them, so the target takes on the
+ * source's vowels as they change. Past the end of the source the filters hold their last values.
  */
-export async function applyFormantShifting(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
-    const { numFormants = 4, formantQ = 20, formantMix = 0.7 } = params;
-
-    // Detect average formants over the whole source file
-    const formants = detectFormants(sourceBuffer, numFormants, targetBuffer.sampleRate);
-    if (formants.length === 0) return targetBuffer;
+export async function applyFormantShifting(
+    sourceBuffer: AudioBuffer,
+    targetBuffer: AudioBuffer,
+    params: TransformationParams,
+    hooks: RenderHooks = {},
+    tracks: FormantTracks | null = analyzeFormantShifting(sourceBuffer, params)
+): Promise<PcmBuffer> {
+    const { formantQ = 20, formantMix = 0.7 } = params;
+    if (!tracks) return targetBuffer;
 
     const context = new OfflineAudioContext(targetBuffer.numberOfChannels, targetBuffer.length, targetBuffer.sampleRate);
     const targetNode = context.createBufferSource();
@@ -415,279 +984,233 @@ export async function applyFormantShifting(sourceBuffer: AudioBuffer, targetBuff
 
     // Dry path
     const dryGain = context.createGain();
-    dryGain.gain.value = 1.0 - formantMix;
+    scheduleParam(dryGain.gain, params, 'formantMix', formantMix, targetBuffer.duration, mix => 1.0 - mix);
     targetNode.connect(dryGain);
     dryGain.connect(context.destination);
 
     // Wet path - a chain of peaking filters
     const wetGain = context.createGain();
-    wetGain.gain.value = formantMix;
+    scheduleParam(wetGain.gain, params, 'formantMix', formantMix, targetBuffer.duration);
     wetGain.connect(context.destination);
 
     let lastNode: AudioNode = targetNode;
-    formants.forEach(freq => {
-        if (freq > 0 && freq < context.sampleRate / 2) {
-            const peakFilter = context.createBiquadFilter();
-            peakFilter.type = 'peaking';
-            peakFilter.frequency.value = freq;
-            peakFilter.Q.value = formantQ;
-            peakFilter.gain.value = 18; // A significant boost to impose the formant
-            lastNode.connect(peakFilter);
-            lastNode = peakFilter;
+    const maxFrequency = context.sampleRate / 2 - 1;
+    tracks.frequencies.forEach(track => {
+        const peakFilter = context.createBiquadFilter();
+        peakFilter.type = 'peaking';
+        peakFilter.frequency.setValueAtTime(Math.min(track[0], maxFrequency), 0);
+        for (let frame = 1; frame < track.length; frame++) {
+            const time = frame * FORMANT_HOP_SECONDS;
+            if (time > targetBuffer.duration) break;
+            peakFilter.frequency.linearRampToValueAtTime(Math.min(track[frame], maxFrequency), time);
         }
+        scheduleParam(peakFilter.Q, params, 'formantQ', formantQ, targetBuffer.duration);
+        peakFilter.gain.value = 18; // A significant boost to impose the formant
+        lastNode.connect(peakFilter);
+        lastNode = peakFilter;
     });
 
     lastNode.connect(wetGain);
 
     targetNode.start(0);
-    return await context.startRendering();
+    return await renderOffline(context, hooks);
 }
 
 /**
- * Applies dynamic ring modulation to the target, controlled by the source's envelope.
+ * Applies dynamic ring modulation to the target, controlled by the source. Every target channel
+ * has its own modulator, optionally detuned against the others. The modulator's frequency
+ * follows the source's envelope (base plus envelope times range) or its pitch (times a ratio).
+ * Ring mode multiplies the target by the modulator; FM mode phase-modulates the target through
+ * a delay the modulator sweeps, with the source's envelope setting the modulation index.
  */
-export async function applyDynamicRingModulation(sourceBuffer: AudioBuffer, targetBuffer: AudioBuffer, params: TransformationParams): Promise<AudioBuffer> {
-    const { ringModBaseFreq = 100, ringModRange = 1000, ringModMix = 0.5 } = params;
+export async function applyDynamicRingModulation(sourceBuffer: PcmBuffer, targetBuffer: PcmBuffer, params: TransformationParams, hooks: RenderHooks = {}): Promise<PcmBuffer> {
+    const {
+        ringModBaseFreq = 100, ringModRange = 1000, ringModMix = 0.5, ringModDetune = 0, ringModIndex = 3,
+        ringModRatio = 1, ringModWaveform = 'sine', ringModMode = 'ring', ringModControl = 'amplitude',
+    } = params;
 
-    const sourceEnvelope = await getAmplitudeEnvelope(sourceBuffer, 0.99); // Fairly responsive envelope
+    const sourceEnvelope = getAmplitudeEnvelope(sourceBuffer, 0.99); // Fairly responsive envelope
 
-    const context = new OfflineAudioContext(targetBuffer.numberOfChannels, targetBuffer.length, targetBuffer.sampleRate);
-    
-    const sourceEnvData = sourceEnvelope.getChannelData(0);
     const numChannels = targetBuffer.numberOfChannels;
     
-    const resultBuffer = context.createBuffer(numChannels, targetBuffer.length, targetBuffer.sampleRate);
+    const resultBuffer = createPcmBuffer(numChannels, targetBuffer.length, targetBuffer.sampleRate);
 
-    let phase = 0;
-    const sr = context.sampleRate;
+    const sr = targetBuffer.sampleRate;
+    const baseFreq = renderParam(params, 'ringModBaseFreq', ringModBaseFreq, targetBuffer.length);
+    const range = renderParam(params, 'ringModRange', ringModRange, targetBuffer.length);
+    const mix = renderParam(params, 'ringModMix', ringModMix, targetBuffer.length);
+    const modIndex = renderParam(params, 'ringModIndex', ringModIndex, targetBuffer.length);
+    const pitch = ringModControl === 'pitch' ? followPitch(trackPitch(sourceBuffer), targetBuffer.length, sr, ringModBaseFreq) : null;
+    const detune = channelDetune(numChannels, ringModDetune);
 
     for (let c = 0; c < numChannels; c++) {
         const targetData = targetBuffer.getChannelData(c);
         const resultData = resultBuffer.getChannelData(c);
+        const sourceEnvData = sourceEnvelope.getChannelData(c % sourceEnvelope.numberOfChannels);
+        let phase = 0; // In cycles; each channel's modulator runs on its own
 
         for (let i = 0; i < targetBuffer.length; i++) {
+            if (i % PROGRESS_INTERVAL === 0) {
+                throwIfAborted(hooks.signal);
+                hooks.onProgress?.((c * targetBuffer.length + i) / (numChannels * targetBuffer.length));
+            }
             const envValue = sourceEnvData[i] || 0;
-            const modFreq = ringModBaseFreq + (envValue * ringModRange);
-            
-            const modSample = Math.sin(phase);
-            phase += 2 * Math.PI * modFreq / sr;
-            if (phase > 2 * Math.PI) {
-                phase -= 2 * Math.PI;
+            // In FM mode the envelope drives the index rather than the frequency
+            const centreFreq = pitch ? pitch[i] * ringModRatio : ringModMode === 'fm' ? baseFreq[i] : baseFreq[i] + (envValue * range[i]);
+            const modFreq = centreFreq * detune[c];
+
+            const increment = modFreq / sr;
+            const modSample = modulatorSample(ringModWaveform, phase, increment);
+            phase += increment;
+            phase -= Math.floor(phase);
+
+            let wetSample: number;
+            if (ringModMode === 'fm') {
+                // Swinging the delay by index / (2π·f) seconds moves the phase of a partial at
+                // the modulator's frequency by up to `index` radians
+                const delay = envValue * modIndex[i] * (1 + modSample) * sr / (2 * Math.PI * Math.max(1, modFreq));
+                const position = i - delay;
+                const index = Math.floor(position);
+                const fraction = position - index;
+                const current = index >= 0 ? targetData[index] : 0;
+                const next = index + 1 >= 0 && index + 1 < targetData.length ? targetData[index + 1] : 0;
+                wetSample = current + (next - current) * fraction;
+            } else {
+                wetSample = targetData[i] * modSample;
             }
-
-            const wetSample = targetData[i] * modSample;
             const drySample = targetData[i];
             
-            resultData[i] = (wetSample * ringModMix) + (drySample * (1 - ringModMix));
+            resultData[i] = (wetSample * mix[i]) + (drySample * (1 - mix[i]));
         }
     }
     
     return resultBuffer;
 }
 
-
 /**
- * Blends the results of two different transformations.
+ * Blends the results of two transformations. The morph position can follow a curve over the
+ * result (breakpoints, an LFO or the source's amplitude envelope) and the gains can be linear
+ * or equal-power.
  */
-export async function applyTransformationMorph(
-    sourceBuffer: AudioBuffer,
-    targetBuffer: AudioBuffer,
-    transformA: TransformationType,
-    transformB: TransformationType,
-    params: TransformationParams
-): Promise<AudioBuffer> {
-    
-    const run = async (type: TransformationType): Promise<AudioBuffer> => {
-        switch (type) {
-            case TransformationType.AMPLITUDE:
-                return applyAmplitudeMapping(sourceBuffer, targetBuffer);
-            case TransformationType.RHYTHMIC:
-                return applyRhythmicGating(sourceBuffer, targetBuffer, params);
-            case TransformationType.SPECTRAL:
-                return applySpectralShaping(sourceBuffer, targetBuffer, params);
-            case TransformationType.CONVOLUTION:
-                return applyConvolution(sourceBuffer, targetBuffer);
-            case TransformationType.TIME_WARP:
-                return applyTimeScaleWarping(sourceBuffer, targetBuffer, params);
-            case TransformationType.SURFACE_TRANSLATE:
-                return applySurfaceTranslationMapping(sourceBuffer, targetBuffer, params);
-            case TransformationType.FOURIER_MASKING:
-                return applyFourierMasking(sourceBuffer, targetBuffer);
-            case TransformationType.HARMONIC_IMPRINT:
-                return applyHarmonicImprinting(sourceBuffer, targetBuffer, params);
-            case TransformationType.INTERFERENCE_ECHOES:
-                return applyInterferenceEchoes(sourceBuffer, targetBuffer, params);
-            case TransformationType.FORMANT_SHIFTING:
-                return applyFormantShifting(sourceBuffer, targetBuffer, params);
-            case TransformationType.DYNAMIC_RING_MOD:
-                return applyDynamicRingModulation(sourceBuffer, targetBuffer, params);
-            default:
-                throw new Error(`Invalid transformation type for morphing: ${type}`);
-        }
-    };
+export function applyTransformationMorph(resultA: PcmBuffer, resultB: PcmBuffer, params: TransformationParams, sourceBuffer?: PcmBuffer): PcmBuffer {
+    const {
+        morphPosition = 0.5,
+        morphCurve = 'static',
+        morphBreakpoints = DEFAULT_BREAKPOINTS,
+        morphLfoRate,
+        morphDepth,
+        morphCrossfade = 'linear',
+    } = params;
 
-    const [resultA, resultB] = await Promise.all([
-        run(transformA),
-        run(transformB)
-    ]);
-    
-    const { morphPosition = 0.5 } = params;
-    const gainA = 1.0 - morphPosition;
-    const gainB = morphPosition;
-    
     const length = Math.max(resultA.length, resultB.length);
     const numChannels = Math.min(resultA.numberOfChannels, resultB.numberOfChannels);
-    const sampleRate = resultA.sampleRate;
-    
-    const context = new OfflineAudioContext(numChannels, length, sampleRate);
-    
-    const sourceA = context.createBufferSource();
-    sourceA.buffer = resultA;
-    const gainNodeA = context.createGain();
-    gainNodeA.gain.value = gainA;
-    sourceA.connect(gainNodeA).connect(context.destination);
-    
-    const sourceB = context.createBufferSource();
-    sourceB.buffer = resultB;
-    const gainNodeB = context.createGain();
-    gainNodeB.gain.value = gainB;
-    sourceB.connect(gainNodeB).connect(context.destination);
-
-    sourceA.start(0);
-    sourceB.start(0);
-
-    return await context.startRendering();
-}
-
-
-// --- Helper Functions ---
-
-function detectFormants(buffer: AudioBuffer, numFormants: number, sampleRate: number): number[] {
-    // This is a simplified formant detector based on peak-picking in the spectrum.
-    // A true formant detector uses more advanced DSP like LPC (Linear Predictive Coding).
-    const fftSize = 8192;
-    const fft = getFFT(fftSize);
-
-    const data = buffer.getChannelData(0);
-    const chunk = data.length > fftSize ? data.slice(0, fftSize) : data;
-    
-    const real = new Float32Array(fftSize).fill(0);
-    real.set(chunk);
-    const imag = new Float32Array(fftSize).fill(0);
-
-    fft(real, imag, false);
-
-    const magnitudes: {freq: number, mag: number}[] = [];
-    const minFreq = 300;
-    const maxFreq = 5000;
-
-    for (let i = 1; i < fftSize / 2; i++) {
-        const freq = i * sampleRate / fftSize;
-        if (freq >= minFreq && freq <= maxFreq) {
-            magnitudes.push({
-                freq: freq,
-                mag: Math.sqrt(real[i]**2 + imag[i]**2)
-            });
+    const resultBuffer = createPcmBuffer(numChannels, length, resultA.sampleRate);
+
+    const envelope = morphCurve === 'envelope' && sourceBuffer
+        ? getAmplitudeEnvelope(downmixToMono(sourceBuffer)).getChannelData(0)
+        : undefined;
+    const positions = renderControlCurve(
+        { mode: morphCurve, value: morphPosition, breakpoints: morphBreakpoints, lfoRate: morphLfoRate, depth: morphDepth },
+        length,
+        resultA.sampleRate,
+        envelope
+    );
+    const gainsA = new Float32Array(length);
+    const gainsB = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        const position = positions[i];
+        if (morphCrossfade === 'equal-power') {
+            gainsA[i] = Math.cos(position * Math.PI / 2);
+            gainsB[i] = Math.sin(position * Math.PI / 2);
+        } else {
+            gainsA[i] = 1.0 - position;
+            gainsB[i] = position;
         }
     }
 
-    // Find peaks
-    const peaks = [];
-    for (let i = 1; i < magnitudes.length - 1; i++) {
-        if (magnitudes[i].mag > magnitudes[i-1].mag && magnitudes[i].mag > magnitudes[i+1].mag) {
-            peaks.push(magnitudes[i]);
+    for (let c = 0; c < numChannels; c++) {
+        const dataA = resultA.getChannelData(c);
+        const dataB = resultB.getChannelData(c);
+        const resultData = resultBuffer.getChannelData(c);
+        for (let i = 0; i < length; i++) {
+            resultData[i] = (dataA[i] ?? 0) * gainsA[i] + (dataB[i] ?? 0) * gainsB[i];
         }
     }
-    
-    // Sort by magnitude and return top frequencies
-    return peaks
-        .sort((a, b) => b.mag - a.mag)
-        .slice(0, numFormants)
-        .map(p => p.freq);
+
+    return resultBuffer;
 }
 
-function detectHarmonics(buffer: AudioBuffer, numHarmonics: number, sampleRate: number): number[] {
-    const fftSize = 8192;
-    const fft = getFFT(fftSize);
+/**
+ * Blend weights for the XY Morphing pad at (x, y), both 0-1 from the top-left. Four corners
+ * are mixed bilinearly; three sit on a triangle (top-left, top-right, bottom-centre) and are
+ * mixed barycentrically. The weights always sum to 1.
+ */
+export function getXYWeights(cornerCount: number, x: number, y: number): number[] {
+    let weights: number[];
+    if (cornerCount === 4) {
+        weights = [(1 - x) * (1 - y), x * (1 - y), (1 - x) * y, x * y];
+    } else if (cornerCount === 3) {
+        weights = [1 - x - 0.5 * y, x - 0.5 * y, y].map(w => Math.max(0, w));
+    } else {
+        throw new Error('XY Morphing needs three or four corners.');
+    }
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => w / total);
+}
 
-    const data = buffer.getChannelData(0);
-    const chunk = data.length > fftSize ? data.slice(0, fftSize) : data;
-    
-    const real = new Float32Array(fftSize).fill(0);
-    real.set(chunk);
-    const imag = new Float32Array(fftSize).fill(0);
+/**
+ * Mixes the corner results of XY Morphing using the puck position. Equal-power crossfades use
+ * the square roots of the weights as gains.
+ */
+export function applyXYMorph(results: PcmBuffer[], params: TransformationParams): PcmBuffer {
+    const { morphX = 0.5, morphY = 0.5, morphCrossfade = 'linear' } = params;
+    const weights = getXYWeights(results.length, morphX, morphY);
+    const gains = morphCrossfade === 'equal-power' ? weights.map(Math.sqrt) : weights;
 
-    fft(real, imag, false);
+    const length = Math.max(...results.map(result => result.length));
+    const numChannels = Math.min(...results.map(result => result.numberOfChannels));
+    const resultBuffer = createPcmBuffer(numChannels, length, results[0].sampleRate);
 
-    const magnitudes: {freq: number, mag: number}[] = [];
-    for (let i = 1; i < fftSize / 2; i++) { // Ignore DC offset and Nyquist
-        magnitudes.push({
-            freq: i * sampleRate / fftSize,
-            mag: Math.sqrt(real[i]**2 + imag[i]**2)
+    for (let c = 0; c < numChannels; c++) {
+        const resultData = resultBuffer.getChannelData(c);
+        results.forEach((result, index) => {
+            if (gains[index] === 0) return;
+            const data = result.getChannelData(c);
+            for (let i = 0; i < data.length; i++) {
+                resultData[i] += data[i] * gains[index];
+            }
         });
     }
 
-    // Find peaks
-    const peaks = [];
-    for (let i = 1; i < magnitudes.length - 1; i++) {
-        if (magnitudes[i].mag > magnitudes[i-1].mag && magnitudes[i].mag > magnitudes[i+1].mag) {
-            peaks.push(magnitudes[i]);
-        }
-    }
-    
-    // Sort by magnitude and return top frequencies
-    return peaks
-        .sort((a, b) => b.mag - a.mag)
-        .slice(0, numHarmonics)
-        .map(p => p.freq);
+    return resultBuffer;
 }
 
 /**
- * Detects rhythmic transients in an audio buffer based on energy changes.
+ * Blends a chain stage's output with its input. The result is as long as the longer of the two
+ * and keeps the input's channel layout.
  */
-function detectTransients(buffer: AudioBuffer, threshold = 1.8, minSeparationMs = 50): number[] {
-    const data = buffer.getChannelData(0);
-    const sampleRate = buffer.sampleRate;
-    const minSeparation = Math.floor(sampleRate * (minSeparationMs / 1000));
-
-    const chunkSize = 512;
-    const energies = [];
-    for (let i = 0; i < data.length; i += chunkSize) {
-        let sumOfSquares = 0;
-        const end = Math.min(i + chunkSize, data.length);
-        for (let j = i; j < end; j++) {
-            sumOfSquares += data[j] * data[j];
-        }
-        energies.push(Math.sqrt(sumOfSquares / (end - i)));
-    }
+export function mixWetDry(dry: PcmBuffer, wet: PcmBuffer, mix: number): PcmBuffer {
+    const length = Math.max(dry.length, wet.length);
+    const numChannels = dry.numberOfChannels;
+    const resultBuffer = createPcmBuffer(numChannels, length, dry.sampleRate);
 
-    const transients: number[] = [0];
-    let lastTransient = 0;
-    for (let i = 1; i < energies.length; i++) {
-        if (energies[i] > energies[i - 1] * threshold) {
-            const sampleIndex = i * chunkSize;
-            if (sampleIndex - lastTransient > minSeparation) {
-                transients.push(sampleIndex);
-                lastTransient = sampleIndex;
-            }
+    for (let c = 0; c < numChannels; c++) {
+        const dryData = dry.getChannelData(c);
+        const wetData = wet.getChannelData(c % wet.numberOfChannels);
+        const resultData = resultBuffer.getChannelData(c);
+        for (let i = 0; i < length; i++) {
+            resultData[i] = (dryData[i] ?? 0) * (1 - mix) + (wetData[i] ?? 0) * mix;
         }
     }
-    
-    if (transients[transients.length - 1] < data.length - 1) {
-        transients.push(data.length - 1);
-    }
-    
-    return transients;
+
+    return resultBuffer;
 }
 
 
-function applyEnvelopeToBuffer(envelopeBuffer: AudioBuffer, targetBuffer: AudioBuffer): AudioBuffer {
-    const offlineCtx = new OfflineAudioContext(
-        targetBuffer.numberOfChannels,
-        targetBuffer.length,
-        targetBuffer.sampleRate
-    );
-    const resultBuffer = offlineCtx.createBuffer(
+// --- Helper Functions ---
+
+function applyEnvelopeToBuffer(envelopeBuffer: PcmBuffer, targetBuffer: PcmBuffer): PcmBuffer {
+    const resultBuffer = createPcmBuffer(
         targetBuffer.numberOfChannels,
         targetBuffer.length,
         targetBuffer.sampleRate
@@ -707,31 +1230,83 @@ function applyEnvelopeToBuffer(envelopeBuffer: AudioBuffer, targetBuffer: AudioB
     return resultBuffer;
 }
 
-function createEnvelopeFollower(context: BaseAudioContext, attack = 0.003, release = 0.25): AudioNode {
-    const rectifierGain = context.createGain();
-    const rectifierShaper = context.createWaveShaper();
-    rectifierShaper.curve = new Float32Array([1, 1]); // Full-wave rectification (absolute value)
-    
-    const smoother = context.createGain();
-    smoother.gain.value = 1; // This node is just for setting time constants
-    // The Web Audio API doesn't have a direct envelope follower, so we use a low-pass filter
-    // to smooth the rectified signal. A more advanced implementation might use a different method.
-    // For now, we simulate with a simple gain ramp, but a filter is more common.
-    // Let's stick with a filter as it's more robust.
-    const lowpass = context.createBiquadFilter();
-    lowpass.type = 'lowpass';
-    lowpass.frequency.value = 10; // A low frequency to smooth the signal into an envelope
-
-    rectifierGain.connect(rectifierShaper);
-    rectifierShaper.connect(lowpass);
-    
-    return rectifierGain; // The input to this node is where you connect the signal
+/**
+ * Picks `count` band centre frequencies along the BAND_FREQUENCIES curve.
+ * With the default band count this returns BAND_FREQUENCIES unchanged; other counts
+ * interpolate logarithmically between its entries.
+ */
+function getBandFrequencies(count: number): number[] {
+    const bandCount = Math.max(1, Math.round(count));
+    if (bandCount === BAND_FREQUENCIES.length) return [...BAND_FREQUENCIES];
+    if (bandCount === 1) return [BAND_FREQUENCIES[Math.floor(BAND_FREQUENCIES.length / 2)]];
+
+    const lastIndex = BAND_FREQUENCIES.length - 1;
+    const frequencies: number[] = [];
+    for (let b = 0; b < bandCount; b++) {
+        const position = (b / (bandCount - 1)) * lastIndex;
+        const lower = Math.floor(position);
+        const upper = Math.min(lastIndex, lower + 1);
+        const frac = position - lower;
+        const logFreq = Math.log(BAND_FREQUENCIES[lower]) * (1 - frac) + Math.log(BAND_FREQUENCIES[upper]) * frac;
+        frequencies.push(Math.exp(logFreq));
+    }
+    return frequencies;
+}
+
+type BiquadCoefficients = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+/**
+ * RBJ cookbook band-pass (constant 0dB peak gain), normalized so a0 = 1.
+ */
+function designBandpass(freq: number, q: number, sampleRate: number): BiquadCoefficients {
+    const w0 = 2 * Math.PI * freq / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    return {
+        b0: alpha / a0,
+        b1: 0,
+        b2: -alpha / a0,
+        a1: (-2 * Math.cos(w0)) / a0,
+        a2: (1 - alpha) / a0,
+    };
+}
+
+/**
+ * Runs a biquad (transposed direct form II) over `input`, producing `length` samples.
+ * Input beyond its own length is treated as silence.
+ */
+function applyBiquad(input: Float32Array, { b0, b1, b2, a1, a2 }: BiquadCoefficients, length = input.length): Float32Array {
+    const output = new Float32Array(length);
+    let z1 = 0;
+    let z2 = 0;
+    for (let i = 0; i < length; i++) {
+        const x = i < input.length ? input[i] : 0;
+        const y = b0 * x + z1;
+        z1 = b1 * x - a1 * y + z2;
+        z2 = b2 * x - a2 * y;
+        output[i] = y;
+    }
+    return output;
+}
+
+/**
+ * Peak envelope follower with separate attack and release smoothing coefficients.
+ */
+function followEnvelope(input: Float32Array, attackCoef: number, releaseCoef: number): Float32Array {
+    const output = new Float32Array(input.length);
+    let envelope = 0;
+    for (let i = 0; i < input.length; i++) {
+        const value = Math.abs(input[i]);
+        const coef = value > envelope ? attackCoef : releaseCoef;
+        envelope = coef * envelope + (1 - coef) * value;
+        output[i] = envelope;
+    }
+    return output;
 }
 
 
-async function getAmplitudeEnvelope(buffer: AudioBuffer, smoothing: number = 0.995): Promise<AudioBuffer> {
-    const offlineCtx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
-    const resultBuffer = offlineCtx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+function getAmplitudeEnvelope(buffer: PcmBuffer, smoothing: number = 0.995): PcmBuffer {
+    const resultBuffer = createPcmBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
 
     for(let c = 0; c < buffer.numberOfChannels; c++) {
         const inputData = buffer.getChannelData(c);
@@ -759,29 +1334,38 @@ async function getAmplitudeEnvelope(buffer: AudioBuffer, smoothing: number = 0.9
     return resultBuffer;
 }
 
-function trimSilence(buffer: AudioBuffer, threshold = 0.005): AudioBuffer {
-    const data = buffer.getChannelData(0);
-    let firstSample = 0;
-    for (let i = 0; i < data.length; i++) {
-        if (Math.abs(data[i]) > threshold) {
-            firstSample = i;
-            break;
-        }
+/**
+ * Renders an OfflineAudioContext while reporting progress and honouring cancellation.
+ * Progress comes from suspend() checkpoints spread across the render. An offline render
+ * cannot be stopped, so once the signal aborts the returned promise rejects straight away
+ * while the context keeps resuming past its checkpoints, finishes, and is discarded; a
+ * context left suspended would never be released.
+ */
+async function renderOffline(context: OfflineAudioContext, hooks: RenderHooks = {}): Promise<AudioBuffer> {
+    const { signal, onProgress } = hooks;
+    throwIfAborted(signal);
+
+    const duration = context.length / context.sampleRate;
+    const checkpoints = 20;
+    for (let i = 1; i < checkpoints; i++) {
+        const time = (duration * i) / checkpoints;
+        context.suspend(time).then(() => {
+            if (!signal?.aborted) onProgress?.(i / checkpoints);
+            context.resume();
+        }).catch(() => {
+            // Checkpoints that collapse onto the same render quantum are rejected; skip them.
+        });
     }
 
-    if (firstSample === 0) return buffer;
-
-    const newLength = buffer.length - firstSample;
-    const newBuffer = new AudioContext().createBuffer(buffer.numberOfChannels, newLength, buffer.sampleRate);
-
-    for(let i = 0; i < buffer.numberOfChannels; i++) {
-        newBuffer.copyToChannel(buffer.getChannelData(i).slice(firstSample), i);
-    }
-    
-    return newBuffer;
+    return new Promise<AudioBuffer>((resolve, reject) => {
+        const onAbort = () => reject(createAbortError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        context.startRendering()
+            .then(resolve, reject)
+            .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
 }
 
-
 // --- WAV Conversion ---
 // This has been moved to services/wavEncoder.ts
 export { bufferToWav };
@@ -0,0 +1,134 @@
+import type { Breakpoint, CurveMode, NumericParamKey, TransformationParams } from '../types';
+
+/**
+ * A control signal that varies a value over the length of a render.
+ */
+export interface ControlCurve {
+    mode: CurveMode;
+    // The static value, and the centre the LFO and envelope modes move around
+    value: number;
+    // Normalised to the render: time 0 is the first sample, 1 the last
+    breakpoints?: Breakpoint[];
+    lfoRate?: number;
+    // How far the LFO or envelope moves the value, 0-1
+    depth?: number;
+}
+
+// A straight ramp from 0 to 1 over the render
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = [{ time: 0, value: 0 }, { time: 1, value: 1 }];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Linearly interpolates a breakpoint envelope at `time`, holding the first and last values
+ * outside the points. Points do not need to be sorted.
+ */
+export function evaluateBreakpoints(breakpoints: Breakpoint[], time: number): number {
+    if (breakpoints.length === 0) return 0;
+    const points = [...breakpoints].sort((a, b) => a.time - b.time);
+    if (time <= points[0].time) return points[0].value;
+    for (let i = 1; i < points.length; i++) {
+        const next = points[i];
+        if (time <= next.time) {
+            const previous = points[i - 1];
+            const span = next.time - previous.time;
+            return span > 0 ? previous.value + (next.value - previous.value) * (time - previous.time) / span : next.value;
+        }
+    }
+    return points[points.length - 1].value;
+}
+
+/**
+ * Renders a breakpoint envelope to one value per sample, with time 0 at the first sample and 1
+ * at the last. Values are not clamped.
+ */
+export function renderBreakpoints(breakpoints: Breakpoint[], length: number): Float32Array {
+    const output = new Float32Array(length);
+    if (breakpoints.length === 0) return output;
+    const points = [...breakpoints].sort((a, b) => a.time - b.time);
+    const lastIndex = Math.max(1, length - 1);
+    let segment = 0;
+    for (let i = 0; i < length; i++) {
+        const time = i / lastIndex;
+        while (segment < points.length - 1 && time > points[segment + 1].time) segment++;
+        const previous = points[segment];
+        const next = points[Math.min(segment + 1, points.length - 1)];
+        const span = next.time - previous.time;
+        output[i] = time <= previous.time || span <= 0
+            ? previous.value
+            : previous.value + (next.value - previous.value) * Math.min(1, (time - previous.time) / span);
+    }
+    return output;
+}
+
+/**
+ * Renders a control curve to one value per sample, clamped to 0-1. The envelope mode follows
+ * `envelope` (normalised 0-1, one value per sample; silence past its end).
+ */
+export function renderControlCurve(curve: ControlCurve, length: number, sampleRate: number, envelope?: Float32Array): Float32Array {
+    const { mode, value, breakpoints = [], lfoRate = 0.5, depth = 1 } = curve;
+    const output = new Float32Array(length);
+
+    switch (mode) {
+        case 'breakpoints':
+            if (breakpoints.length === 0) return output.fill(clamp01(value));
+            return renderBreakpoints(breakpoints, length).map(clamp01);
+        case 'lfo':
+            for (let i = 0; i < length; i++) {
+                output[i] = clamp01(value + depth * 0.5 * Math.sin(2 * Math.PI * lfoRate * i / sampleRate));
+            }
+            return output;
+        case 'envelope':
+            for (let i = 0; i < length; i++) {
+                const level = envelope && i < envelope.length ? envelope[i] : 0;
+                output[i] = clamp01(value + depth * (level - value));
+            }
+            return output;
+        default:
+            return output.fill(clamp01(value));
+    }
+}
+
+// --- Parameter automation lanes ---
+
+/**
+ * The automation lane drawn for a param, or undefined when it holds its static value.
+ */
+export function getAutomationLane(params: TransformationParams, key: NumericParamKey): Breakpoint[] | undefined {
+    const lane = params.automation?.[key];
+    return lane && lane.length > 0 ? lane : undefined;
+}
+
+/**
+ * One value of a param per sample: its automation lane stretched over `length` samples, or
+ * `staticValue` throughout when the param is not automated.
+ */
+export function renderParam(params: TransformationParams, key: NumericParamKey, staticValue: number, length: number): Float32Array {
+    const lane = getAutomationLane(params, key);
+    return lane ? renderBreakpoints(lane, length) : new Float32Array(length).fill(staticValue);
+}
+
+/**
+ * Drives an AudioParam from a param's automation lane stretched over `duration` seconds, or sets
+ * it to `staticValue` when the param is not automated. `map` converts the param's value into the
+ * AudioParam's (e.g. a mix into a dry gain).
+ */
+export function scheduleParam(
+    audioParam: AudioParam,
+    params: TransformationParams,
+    key: NumericParamKey,
+    staticValue: number,
+    duration: number,
+    map: (value: number) => number = value => value,
+): void {
+    const lane = getAutomationLane(params, key);
+    if (!lane) {
+        audioParam.value = map(staticValue);
+        return;
+    }
+    const points = [...lane].sort((a, b) => a.time - b.time);
+    audioParam.setValueAtTime(map(points[0].value), 0);
+    for (const point of points) {
+        audioParam.linearRampToValueAtTime(map(point.value), Math.max(0, point.time) * duration);
+    }
+}
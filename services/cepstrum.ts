@@ -0,0 +1,27 @@
+import { getFFT } from './fft';
+import { EPSILON } from '../constants';
+
+/**
+ * The smooth spectral envelope of a magnitude spectrum, found by cepstral liftering: the log
+ * spectrum is taken to the real cepstrum, everything above quefrency `order` (the fine
+ * harmonic structure) is zeroed, and what is left is transformed back. `magnitude` is the full,
+ * symmetric spectrum of a power-of-two FFT; the envelope is returned as linear magnitudes.
+ */
+export function cepstralEnvelope(magnitude: Float32Array, order: number): Float32Array {
+    const size = magnitude.length;
+    const fft = getFFT(size);
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    for (let k = 0; k < size; k++) real[k] = Math.log(magnitude[k] + EPSILON);
+
+    fft(real, imag, true);
+    // The cepstrum of a real spectrum is symmetric, so the lifter keeps both ends
+    const cutoff = Math.max(0, Math.min(Math.floor(order), size / 2 - 1));
+    for (let n = cutoff + 1; n < size - cutoff; n++) real[n] = 0;
+    imag.fill(0);
+    fft(real, imag, false);
+
+    const envelope = new Float32Array(size);
+    for (let k = 0; k < size; k++) envelope[k] = Math.exp(real[k]);
+    return envelope;
+}
@@ -0,0 +1,125 @@
+import type { ChannelMode, PcmBuffer, RenderHooks } from '../types';
+import { createPcmBuffer, pcmFromChannels, scaleProgress } from './pcmBuffer';
+
+type ChannelRender = (source: PcmBuffer, target: PcmBuffer, hooks: RenderHooks) => Promise<PcmBuffer>;
+
+/**
+ * Decides which source audio drives which target channel, then merges the results so the
+ * output always has as many channels as the target.
+ *
+ * - linked: the source is folded to mono and drives every target channel together.
+ * - per-channel: source channel n drives target channel n (wrapping when the source has fewer).
+ * - mid-side: stereo pairs are encoded to mid/side, processed per channel, then decoded back.
+ *   Falls back to per-channel for anything that is not a stereo target.
+ */
+export async function renderWithChannelMode(
+    mode: ChannelMode,
+    source: PcmBuffer,
+    target: PcmBuffer,
+    hooks: RenderHooks,
+    render: ChannelRender
+): Promise<PcmBuffer> {
+    switch (mode) {
+        case 'linked':
+            return render(downmixToMono(source), target, hooks);
+        case 'mid-side': {
+            if (target.numberOfChannels !== 2) {
+                return renderPerChannel(source, target, hooks, render);
+            }
+            // A mono source has no side information, so let it drive both the mid and side channels
+            const sourceMidSide = source.numberOfChannels === 2 ? encodeMidSide(source) : source;
+            const result = await renderPerChannel(sourceMidSide, encodeMidSide(target), hooks, render);
+            return decodeMidSide(result);
+        }
+        case 'per-channel':
+        default:
+            return renderPerChannel(source, target, hooks, render);
+    }
+}
+
+async function renderPerChannel(source: PcmBuffer, target: PcmBuffer, hooks: RenderHooks, render: ChannelRender): Promise<PcmBuffer> {
+    const numChannels = target.numberOfChannels;
+    if (numChannels === 1 && source.numberOfChannels === 1) {
+        return render(source, target, hooks);
+    }
+
+    const results: PcmBuffer[] = [];
+    for (let c = 0; c < numChannels; c++) {
+        const result = await render(
+            extractChannel(source, c % source.numberOfChannels),
+            extractChannel(target, c),
+            scaleProgress(hooks, c / numChannels, (c + 1) / numChannels)
+        );
+        results.push(result);
+    }
+    return mergeChannels(results);
+}
+
+/**
+ * Averages all channels into a single channel.
+ */
+export function downmixToMono(buffer: PcmBuffer): PcmBuffer {
+    if (buffer.numberOfChannels === 1) return buffer;
+    return pcmFromChannels([getMonoData(buffer)], buffer.sampleRate);
+}
+
+/**
+ * Returns the channel average as a plain array (channel 0 itself for mono buffers).
+ * Analysis helpers use this so they listen to every channel, not just the first.
+ */
+export function getMonoData(buffer: PcmBuffer): Float32Array {
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < mono.length; i++) {
+            mono[i] += data[i];
+        }
+    }
+    const scale = 1 / buffer.numberOfChannels;
+    for (let i = 0; i < mono.length; i++) {
+        mono[i] *= scale;
+    }
+    return mono;
+}
+
+function extractChannel(buffer: PcmBuffer, channel: number): PcmBuffer {
+    return pcmFromChannels([buffer.getChannelData(channel)], buffer.sampleRate);
+}
+
+/**
+ * Stacks the first channel of each buffer into one multichannel buffer, padding shorter
+ * results with silence.
+ */
+function mergeChannels(buffers: PcmBuffer[]): PcmBuffer {
+    const length = Math.max(...buffers.map(buffer => buffer.length));
+    const merged = createPcmBuffer(buffers.length, length, buffers[0].sampleRate);
+    buffers.forEach((buffer, c) => merged.getChannelData(c).set(buffer.getChannelData(0)));
+    return merged;
+}
+
+function encodeMidSide(buffer: PcmBuffer): PcmBuffer {
+    const left = buffer.getChannelData(0);
+    const right = buffer.getChannelData(1);
+    const mid = new Float32Array(buffer.length);
+    const side = new Float32Array(buffer.length);
+    for (let i = 0; i < buffer.length; i++) {
+        mid[i] = (left[i] + right[i]) * 0.5;
+        side[i] = (left[i] - right[i]) * 0.5;
+    }
+    return pcmFromChannels([mid, side], buffer.sampleRate);
+}
+
+function decodeMidSide(buffer: PcmBuffer): PcmBuffer {
+    const mid = buffer.getChannelData(0);
+    const side = buffer.getChannelData(1);
+    const result = createPcmBuffer(2, buffer.length, buffer.sampleRate);
+    const left = result.getChannelData(0);
+    const right = result.getChannelData(1);
+    for (let i = 0; i < buffer.length; i++) {
+        left[i] = mid[i] + side[i];
+        right[i] = mid[i] - side[i];
+    }
+    return result;
+}
@@ -0,0 +1,102 @@
+import type { DynamicsMode, RenderHooks } from '../types';
+import { throwIfAborted } from './pcmBuffer';
+
+// The most any mode turns the target down, so expanding silence stays finite
+const MAX_REDUCTION_DB = -80;
+const PROGRESS_INTERVAL = 1 << 16;
+
+export interface DynamicsOptions {
+    mode: DynamicsMode;
+    // Per sample, so both can be automated
+    thresholdDb: Float32Array;
+    ratio: Float32Array;
+    // Width of the soft knee, centred on the threshold
+    kneeDb: number;
+    attackMs: number;
+    releaseMs: number;
+    // How long the detected level is held after a peak before it starts to release
+    holdMs: number;
+    // How far ahead of the target the key is read, so gain changes land before the transients
+    lookaheadMs: number;
+}
+
+/**
+ * Follows the key's level with a branching peak detector: it rises with the attack time
+ * constant, waits `holdMs` after the last peak, then falls with the release time constant.
+ */
+export function detectLevel(key: Float32Array, sampleRate: number, attackMs: number, releaseMs: number, holdMs: number): Float32Array {
+    const attackCoef = attackMs > 0 ? Math.exp(-1000 / (attackMs * sampleRate)) : 0;
+    const releaseCoef = releaseMs > 0 ? Math.exp(-1000 / (releaseMs * sampleRate)) : 0;
+    const holdLength = Math.round(holdMs * sampleRate / 1000);
+    const level = new Float32Array(key.length);
+    let envelope = 0;
+    let held = 0;
+    for (let i = 0; i < key.length; i++) {
+        const input = Math.abs(key[i]);
+        if (input >= envelope) {
+            envelope = input + attackCoef * (envelope - input);
+            held = holdLength;
+        } else if (held > 0) {
+            held--;
+        } else {
+            envelope = input + releaseCoef * (envelope - input);
+        }
+        level[i] = envelope;
+    }
+    return level;
+}
+
+/**
+ * The static gain curve, in dB (0 or less) for a key level in dB:
+ * - compress: above the threshold, the level rises only 1/ratio dB per dB
+ * - expand: below the threshold, the level falls ratio dB per dB
+ * - gate: below the threshold the target is shut off; the ratio is not used
+ * Within the knee the curve bends smoothly between its two straight parts.
+ */
+export function gainComputer(mode: DynamicsMode, levelDb: number, thresholdDb: number, ratio: number, kneeDb: number): number {
+    const overshoot = levelDb - thresholdDb;
+    const halfKnee = kneeDb / 2;
+    let gain: number;
+    switch (mode) {
+        case 'expand':
+            if (overshoot >= halfKnee) gain = 0;
+            else if (overshoot > -halfKnee) gain = -(ratio - 1) * (halfKnee - overshoot) ** 2 / (2 * kneeDb);
+            else gain = overshoot * (ratio - 1);
+            break;
+        case 'gate':
+            if (overshoot >= halfKnee) gain = 0;
+            else if (overshoot > -halfKnee) gain = MAX_REDUCTION_DB * (halfKnee - overshoot) / kneeDb;
+            else gain = MAX_REDUCTION_DB;
+            break;
+        case 'compress':
+        default:
+            if (overshoot <= -halfKnee) gain = 0;
+            else if (overshoot < halfKnee) gain = (1 / ratio - 1) * (overshoot + halfKnee) ** 2 / (2 * kneeDb);
+            else gain = overshoot * (1 / ratio - 1);
+    }
+    return Math.max(MAX_REDUCTION_DB, gain);
+}
+
+/**
+ * The gain (linear) to apply to each of `length` target samples, keyed by `key`. The key may be
+ * shorter than the target; past its end it is silent.
+ */
+export function sidechainGains(key: Float32Array, length: number, sampleRate: number, options: DynamicsOptions, hooks: RenderHooks = {}): Float32Array {
+    const { mode, thresholdDb, ratio, kneeDb, attackMs, releaseMs, holdMs, lookaheadMs } = options;
+    const padded = new Float32Array(length);
+    padded.set(key.subarray(0, length));
+    const level = detectLevel(padded, sampleRate, attackMs, releaseMs, holdMs);
+    const lookahead = Math.round(lookaheadMs * sampleRate / 1000);
+
+    const gains = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        if (i % PROGRESS_INTERVAL === 0) {
+            throwIfAborted(hooks.signal);
+            hooks.onProgress?.(i / length);
+        }
+        const ahead = Math.min(length - 1, i + lookahead);
+        const levelDb = 20 * Math.log10(level[ahead] + 1e-9);
+        gains[i] = Math.pow(10, gainComputer(mode, levelDb, thresholdDb[i], ratio[i], kneeDb) / 20);
+    }
+    return gains;
+}
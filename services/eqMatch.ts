@@ -0,0 +1,196 @@
+import type { PcmBuffer, RenderHooks, EqMatchPhase } from '../types';
+import { getFFT } from './fft';
+import { getMonoData } from './channelMapping';
+import { createPcmBuffer, throwIfAborted } from './pcmBuffer';
+
+// Spectrum resolution for the analysis, and the length of the matching filter
+export const EQ_FFT_SIZE = 8192;
+// Below this the curve holds its value, so subsonic noise does not steer it
+const MIN_MATCH_FREQUENCY = 20;
+const EPSILON = 1e-12;
+
+export interface EqMatchOptions {
+    // Width of the smoothing: 3 averages over a third of an octave
+    bandsPerOctave: number;
+    // 0-1: how much of the difference is corrected
+    amount: number;
+    // dB limits on the correction, both positive
+    maxBoost: number;
+    maxCut: number;
+}
+
+const hann = (size: number) => Float32Array.from({ length: size }, (_, i) => 0.5 * (1 - Math.cos(2 * Math.PI * i / size)));
+
+/**
+ * The long-term average power spectrum of a buffer (downmixed): Hann-windowed power spectra
+ * averaged over half-overlapping frames (Welch's method), bins 0 to Nyquist. It is normalised
+ * to a total of 1, so two spectra compare tonal balance rather than level.
+ */
+export function averageSpectrum(buffer: PcmBuffer, fftSize: number = EQ_FFT_SIZE): Float32Array {
+    const data = getMonoData(buffer);
+    const fft = getFFT(fftSize);
+    const window = hann(fftSize);
+    const hop = fftSize / 2;
+    const numFrames = Math.max(1, Math.floor((data.length - fftSize) / hop) + 1);
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    const power = new Float64Array(fftSize / 2 + 1);
+
+    for (let frame = 0; frame < numFrames; frame++) {
+        const start = frame * hop;
+        for (let i = 0; i < fftSize; i++) real[i] = start + i < data.length ? data[start + i] * window[i] : 0;
+        imag.fill(0);
+        fft(real, imag, false);
+        for (let k = 0; k < power.length; k++) power[k] += real[k] * real[k] + imag[k] * imag[k];
+    }
+
+    const total = power.reduce((a, b) => a + b, 0);
+    return Float32Array.from(power, value => (total > 0 ? value / total : 0));
+}
+
+/**
+ * Re-maps an average spectrum measured at one sample rate onto the bins of the same FFT size
+ * at another, by frequency, as if the buffer had been resampled first. Bins above the
+ * original Nyquist frequency are empty, and the result is normalised again.
+ */
+export function resampleSpectrum(spectrum: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) return spectrum;
+    const lastBin = spectrum.length - 1;
+    const mapped = spectrum.map((_, k) => {
+        const position = k * toRate / fromRate;
+        if (position > lastBin) return 0;
+        const bin = Math.floor(position);
+        const next = Math.min(bin + 1, lastBin);
+        return spectrum[bin] + (spectrum[next] - spectrum[bin]) * (position - bin);
+    });
+    const total = mapped.reduce((a, b) => a + b, 0);
+    return total > 0 ? mapped.map(value => value / total) : mapped;
+}
+
+/**
+ * Averages a power spectrum over a fractional-octave band around each bin.
+ */
+function smoothSpectrum(power: Float32Array, bandsPerOctave: number): Float32Array {
+    const cumulative = new Float64Array(power.length + 1);
+    for (let k = 0; k < power.length; k++) cumulative[k + 1] = cumulative[k] + power[k];
+    const halfBand = Math.pow(2, 1 / (2 * bandsPerOctave));
+    return power.map((_, k) => {
+        const low = Math.max(0, Math.floor(k / halfBand));
+        const high = Math.min(power.length - 1, Math.max(k, Math.ceil(k * halfBand)));
+        return (cumulative[high + 1] - cumulative[low]) / (high - low + 1);
+    });
+}
+
+/**
+ * The EQ curve, in dB per bin, that moves the target's long-term spectrum towards the
+ * source's: the ratio of the two smoothed spectra, scaled by the amount and limited to the
+ * boost and cut ranges.
+ */
+export function matchingCurve(source: Float32Array, target: Float32Array, sampleRate: number, { bandsPerOctave, amount, maxBoost, maxCut }: EqMatchOptions): Float32Array {
+    const smoothedSource = smoothSpectrum(source, bandsPerOctave);
+    const smoothedTarget = smoothSpectrum(target, bandsPerOctave);
+    const fftSize = 2 * (source.length - 1);
+    const firstBin = Math.min(source.length - 1, Math.ceil(MIN_MATCH_FREQUENCY * fftSize / sampleRate));
+
+    const curve = new Float32Array(source.length);
+    for (let k = firstBin; k < curve.length; k++) {
+        const difference = 10 * Math.log10((smoothedSource[k] + EPSILON) / (smoothedTarget[k] + EPSILON));
+        curve[k] = Math.min(maxBoost, Math.max(-maxCut, difference * amount));
+    }
+    curve.fill(curve[firstBin], 0, firstBin);
+    return curve;
+}
+
+/**
+ * Designs an FIR filter with the magnitude response of `curveDb` (bins 0 to Nyquist), as
+ * `2 * (curveDb.length - 1)` taps. The linear-phase design is the windowed, centred impulse
+ * response of the zero-phase filter, and delays by half its length (`latency`). The
+ * minimum-phase design comes from the folded real cepstrum of the log magnitude; it has no
+ * delay and no pre-ringing, but shifts phase.
+ */
+export function designMatchingFilter(curveDb: Float32Array, phase: EqMatchPhase): { taps: Float32Array; latency: number } {
+    const size = 2 * (curveDb.length - 1);
+    const half = size / 2;
+    const fft = getFFT(size);
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    // The full, symmetric spectrum
+    const gainAt = (k: number) => curveDb[k <= half ? k : size - k];
+
+    if (phase === 'minimum') {
+        for (let k = 0; k < size; k++) real[k] = gainAt(k) * Math.LN10 / 20;
+        fft(real, imag, true);
+        // Folding the cepstrum onto positive quefrencies makes the response minimum-phase
+        for (let n = 1; n < half; n++) real[n] *= 2;
+        real.fill(0, half + 1);
+        imag.fill(0);
+        fft(real, imag, false);
+        for (let k = 0; k < size; k++) {
+            const magnitude = Math.exp(real[k]);
+            const angle = imag[k];
+            real[k] = magnitude * Math.cos(angle);
+            imag[k] = magnitude * Math.sin(angle);
+        }
+        fft(real, imag, true);
+        // Fade out the second half, where little energy is left
+        const taps = real.map((value, n) => (n < half ? value : value * 0.5 * (1 + Math.cos(Math.PI * (n - half) / half))));
+        return { taps, latency: 0 };
+    }
+
+    for (let k = 0; k < size; k++) real[k] = Math.pow(10, gainAt(k) / 20);
+    fft(real, imag, true);
+    const window = hann(size);
+    const taps = new Float32Array(size);
+    for (let n = 0; n < size; n++) taps[n] = real[(n + half) % size] * window[n];
+    return { taps, latency: half };
+}
+
+/**
+ * Filters every channel of a buffer with the matching EQ curve (see designMatchingFilter),
+ * by FFT overlap-add. The filter's latency is removed, so the result lines up with the input
+ * and has the same length.
+ */
+export function applyMatchingEq(buffer: PcmBuffer, curveDb: Float32Array, phase: EqMatchPhase, hooks: RenderHooks = {}): PcmBuffer {
+    const { numberOfChannels, length, sampleRate } = buffer;
+    const { taps, latency } = designMatchingFilter(curveDb, phase);
+    const blockSize = taps.length;
+    const fftSize = 2 * blockSize;
+    const fft = getFFT(fftSize);
+    const filterReal = new Float32Array(fftSize);
+    const filterImag = new Float32Array(fftSize);
+    filterReal.set(taps);
+    fft(filterReal, filterImag, false);
+
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    const result = createPcmBuffer(numberOfChannels, length, sampleRate);
+    const numBlocks = Math.ceil((length + latency) / blockSize);
+    for (let c = 0; c < numberOfChannels; c++) {
+        const input = buffer.getChannelData(c);
+        const output = result.getChannelData(c);
+        for (let block = 0; block < numBlocks; block++) {
+            if (block % 16 === 0) {
+                throwIfAborted(hooks.signal);
+                hooks.onProgress?.((c * numBlocks + block) / (numberOfChannels * numBlocks));
+            }
+            const start = block * blockSize;
+            real.fill(0);
+            imag.fill(0);
+            for (let i = 0; i < blockSize && start + i < length; i++) real[i] = input[start + i];
+            fft(real, imag, false);
+            for (let k = 0; k < fftSize; k++) {
+                const re = real[k] * filterReal[k] - imag[k] * filterImag[k];
+                const im = real[k] * filterImag[k] + imag[k] * filterReal[k];
+                real[k] = re;
+                imag[k] = im;
+            }
+            fft(real, imag, true);
+            // Output sample i is convolution sample i + latency
+            for (let i = 0; i < fftSize; i++) {
+                const index = start + i - latency;
+                if (index >= 0 && index < length) output[index] += real[i];
+            }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,130 @@
+import type { PcmBuffer, ModulationFeature } from '../types';
+import { getFFT } from './fft';
+import { getMonoData } from './channelMapping';
+import { detectOnsets } from './onsetDetector';
+
+const FRAME_SIZE = 2048;
+export const FEATURE_HOP = 1024;
+// Centroids are placed on a log-frequency scale from here up to Nyquist
+const MIN_CENTROID_FREQ = 50;
+// Onsets are counted over this window, centred on each frame
+const DENSITY_WINDOW_SECONDS = 1;
+const SILENCE = 1e-6;
+
+const hannWindow = (() => {
+    const window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / FRAME_SIZE));
+    }
+    return window;
+})();
+
+function normaliseToPeak(values: Float32Array): Float32Array {
+    let peak = 0;
+    for (let i = 0; i < values.length; i++) peak = Math.max(peak, values[i]);
+    if (peak > 0) {
+        for (let i = 0; i < values.length; i++) values[i] /= peak;
+    }
+    return values;
+}
+
+function frameCount(length: number): number {
+    return Math.floor(length / FEATURE_HOP) + 1;
+}
+
+function extractRms(data: Float32Array): Float32Array {
+    const values = new Float32Array(frameCount(data.length));
+    for (let frame = 0; frame < values.length; frame++) {
+        const start = Math.max(0, frame * FEATURE_HOP - FRAME_SIZE / 2);
+        const end = Math.min(data.length, frame * FEATURE_HOP + FRAME_SIZE / 2);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += data[i] * data[i];
+        values[frame] = end > start ? Math.sqrt(sum / (end - start)) : 0;
+    }
+    return normaliseToPeak(values);
+}
+
+function extractSpectralCentroid(data: Float32Array, sampleRate: number): Float32Array {
+    const values = new Float32Array(frameCount(data.length));
+    const fft = getFFT(FRAME_SIZE);
+    const real = new Float32Array(FRAME_SIZE);
+    const imag = new Float32Array(FRAME_SIZE);
+    const nyquist = sampleRate / 2;
+    const range = Math.log2(nyquist / MIN_CENTROID_FREQ);
+    let previous = 0;
+
+    for (let frame = 0; frame < values.length; frame++) {
+        const start = frame * FEATURE_HOP - FRAME_SIZE / 2;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const index = start + i;
+            real[i] = index >= 0 && index < data.length ? data[index] * hannWindow[i] : 0;
+            imag[i] = 0;
+        }
+        fft(real, imag, false);
+
+        let weighted = 0;
+        let total = 0;
+        for (let bin = 1; bin <= FRAME_SIZE / 2; bin++) {
+            const magnitude = Math.hypot(real[bin], imag[bin]);
+            weighted += magnitude * bin * sampleRate / FRAME_SIZE;
+            total += magnitude;
+        }
+        // Silent frames have no centroid, so they hold the last one instead of dropping to 0
+        if (total > SILENCE) {
+            const centroid = Math.max(MIN_CENTROID_FREQ, weighted / total);
+            previous = Math.min(1, Math.log2(centroid / MIN_CENTROID_FREQ) / range);
+        }
+        values[frame] = previous;
+    }
+    return values;
+}
+
+function extractOnsetDensity(buffer: PcmBuffer): Float32Array {
+    const values = new Float32Array(frameCount(buffer.length));
+    const onsets = detectOnsets(buffer);
+    const halfWindow = DENSITY_WINDOW_SECONDS * buffer.sampleRate / 2;
+    let first = 0;
+    let last = 0;
+
+    for (let frame = 0; frame < values.length; frame++) {
+        const centre = frame * FEATURE_HOP;
+        while (first < onsets.length && onsets[first] < centre - halfWindow) first++;
+        while (last < onsets.length && onsets[last] <= centre + halfWindow) last++;
+        values[frame] = last - first;
+    }
+    return normaliseToPeak(values);
+}
+
+/**
+ * Measures a feature of a buffer (downmixed to mono) with one value per `FEATURE_HOP` samples;
+ * frame `n` is centred on sample `n * FEATURE_HOP`. Values are 0-1:
+ *
+ * - rms: loudness, normalised to the loudest frame.
+ * - spectral-centroid: brightness, on a log-frequency scale from 50 Hz to Nyquist.
+ * - onset-density: onsets within a one-second window, normalised to the busiest frame.
+ */
+export function extractFeature(buffer: PcmBuffer, feature: ModulationFeature): Float32Array {
+    switch (feature) {
+        case 'spectral-centroid':
+            return extractSpectralCentroid(getMonoData(buffer), buffer.sampleRate);
+        case 'onset-density':
+            return extractOnsetDensity(buffer);
+        default:
+            return extractRms(getMonoData(buffer));
+    }
+}
+
+/**
+ * One-pole smoothing of a feature, with a time constant of `smoothingMs`.
+ */
+export function smoothFeature(values: Float32Array, smoothingMs: number, sampleRate: number): Float32Array {
+    if (smoothingMs <= 0 || values.length === 0) return values;
+    const coefficient = Math.exp(-FEATURE_HOP / (sampleRate * smoothingMs / 1000));
+    const smoothed = new Float32Array(values.length);
+    let state = values[0];
+    for (let i = 0; i < values.length; i++) {
+        state = values[i] + coefficient * (state - values[i]);
+        smoothed[i] = state;
+    }
+    return smoothed;
+}
@@ -0,0 +1,72 @@
+// A self-contained, simple Radix-2 FFT implementation.
+const fftCache = new Map();
+
+/**
+ * Returns a cached in-place transform `(real, imag, invert)` for a power-of-two size.
+ */
+export function getFFT(size: number) {
+    if (size <= 0 || (size & (size - 1)) !== 0) {
+        throw new Error('FFT size must be a power of two');
+    }
+    if (fftCache.has(size)) return fftCache.get(size);
+    
+    const bitReverse = new Uint32Array(size);
+    const log2size = Math.log2(size);
+    for (let i = 0; i < size; i++) {
+        let p = 0;
+        for (let j = 0; j < log2size; j++) {
+            if ((i >> j) & 1) {
+                p |= 1 << (log2size - 1 - j);
+            }
+        }
+        bitReverse[i] = p;
+    }
+
+    const sinTable = new Float32Array(size);
+    const cosTable = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+        sinTable[i] = Math.sin(2 * Math.PI * i / size);
+        cosTable[i] = Math.cos(2 * Math.PI * i / size);
+    }
+    
+    const fft = (real: Float32Array, imag: Float32Array, invert: boolean) => {
+        // Bit-reversal permutation
+        for (let i = 0; i < size; i++) {
+            const j = bitReverse[i];
+            if (j > i) {
+                [real[i], real[j]] = [real[j], real[i]];
+                [imag[i], imag[j]] = [imag[j], imag[i]];
+            }
+        }
+
+        // Cooley-Tukey FFT
+        for (let len = 2; len <= size; len <<= 1) {
+            const halfLen = len >> 1;
+            const tableStep = size / len;
+            for (let i = 0; i < size; i += len) {
+                for (let j = 0; j < halfLen; j++) {
+                    const k = j * tableStep;
+                    const t_re = cosTable[k];
+                    const t_im = (invert ? 1 : -1) * sinTable[k];
+                    const p_re = real[i + j + halfLen];
+                    const p_im = imag[i + j + halfLen];
+                    const u_re = real[i + j];
+                    const u_im = imag[i + j];
+                    
+                    real[i + j] = u_re + p_re * t_re - p_im * t_im;
+                    imag[i + j] = u_im + p_re * t_im + p_im * t_re;
+                    real[i + j + halfLen] = u_re - (p_re * t_re - p_im * t_im);
+                    imag[i + j + halfLen] = u_im - (p_re * t_im + p_im * t_re);
+                }
+            }
+        }
+        if(invert){
+            for(let i=0; i<size; i++){
+                real[i] /= size;
+                imag[i] /= size;
+            }
+        }
+    };
+    fftCache.set(size, fft);
+    return fft;
+}
@@ -0,0 +1,204 @@
+import type { PcmBuffer } from '../types';
+import { getFFT } from './fft';
+import { getMonoData } from './channelMapping';
+import { resample } from './resampler';
+
+const FRAME_SECONDS = 0.025;
+export const FORMANT_HOP_SECONDS = 0.01;
+const PRE_EMPHASIS = 0.97;
+const ENVELOPE_FFT_SIZE = 512;
+// Resonances below this are the glottal source rather than the vocal tract
+const MIN_FORMANT_FREQ = 90;
+// Frames more than 40dB below the loudest are treated as silence and hold the tracks
+const VOICED_FLOOR = 0.01;
+// A track may move by up to this ratio between frames before a miss is cheaper than a match
+const MAX_JUMP = 1.5;
+// Leaving a resonance unexplained costs this much, so tracks shuffle along to take up new formants
+const SKIP_COST = 0.5 * Math.log(MAX_JUMP);
+// Tracks start stale so the first voiced frame is taken as it comes
+const INITIAL_STALENESS = 10;
+const MEDIAN_FRAMES = 5;
+
+/**
+ * Formant frequencies in Hz over time, one value per track per frame. Frame `n` is centred on
+ * `n * FORMANT_HOP_SECONDS`.
+ */
+export interface FormantTracks {
+    frequencies: Float32Array[];
+}
+
+/**
+ * Linear prediction coefficients by the autocorrelation method (Levinson-Durbin). Returns
+ * a[0..order] of the inverse filter A(z) = 1 + a1 z^-1 + ..., or null for a silent frame.
+ */
+export function lpcCoefficients(frame: Float32Array, order: number): Float64Array | null {
+    const r = new Float64Array(order + 1);
+    for (let lag = 0; lag <= order; lag++) {
+        let sum = 0;
+        for (let i = lag; i < frame.length; i++) sum += frame[i] * frame[i - lag];
+        r[lag] = sum;
+    }
+    if (r[0] <= 0) return null;
+    // A touch of white noise keeps the recursion stable on very pure signals
+    r[0] *= 1 + 1e-9;
+
+    const a = new Float64Array(order + 1);
+    const previous = new Float64Array(order + 1);
+    a[0] = 1;
+    let error = r[0];
+    for (let i = 1; i <= order; i++) {
+        let acc = r[i];
+        for (let j = 1; j < i; j++) acc += a[j] * r[i - j];
+        const reflection = -acc / error;
+        previous.set(a);
+        for (let j = 1; j < i; j++) a[j] = previous[j] + reflection * previous[i - j];
+        a[i] = reflection;
+        error *= 1 - reflection * reflection;
+        if (error <= 0) break;
+    }
+    return a;
+}
+
+/**
+ * The resonances of an LPC model: peaks of its spectral envelope 1/|A|, refined by parabolic
+ * interpolation and returned in ascending Hz.
+ */
+export function lpcFormants(coefficients: Float64Array, sampleRate: number): number[] {
+    const fft = getFFT(ENVELOPE_FFT_SIZE);
+    const real = new Float32Array(ENVELOPE_FFT_SIZE);
+    const imag = new Float32Array(ENVELOPE_FFT_SIZE);
+    real.set(coefficients.subarray(0, ENVELOPE_FFT_SIZE));
+    fft(real, imag, false);
+
+    const numBins = ENVELOPE_FFT_SIZE / 2 + 1;
+    const logEnvelope = new Float32Array(numBins);
+    for (let k = 0; k < numBins; k++) logEnvelope[k] = -Math.log(real[k] * real[k] + imag[k] * imag[k] + 1e-12);
+
+    const formants: number[] = [];
+    for (let k = 1; k < numBins - 1; k++) {
+        const [left, centre, right] = [logEnvelope[k - 1], logEnvelope[k], logEnvelope[k + 1]];
+        if (centre <= left || centre < right) continue;
+        const curvature = left - 2 * centre + right;
+        const offset = curvature < 0 ? 0.5 * (left - right) / curvature : 0;
+        const frequency = (k + offset) * sampleRate / ENVELOPE_FFT_SIZE;
+        if (frequency >= MIN_FORMANT_FREQ) formants.push(frequency);
+    }
+    return formants;
+}
+
+/**
+ * Matches this frame's candidates to the tracks, keeping both in frequency order. Leaving a track
+ * unmatched costs more the longer it has gone unmatched, so a track that lost its formant
+ * eventually jumps to wherever it went. Returns the candidate index for each track, or -1.
+ */
+function matchCandidates(previous: number[], staleness: number[], candidates: number[]): number[] {
+    const tracks = previous.length;
+    const count = candidates.length;
+    const missCost = (i: number) => Math.log(MAX_JUMP) * (1 + staleness[i]);
+    // cost[i][j]: the best assignment of the first i tracks using the first j candidates
+    const cost = Array.from({ length: tracks + 1 }, () => new Float64Array(count + 1));
+    for (let j = 1; j <= count; j++) cost[0][j] = cost[0][j - 1] + SKIP_COST;
+    for (let i = 1; i <= tracks; i++) cost[i][0] = cost[i - 1][0] + missCost(i - 1);
+    for (let i = 1; i <= tracks; i++) {
+        for (let j = 1; j <= count; j++) {
+            const match = cost[i - 1][j - 1] + Math.abs(Math.log(candidates[j - 1] / previous[i - 1]));
+            cost[i][j] = Math.min(match, cost[i - 1][j] + missCost(i - 1), cost[i][j - 1] + SKIP_COST);
+        }
+    }
+
+    const assignment = new Array<number>(tracks).fill(-1);
+    let i = tracks;
+    let j = count;
+    while (i > 0) {
+        if (j > 0 && cost[i][j] === cost[i][j - 1] + SKIP_COST) {
+            j--;
+        } else if (j > 0 && cost[i][j] !== cost[i - 1][j] + missCost(i - 1)) {
+            assignment[i - 1] = j - 1;
+            i--;
+            j--;
+        } else {
+            i--;
+        }
+    }
+    return assignment;
+}
+
+function medianFilter(values: Float32Array, size: number): Float32Array {
+    const result = new Float32Array(values.length);
+    const half = Math.floor(size / 2);
+    for (let n = 0; n < values.length; n++) {
+        const window = Array.from(values.subarray(Math.max(0, n - half), Math.min(values.length, n + half + 1)));
+        window.sort((a, b) => a - b);
+        result[n] = window[Math.floor(window.length / 2)];
+    }
+    return result;
+}
+
+/**
+ * Tracks the first `numFormants` formants of a buffer over time. Each 25 ms frame is
+ * downsampled to just cover the formants asked for, pre-emphasised and modelled by LPC; the
+ * envelope peaks are then linked to the tracks of the frame before. Silent frames hold the
+ * previous values. Returns null when the whole buffer is silent.
+ */
+export function trackFormants(buffer: PcmBuffer, numFormants: number): FormantTracks | null {
+    // Roughly one formant per kHz, plus headroom above the highest
+    const analysisRate = Math.min(buffer.sampleRate, 2 * (1000 * (numFormants + 1) + 500));
+    const step = buffer.sampleRate / analysisRate;
+    const mono = getMonoData(buffer);
+    const data = step > 1 ? resample(mono, step, Math.floor(mono.length / step)) : mono;
+    const order = 2 + Math.round(analysisRate / 1000);
+
+    const frameLength = Math.round(FRAME_SECONDS * analysisRate);
+    const hop = FORMANT_HOP_SECONDS * analysisRate;
+    const numFrames = Math.floor(data.length / hop) + 1;
+    const hamming = new Float32Array(frameLength);
+    for (let i = 0; i < frameLength; i++) hamming[i] = 0.54 - 0.46 * Math.cos(2 * Math.PI * i / (frameLength - 1));
+
+    const frameStart = (n: number) => Math.round(n * hop) - Math.floor(frameLength / 2);
+    const sampleAt = (index: number) => (index >= 0 && index < data.length ? data[index] : 0);
+
+    // Levels first, so quiet frames can be judged against the loudest
+    const energy = new Float32Array(numFrames);
+    let loudest = 0;
+    for (let n = 0; n < numFrames; n++) {
+        const start = frameStart(n);
+        let sum = 0;
+        for (let i = 0; i < frameLength; i++) sum += sampleAt(start + i) ** 2;
+        energy[n] = Math.sqrt(sum / frameLength);
+        loudest = Math.max(loudest, energy[n]);
+    }
+    if (loudest === 0) return null;
+
+    // Tracks start on a neutral vowel, with formants at odd multiples of 500 Hz
+    let previous = Array.from({ length: numFormants }, (_, i) => Math.min(500 * (2 * i + 1), analysisRate / 2 - 100));
+    const staleness = new Array<number>(numFormants).fill(INITIAL_STALENESS);
+    const frequencies = Array.from({ length: numFormants }, () => new Float32Array(numFrames));
+
+    const frame = new Float32Array(frameLength);
+    for (let n = 0; n < numFrames; n++) {
+        if (energy[n] <= loudest * VOICED_FLOOR) {
+            previous.forEach((frequency, i) => { frequencies[i][n] = frequency; });
+            continue;
+        }
+        const start = frameStart(n);
+        for (let i = 0; i < frameLength; i++) {
+            frame[i] = (sampleAt(start + i) - PRE_EMPHASIS * sampleAt(start + i - 1)) * hamming[i];
+        }
+        const coefficients = lpcCoefficients(frame, order);
+        if (coefficients) {
+            const candidates = lpcFormants(coefficients, analysisRate);
+            const assignment = matchCandidates(previous, staleness, candidates);
+            previous = previous.map((frequency, i) => {
+                if (assignment[i] < 0) {
+                    staleness[i]++;
+                    return frequency;
+                }
+                staleness[i] = 0;
+                return candidates[assignment[i]];
+            });
+        }
+        previous.forEach((frequency, i) => { frequencies[i][n] = frequency; });
+    }
+
+    return { frequencies: frequencies.map(track => medianFilter(track, MEDIAN_FRAMES)) };
+}
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { TransformationType } from '../types';
+import { TRANSFORMATIONS } from './transformationRegistry';
 
 const API_KEY = process.env.API_KEY;
 
@@ -31,7 +32,8 @@ export async function generateSoundName(
   targetName: string,
   transformation: TransformationType,
   morphA?: TransformationType,
-  morphB?: TransformationType
+  morphB?: TransformationType,
+  chain?: TransformationType[]
 ): Promise<string[]> {
   if (!ai) {
     throw new Error("Gemini API client not configured.");
@@ -41,7 +43,14 @@ export async function generateSoundName(
   if (transformation === TransformationType.TRANSFORMATION_MORPH) {
     transformationDescription += ` This was a morph between two techniques: "${morphA}" (A) and "${morphB}" (B).`;
   }
+  if (transformation === TransformationType.TRANSFORMATION_CHAIN && chain?.length) {
+    transformationDescription += ` The chain applied these techniques in order: ${chain.map(type => `"${type}"`).join(' → ')}.`;
+  }
   
+  const techniqueDescriptions = TRANSFORMATIONS
+    .map(definition => `    - "${definition.id}": ${definition.aiDescription}`)
+    .join('\n');
+
   const prompt = `
     I have created a new sound using a digital audio technique. I need some creative names for it.
     
@@ -52,18 +61,7 @@ export async function generateSoundName(
     ${transformationDescription}
 
     Here are descriptions of the techniques:
-    - "${TransformationType.AMPLITUDE}": The rhythm and volume shape of the source was applied to the target.
-    - "${TransformationType.SPECTRAL}": The tonal color and frequency character of the source was imprinted onto the target.
-    - "${TransformationType.RHYTHMIC}": The percussive hits of the source were used to trigger the target sound.
-    - "${TransformationType.CONVOLUTION}": The resonance and acoustic space of the source was applied to the target.
-    - "${TransformationType.TIME_WARP}": The rhythmic timing of the source was applied to the target, stretching and shrinking it to match the source's groove.
-    - "${TransformationType.SURFACE_TRANSLATE}": The texture of the target sound was re-sequenced according to the waveform shape of the source.
-    - "${TransformationType.FOURIER_MASKING}": The raw frequency-by-frequency power of the source was applied to the target's sound structure, creating a direct spectral merge.
-    - "${TransformationType.HARMONIC_IMPRINT}": The distinct musical notes and overtones from the source were found and used to create resonant echoes in the target.
-    - "${TransformationType.INTERFERENCE_ECHOES}": Rhythmic events in the source audio were used to trigger cascading, feedback-driven echoes of the target audio, creating a complex, interactive delay effect.
-    - "${TransformationType.FORMANT_SHIFTING}": The key resonant frequencies that define the 'vowel' character of the source sound were identified and used to create a set of resonant filters that re-shaped the target sound, giving it the vocal quality of the source.
-    - "${TransformationType.DYNAMIC_RING_MOD}": The amplitude of the source sound was used to dynamically control the frequency of a sine wave oscillator, which was then multiplied with the target sound to create shifting, metallic, and bell-like textures.
-    - "${TransformationType.TRANSFORMATION_MORPH}": A smooth blend was created between the results of two different transformation techniques (A and B).
+${techniqueDescriptions}
 
     Based on this information, generate a list of 5 creative, evocative, and interesting names for the resulting sound. The names should be short (2-4 words). Avoid generic or technical terms. Think artistically.
   `;
@@ -0,0 +1,154 @@
+import type { PcmBuffer, RenderHooks, GrainWindow } from '../types';
+import { createPcmBuffer, throwIfAborted } from './pcmBuffer';
+
+/**
+ * One grain of the cloud. Positions and lengths are in samples.
+ */
+export interface Grain {
+    // Where the grain starts in the output
+    start: number;
+    // Where it starts reading in the target (may be fractional)
+    position: number;
+    length: number;
+    // Playback rate; 2 reads the target an octave up
+    rate: number;
+    // -1 (left) to 1 (right)
+    pan: number;
+    gain: number;
+}
+
+/**
+ * How the cloud is laid out over the output, one value per output sample.
+ */
+export interface GrainControls {
+    // 0-1; scales density, pitch scatter and stereo spread
+    drive: Float32Array;
+    // Read position in the target, in samples
+    readHead: Float32Array;
+    // The params below may be automated, so they are per sample too
+    sizeMs: Float32Array;
+    density: Float32Array;
+    jitter: Float32Array;
+    pitchScatter: Float32Array;
+}
+
+// How far jitter can move a grain from the read head
+const MAX_POSITION_JITTER_SECONDS = 0.25;
+// Below this many grains per second the scheduler idles rather than waiting for one grain
+const MIN_DENSITY = 0.5;
+const IDLE_STEP_SECONDS = 0.01;
+const WINDOW_TABLE_SIZE = 1024;
+
+/**
+ * A small seeded PRNG (mulberry32) so the same seed always renders the same cloud.
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Places grains over `length` output samples. Grains arrive at the local density; jitter blends
+ * their spacing from regular to random and scatters them around the read head.
+ */
+export function scheduleGrains(controls: GrainControls, length: number, sampleRate: number, random: () => number): Grain[] {
+    const { drive, readHead, sizeMs, density, jitter, pitchScatter } = controls;
+    const grains: Grain[] = [];
+    let time = 0;
+
+    while (time < length) {
+        const rate = density[time] * drive[time];
+        if (rate < MIN_DENSITY) {
+            time += Math.max(1, Math.round(IDLE_STEP_SECONDS * sampleRate));
+            continue;
+        }
+        const grainLength = Math.max(1, Math.round(sizeMs[time] * sampleRate / 1000));
+        const scatter = jitter[time] * MAX_POSITION_JITTER_SECONDS * sampleRate;
+        const semitones = pitchScatter[time] * drive[time] * (random() * 2 - 1);
+        // Overlapping grains are scaled down so the level stays steady as density rises
+        const overlap = rate * grainLength / sampleRate;
+
+        grains.push({
+            start: time,
+            position: Math.max(0, readHead[time] + scatter * (random() * 2 - 1)),
+            length: grainLength,
+            rate: Math.pow(2, semitones / 12),
+            pan: (random() * 2 - 1) * drive[time],
+            gain: 1 / Math.sqrt(Math.max(1, overlap)),
+        });
+
+        const regular = 1 / rate;
+        const irregular = -Math.log(1 - random()) / rate;
+        const interval = (1 - jitter[time]) * regular + jitter[time] * irregular;
+        time += Math.max(1, Math.round(interval * sampleRate));
+    }
+    return grains;
+}
+
+function createWindowTable(shape: GrainWindow): Float32Array {
+    const table = new Float32Array(WINDOW_TABLE_SIZE + 1);
+    for (let i = 0; i <= WINDOW_TABLE_SIZE; i++) {
+        const x = i / WINDOW_TABLE_SIZE;
+        switch (shape) {
+            case 'triangle':
+                table[i] = 1 - Math.abs(2 * x - 1);
+                break;
+            case 'gaussian':
+                table[i] = Math.exp(-0.5 * ((x - 0.5) / 0.15) ** 2);
+                break;
+            case 'tukey': {
+                // Flat in the middle, with Hann tapers over the outer quarters
+                const edge = Math.min(x, 1 - x);
+                table[i] = edge >= 0.25 ? 1 : 0.5 * (1 - Math.cos(Math.PI * edge / 0.25));
+                break;
+            }
+            default:
+                table[i] = 0.5 * (1 - Math.cos(2 * Math.PI * x));
+        }
+    }
+    return table;
+}
+
+/**
+ * Renders grains read from `target` into a stereo buffer of `length` samples. Each grain reads
+ * the matching target channel (a mono target feeds both sides), is shaped by the window and
+ * placed with an equal-power pan.
+ */
+export function renderGrains(target: PcmBuffer, grains: Grain[], length: number, window: GrainWindow, hooks: RenderHooks = {}): PcmBuffer {
+    const result = createPcmBuffer(2, length, target.sampleRate);
+    const table = createWindowTable(window);
+    const inputs = [target.getChannelData(0), target.getChannelData(Math.min(1, target.numberOfChannels - 1))];
+    const outputs = [result.getChannelData(0), result.getChannelData(1)];
+    const targetLength = target.length;
+
+    grains.forEach((grain, index) => {
+        if (index % 256 === 0) {
+            throwIfAborted(hooks.signal);
+            hooks.onProgress?.(index / grains.length);
+        }
+        const angle = (grain.pan + 1) * Math.PI / 4;
+        const panGains = [Math.cos(angle) * grain.gain, Math.sin(angle) * grain.gain];
+        const end = Math.min(length, grain.start + grain.length);
+
+        for (let i = grain.start; i < end; i++) {
+            const offset = i - grain.start;
+            const read = grain.position + offset * grain.rate;
+            const readIndex = Math.floor(read);
+            if (readIndex + 1 >= targetLength) break;
+            const fraction = read - readIndex;
+            const envelope = table[Math.round(offset / grain.length * WINDOW_TABLE_SIZE)];
+            for (let c = 0; c < 2; c++) {
+                const input = inputs[c];
+                const sample = input[readIndex] + (input[readIndex + 1] - input[readIndex]) * fraction;
+                outputs[c][i] += sample * envelope * panGains[c];
+            }
+        }
+    });
+    return result;
+}
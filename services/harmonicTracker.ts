@@ -0,0 +1,183 @@
+import type { PcmBuffer } from '../types';
+import { getFFT } from './fft';
+import { getMonoData } from './channelMapping';
+
+// About 85 ms of audio per analysis frame, rounded to a power of two
+const FRAME_SECONDS = 0.085;
+const MIN_FUNDAMENTAL = 50;
+const MAX_FUNDAMENTAL = 1500;
+// Harmonics above this add little to the pitch estimate
+const MAX_SCORED_FREQUENCY = 5000;
+const MAX_SCORED_HARMONICS = 20;
+// Only the strongest peaks propose fundamentals, which keeps the search cheap
+const MAX_PITCH_PEAKS = 20;
+// A peak belongs to a harmonic when it is within this fraction of the harmonic's frequency
+const HARMONIC_TOLERANCE = 0.03;
+// Each higher harmonic counts for this much less, which steers the estimate away from subharmonics
+const HARMONIC_DECAY = 0.9;
+// Frames more than 40dB below the loudest are silence
+const SILENCE_FLOOR = 0.01;
+
+/**
+ * One harmonic of the source over time. Inactive frames hold the last active frequency (or
+ * the first, before the partial appears) so filters following it never sweep through silence.
+ */
+export interface PartialTrack {
+    frequencies: Float32Array;
+    active: Uint8Array;
+}
+
+/**
+ * The source's pitch and its harmonics, frame by frame. Frame `n` is centred on `n * hopSeconds`;
+ * the fundamental is 0 in unpitched frames.
+ */
+export interface HarmonicTracks {
+    hopSeconds: number;
+    fundamental: Float32Array;
+    partials: PartialTrack[];
+}
+
+export interface HarmonicTrackingOptions {
+    numHarmonics: number;
+    hopMs: number;
+    // dB below the frame's strongest peak that a partial may be and still count
+    minSalience: number;
+}
+
+interface SpectralPeak {
+    frequency: number;
+    amplitude: number;
+}
+
+function findPeaks(magnitude: Float32Array, sampleRate: number, fftSize: number): SpectralPeak[] {
+    const peaks: SpectralPeak[] = [];
+    for (let k = 2; k < magnitude.length - 1; k++) {
+        if (magnitude[k] <= magnitude[k - 1] || magnitude[k] < magnitude[k + 1]) continue;
+        // Parabolic interpolation on the log magnitudes
+        const left = Math.log(magnitude[k - 1] + 1e-12);
+        const centre = Math.log(magnitude[k] + 1e-12);
+        const right = Math.log(magnitude[k + 1] + 1e-12);
+        const curvature = left - 2 * centre + right;
+        const offset = curvature < 0 ? 0.5 * (left - right) / curvature : 0;
+        peaks.push({
+            frequency: (k + offset) * sampleRate / fftSize,
+            amplitude: Math.exp(centre - 0.25 * (left - right) * offset),
+        });
+    }
+    return peaks;
+}
+
+// The strongest peak within tolerance of `frequency`, if any
+function peakNear(peaks: SpectralPeak[], frequency: number): SpectralPeak | undefined {
+    let best: SpectralPeak | undefined;
+    for (const peak of peaks) {
+        if (Math.abs(peak.frequency - frequency) > frequency * HARMONIC_TOLERANCE) continue;
+        if (!best || peak.amplitude > best.amplitude) best = peak;
+    }
+    return best;
+}
+
+/**
+ * Estimates the fundamental by subharmonic summation: every salient peak proposes itself and
+ * its first few subharmonics, and each proposal is scored by the weighted strength of the
+ * peaks sitting on its harmonic series. Returns 0 when nothing qualifies.
+ */
+function estimateFundamental(salient: SpectralPeak[]): number {
+    const peaks = [...salient].sort((a, b) => b.amplitude - a.amplitude).slice(0, MAX_PITCH_PEAKS);
+    let bestFrequency = 0;
+    let bestScore = 0;
+    for (const peak of peaks) {
+        for (let divisor = 1; divisor <= 4; divisor++) {
+            const candidate = peak.frequency / divisor;
+            if (candidate < MIN_FUNDAMENTAL || candidate > MAX_FUNDAMENTAL) continue;
+            let score = 0;
+            for (let h = 1; h <= MAX_SCORED_HARMONICS && h * candidate < MAX_SCORED_FREQUENCY; h++) {
+                const match = peakNear(peaks, h * candidate);
+                if (match) score += match.amplitude * Math.pow(HARMONIC_DECAY, h - 1);
+            }
+            if (score > bestScore) {
+                bestScore = score;
+                bestFrequency = candidate;
+            }
+        }
+    }
+    return bestFrequency;
+}
+
+/**
+ * Tracks the fundamental and the first `numHarmonics` harmonics of a buffer. In each frame the
+ * fundamental comes from subharmonic summation over the salient spectral peaks; harmonic `h`
+ * then follows the peak nearest `h` times the fundamental, and is active only while that peak
+ * is salient enough. Returns null when the source is silent or never pitched.
+ */
+export function trackHarmonics(buffer: PcmBuffer, { numHarmonics, hopMs, minSalience }: HarmonicTrackingOptions): HarmonicTracks | null {
+    const { sampleRate } = buffer;
+    const data = getMonoData(buffer);
+    const fftSize = Math.pow(2, Math.round(Math.log2(FRAME_SECONDS * sampleRate)));
+    const fft = getFFT(fftSize);
+    const hop = Math.max(1, Math.round(hopMs * sampleRate / 1000));
+    const numFrames = Math.floor(data.length / hop) + 1;
+    const window = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / fftSize));
+    const frameStart = (n: number) => n * hop - fftSize / 2;
+    const sampleAt = (index: number) => (index >= 0 && index < data.length ? data[index] : 0);
+
+    // Levels first, so quiet frames can be judged against the loudest
+    const energy = new Float32Array(numFrames);
+    let loudest = 0;
+    for (let n = 0; n < numFrames; n++) {
+        const start = frameStart(n);
+        let sum = 0;
+        for (let i = 0; i < fftSize; i++) sum += (sampleAt(start + i) * window[i]) ** 2;
+        energy[n] = sum;
+        loudest = Math.max(loudest, sum);
+    }
+    if (loudest === 0) return null;
+
+    const salienceRatio = Math.pow(10, minSalience / 20);
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    const magnitude = new Float32Array(fftSize / 2 + 1);
+    const fundamental = new Float32Array(numFrames);
+    const partials: PartialTrack[] = Array.from({ length: numHarmonics }, () => ({
+        frequencies: new Float32Array(numFrames),
+        active: new Uint8Array(numFrames),
+    }));
+
+    for (let n = 0; n < numFrames; n++) {
+        // Energy is a power, so the floor is squared
+        if (energy[n] <= loudest * SILENCE_FLOOR * SILENCE_FLOOR) continue;
+        const start = frameStart(n);
+        for (let i = 0; i < fftSize; i++) real[i] = sampleAt(start + i) * window[i];
+        imag.fill(0);
+        fft(real, imag, false);
+        for (let k = 0; k < magnitude.length; k++) magnitude[k] = Math.hypot(real[k], imag[k]);
+
+        const peaks = findPeaks(magnitude, sampleRate, fftSize);
+        const strongest = peaks.reduce((max, peak) => Math.max(max, peak.amplitude), 0);
+        const salient = peaks.filter(peak => peak.amplitude >= strongest * salienceRatio);
+        const f0 = estimateFundamental(salient);
+        if (f0 === 0) continue;
+        fundamental[n] = f0;
+
+        partials.forEach((partial, index) => {
+            const match = peakNear(salient, (index + 1) * f0);
+            if (!match) return;
+            partial.frequencies[n] = match.frequency;
+            partial.active[n] = 1;
+        });
+    }
+
+    if (!fundamental.some(f0 => f0 > 0)) return null;
+    // Inactive frames hold the neighbouring active frequency
+    for (const { frequencies, active } of partials) {
+        const first = active.indexOf(1);
+        if (first < 0) continue;
+        let held = frequencies[first];
+        for (let n = 0; n < numFrames; n++) {
+            if (active[n]) held = frequencies[n];
+            else frequencies[n] = held;
+        }
+    }
+    return { hopSeconds: hop / sampleRate, fundamental, partials };
+}
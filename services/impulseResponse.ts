@@ -0,0 +1,91 @@
+import type { PcmBuffer, ConvolutionTail } from '../types';
+import { createPcmBuffer } from './pcmBuffer';
+import { resampleBuffer } from './resampler';
+
+// The 'decay' tail policy cuts once the tail is this far below the peak (-60dB)
+const DECAY_FLOOR = 0.001;
+// Fade applied where the 'target' tail policy cuts
+const TAIL_FADE_SECONDS = 0.05;
+
+export interface ImpulseResponseOptions {
+    // Where the IR starts in the source, and how much of it is used, in seconds
+    start: number;
+    length: number;
+    // Fade-out over the end of the IR, in seconds
+    fade: number;
+    reverse: boolean;
+    // Resampling factor: 2 plays the IR at half speed, so it lasts twice as long and sounds lower
+    stretch: number;
+}
+
+/**
+ * Cuts the impulse response out of the source and shapes it: trimmed to the chosen window,
+ * optionally reversed, stretched, then faded out so the cut end does not click.
+ */
+export function shapeImpulseResponse(source: PcmBuffer, { start, length, fade, reverse, stretch }: ImpulseResponseOptions): PcmBuffer {
+    const { sampleRate, numberOfChannels } = source;
+    const first = Math.min(source.length - 1, Math.max(0, Math.round(start * sampleRate)));
+    const last = Math.min(source.length, first + Math.max(1, Math.round(length * sampleRate)));
+    let ir = createPcmBuffer(numberOfChannels, last - first, sampleRate);
+    for (let c = 0; c < numberOfChannels; c++) {
+        const window = source.getChannelData(c).subarray(first, last);
+        const data = ir.getChannelData(c);
+        data.set(window);
+        if (reverse) data.reverse();
+    }
+
+    if (stretch !== 1) {
+        ir = resampleBuffer(ir, Math.max(1, Math.round(ir.length * stretch)));
+    }
+
+    const fadeLength = Math.min(ir.length, Math.round(fade * sampleRate));
+    for (let c = 0; c < numberOfChannels; c++) {
+        const data = ir.getChannelData(c);
+        for (let i = 0; i < fadeLength; i++) {
+            data[ir.length - 1 - i] *= i / fadeLength;
+        }
+    }
+    return ir;
+}
+
+/**
+ * Shortens a convolved result according to the tail policy:
+ * - full: keeps the whole ringing tail
+ * - decay: cuts once every channel has decayed 60dB below the peak (never before the target ends)
+ * - target: cuts to the target's length, with a short fade
+ */
+export function applyTailPolicy(buffer: PcmBuffer, policy: ConvolutionTail, targetLength: number): PcmBuffer {
+    const { numberOfChannels, sampleRate } = buffer;
+    let length = buffer.length;
+    let fadeLength = 0;
+
+    if (policy === 'target') {
+        length = Math.min(buffer.length, targetLength);
+        fadeLength = Math.min(length, Math.round(TAIL_FADE_SECONDS * sampleRate));
+    } else if (policy === 'decay') {
+        let peak = 0;
+        for (let c = 0; c < numberOfChannels; c++) {
+            for (const sample of buffer.getChannelData(c)) peak = Math.max(peak, Math.abs(sample));
+        }
+        let end = Math.min(buffer.length, targetLength);
+        for (let c = 0; c < numberOfChannels; c++) {
+            const data = buffer.getChannelData(c);
+            for (let i = data.length - 1; i >= end; i--) {
+                if (Math.abs(data[i]) > peak * DECAY_FLOOR) {
+                    end = i + 1;
+                    break;
+                }
+            }
+        }
+        length = end;
+    }
+    if (length === buffer.length) return buffer;
+
+    const result = createPcmBuffer(numberOfChannels, length, sampleRate);
+    for (let c = 0; c < numberOfChannels; c++) {
+        const data = result.getChannelData(c);
+        data.set(buffer.getChannelData(c).subarray(0, length));
+        for (let i = 0; i < fadeLength; i++) data[length - 1 - i] *= i / fadeLength;
+    }
+    return result;
+}
@@ -1,5 +1,6 @@
 
 import { TransformationType, TransformationParams } from '../types';
+import { getTransformation } from './transformationRegistry';
 
 interface LiveProcessorOptions {
     micStream: MediaStream;
@@ -23,6 +24,11 @@ export default class LiveAudioProcessor {
             return;
         }
 
+        const live = getTransformation(transformation).live;
+        if (!live) {
+            throw new Error(`${transformation} is not available for live input.`);
+        }
+
         try {
             this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
             
@@ -41,7 +47,7 @@ export default class LiveAudioProcessor {
 
             this.workletNode = new AudioWorkletNode(this.context, WORKLET_NAME, {
                 processorOptions: { 
-                    transformation,
+                    kernel: live.kernel,
                     params
                 },
                 numberOfInputs: 2,
@@ -0,0 +1,263 @@
+import type { PcmBuffer, RenderHooks, MasteringSettings, LoudnessReport } from '../types';
+import { createPcmBuffer, throwIfAborted } from './pcmBuffer';
+
+export const DEFAULT_MASTERING: MasteringSettings = { enabled: true, targetLufs: -14, ceiling: -1 };
+
+// --- ITU-R BS.1770 loudness ---
+
+const BLOCK_SECONDS = 0.4;
+// Gating blocks overlap by 75%
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+interface Biquad {
+    b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+/**
+ * The two K-weighting stages (a high shelf modelling the head, then the RLB high-pass),
+ * designed for any sample rate from the analogue prototypes behind the 48 kHz coefficients
+ * published in the standard.
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+    const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    const shelfQ = 0.7071752369554196;
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+    const shelf = {
+        b0: (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+        b1: 2 * (shelfK * shelfK - vh) / shelfA0,
+        b2: (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+        a1: 2 * (shelfK * shelfK - 1) / shelfA0,
+        a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    };
+
+    const passK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    const passQ = 0.5003270373238773;
+    const passA0 = 1 + passK / passQ + passK * passK;
+    const highPass = {
+        b0: 1,
+        b1: -2,
+        b2: 1,
+        a1: 2 * (passK * passK - 1) / passA0,
+        a2: (1 - passK / passQ + passK * passK) / passA0,
+    };
+    return [shelf, highPass];
+}
+
+function filterInPlace(data: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): void {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < data.length; i++) {
+        const x = data[i];
+        const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        data[i] = y;
+    }
+}
+
+// Surround channels of a 5.1 layout (L, R, C, LFE, Ls, Rs) count 1.41x; the LFE is ignored
+function channelWeight(channel: number, numberOfChannels: number): number {
+    if (numberOfChannels !== 6) return 1;
+    if (channel === 3) return 0;
+    return channel >= 4 ? 1.41 : 1;
+}
+
+const blockLoudness = (weightedPower: number) => -0.691 + 10 * Math.log10(weightedPower);
+
+/**
+ * Measures integrated loudness in LUFS following ITU-R BS.1770-4: K-weighting, 400 ms blocks
+ * with 75% overlap, then an absolute gate at -70 LUFS and a relative gate 10 LU below the
+ * ungated level. Silence measures -Infinity.
+ */
+export function measureLoudness(buffer: PcmBuffer): number {
+    const { numberOfChannels, length, sampleRate } = buffer;
+    const blockLength = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate));
+    const step = Math.round(STEP_SECONDS * sampleRate);
+    if (blockLength === 0) return -Infinity;
+    const numBlocks = Math.floor((length - blockLength) / step) + 1;
+    // Mean square of each block, summed over channels with their weights
+    const blockPower = new Float64Array(numBlocks);
+
+    const [shelf, highPass] = kWeightingFilters(sampleRate);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+        const weight = channelWeight(channel, numberOfChannels);
+        if (weight === 0) continue;
+        const weighted = buffer.getChannelData(channel).slice();
+        filterInPlace(weighted, shelf);
+        filterInPlace(weighted, highPass);
+
+        // Running sum of squares, so each overlapping block costs two lookups
+        const cumulative = new Float64Array(length + 1);
+        for (let i = 0; i < length; i++) cumulative[i + 1] = cumulative[i] + weighted[i] * weighted[i];
+        for (let block = 0; block < numBlocks; block++) {
+            const start = block * step;
+            blockPower[block] += weight * (cumulative[start + blockLength] - cumulative[start]) / blockLength;
+        }
+    }
+
+    const gatedMean = (threshold: number) => {
+        let sum = 0;
+        let count = 0;
+        for (const power of blockPower) {
+            if (power > 0 && blockLoudness(power) > threshold) {
+                sum += power;
+                count++;
+            }
+        }
+        return count > 0 ? sum / count : 0;
+    };
+
+    const ungated = gatedMean(ABSOLUTE_GATE);
+    if (ungated === 0) return -Infinity;
+    const gated = gatedMean(blockLoudness(ungated) + RELATIVE_GATE);
+    return gated > 0 ? blockLoudness(gated) : -Infinity;
+}
+
+// --- True peak ---
+
+const OVERSAMPLING = 4;
+// Taps on each side of the interpolation point
+const INTERPOLATION_RADIUS = 6;
+
+// Hann-windowed sinc taps for the in-between phases (1/4, 2/4 and 3/4 of a sample)
+const interpolationTaps = (() => {
+    const phases: Float32Array[] = [];
+    for (let phase = 1; phase < OVERSAMPLING; phase++) {
+        const offset = phase / OVERSAMPLING;
+        const taps = new Float32Array(2 * INTERPOLATION_RADIUS);
+        for (let k = 0; k < taps.length; k++) {
+            const x = k - INTERPOLATION_RADIUS + 1 - offset;
+            const window = 0.5 * (1 + Math.cos(Math.PI * x / INTERPOLATION_RADIUS));
+            taps[k] = (Math.sin(Math.PI * x) / (Math.PI * x)) * window;
+        }
+        phases.push(taps);
+    }
+    return phases;
+})();
+
+/**
+ * The true-peak level at each sample (linear, linked across channels): the larger of the sample
+ * and the 4x-oversampled points between it and the next sample.
+ */
+function truePeakEnvelope(buffer: PcmBuffer): Float32Array {
+    const { length } = buffer;
+    const envelope = new Float32Array(length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < length; i++) {
+            let peak = Math.abs(data[i]);
+            for (const taps of interpolationTaps) {
+                let value = 0;
+                for (let k = 0; k < taps.length; k++) {
+                    const index = i + k - INTERPOLATION_RADIUS + 1;
+                    if (index >= 0 && index < length) value += data[index] * taps[k];
+                }
+                peak = Math.max(peak, Math.abs(value));
+            }
+            envelope[i] = Math.max(envelope[i], peak);
+        }
+    }
+    return envelope;
+}
+
+const toDb = (gain: number) => 20 * Math.log10(gain);
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Measures the true peak in dBTP (4x oversampled, as in BS.1770 Annex 2).
+ */
+export function measureTruePeak(buffer: PcmBuffer): number {
+    let peak = 0;
+    for (const value of truePeakEnvelope(buffer)) peak = Math.max(peak, value);
+    return toDb(peak);
+}
+
+// --- Limiter ---
+
+const LOOKAHEAD_SECONDS = 0.0015;
+const RELEASE_SECONDS = 0.05;
+
+/**
+ * A look-ahead limiter that keeps the true peak under `ceiling` dBTP. The gain needed at each
+ * peak is reached over the look-ahead window beforehand, so the limiter never clips, and
+ * recovers with an exponential release.
+ */
+export function limitTruePeak(buffer: PcmBuffer, ceiling: number, hooks: RenderHooks = {}): PcmBuffer {
+    const { numberOfChannels, length, sampleRate } = buffer;
+    const limit = fromDb(ceiling);
+    const envelope = truePeakEnvelope(buffer);
+    throwIfAborted(hooks.signal);
+    hooks.onProgress?.(0.6);
+
+    const lookahead = Math.max(1, Math.round(LOOKAHEAD_SECONDS * sampleRate));
+    // The gain each sample needs, then the lowest of that over the next `lookahead` samples
+    // (a sliding-window minimum over a queue of candidate indices)
+    const needed = envelope.map(peak => (peak > limit ? limit / peak : 1));
+    const windowMin = new Float32Array(length);
+    const queue = new Int32Array(length);
+    let head = 0;
+    let tail = 0;
+    for (let i = length - 1; i >= 0; i--) {
+        while (tail > head && needed[queue[tail - 1]] >= needed[i]) tail--;
+        queue[tail++] = i;
+        if (queue[head] > i + lookahead) head++;
+        windowMin[i] = needed[queue[head]];
+    }
+
+    // Averaging the window minimums ramps the gain down smoothly and still lands at or below
+    // what each peak needs
+    const releaseCoef = Math.exp(-1 / (RELEASE_SECONDS * sampleRate));
+    const gains = new Float32Array(length);
+    let sum = 0;
+    let gain = 1;
+    for (let i = 0; i < length; i++) {
+        sum += windowMin[i];
+        if (i > lookahead) sum -= windowMin[i - lookahead - 1];
+        const target = sum / Math.min(i + 1, lookahead + 1);
+        gain = target <= gain ? target : target + releaseCoef * (gain - target);
+        gains[i] = gain;
+    }
+    throwIfAborted(hooks.signal);
+
+    const result = createPcmBuffer(numberOfChannels, length, sampleRate);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+        const input = buffer.getChannelData(channel);
+        const output = result.getChannelData(channel);
+        for (let i = 0; i < length; i++) output[i] = input[i] * gains[i];
+    }
+    hooks.onProgress?.(0.8);
+    return result;
+}
+
+// --- Output stage ---
+
+/**
+ * The final stage for every render: gain to the target loudness, then true-peak limiting. When
+ * mastering is off the buffer passes through unchanged. Either way the report describes the
+ * returned buffer.
+ */
+export function masterBuffer(buffer: PcmBuffer, settings: MasteringSettings, hooks: RenderHooks = {}): { buffer: PcmBuffer; loudness: LoudnessReport } {
+    let result = buffer;
+    if (settings.enabled) {
+        const loudness = measureLoudness(buffer);
+        throwIfAborted(hooks.signal);
+        hooks.onProgress?.(0.2);
+        if (Number.isFinite(loudness)) {
+            const gain = fromDb(settings.targetLufs - loudness);
+            result = createPcmBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+            for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+                const input = buffer.getChannelData(channel);
+                const output = result.getChannelData(channel);
+                for (let i = 0; i < buffer.length; i++) output[i] = input[i] * gain;
+            }
+        }
+        result = limitTruePeak(result, settings.ceiling, hooks);
+    }
+
+    const loudness = { integrated: measureLoudness(result), truePeak: measureTruePeak(result) };
+    hooks.onProgress?.(1);
+    return { buffer: result, loudness };
+}
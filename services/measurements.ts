@@ -0,0 +1,29 @@
+import type { PcmBuffer } from '../types';
+import { detectOnsets } from './onsetDetector';
+import type { OnsetOptions } from './onsetDetector';
+import { trackPitch } from './pitchTracker';
+import type { PitchCurve, PitchTrackingOptions } from './pitchTracker';
+import { averageSpectrum } from './eqMatch';
+
+// Analyses the UI draws from an input file, by name, with their options and results. Results
+// must be structured-cloneable, since they are measured in the transformation worker.
+interface MeasurementTypes {
+    onsets: { options: OnsetOptions; result: number[] };
+    pitch: { options: PitchTrackingOptions; result: PitchCurve };
+    spectrum: { options: { fftSize?: number }; result: Float32Array };
+}
+
+export type MeasurementKind = keyof MeasurementTypes;
+export type MeasurementOptions<K extends MeasurementKind> = MeasurementTypes[K]['options'];
+export type MeasurementResult<K extends MeasurementKind> = MeasurementTypes[K]['result'];
+
+const MEASUREMENTS: { [K in MeasurementKind]: (buffer: PcmBuffer, options: MeasurementOptions<K>) => MeasurementResult<K> } = {
+    onsets: detectOnsets,
+    pitch: trackPitch,
+    spectrum: (buffer, { fftSize }) => averageSpectrum(buffer, fftSize),
+};
+
+export function measure<K extends MeasurementKind>(buffer: PcmBuffer, kind: K, options: MeasurementOptions<K>): MeasurementResult<K> {
+    const measurement = MEASUREMENTS[kind] as (buffer: PcmBuffer, options: MeasurementOptions<K>) => MeasurementResult<K>;
+    return measurement(buffer, options);
+}
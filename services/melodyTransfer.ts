@@ -0,0 +1,91 @@
+import type { MelodyScale, MelodyKey } from '../types';
+import type { PitchCurve } from './pitchTracker';
+import { frequencyToMidi } from './pitchTracker';
+
+const KEYS: MelodyKey[] = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Semitones above the root that belong to each scale
+const SCALE_DEGREES: Record<Exclude<MelodyScale, 'none'>, number[]> = {
+    chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    major: [0, 2, 4, 5, 7, 9, 11],
+    minor: [0, 2, 3, 5, 7, 8, 10],
+    pentatonic: [0, 2, 4, 7, 9],
+};
+
+export interface MelodyOptions {
+    // Semitones added to the source's melody before quantising, one value per frame
+    transpose: Float32Array;
+    // Time constant of the portamento between notes
+    glideMs: number;
+    // Frames below this pitch confidence count as unpitched
+    minConfidence: number;
+    scale: MelodyScale;
+    key: MelodyKey;
+}
+
+/**
+ * Snaps a MIDI note number to the nearest note of a scale.
+ */
+export function quantizeToScale(midi: number, scale: MelodyScale, key: MelodyKey): number {
+    if (scale === 'none') return midi;
+    const root = KEYS.indexOf(key);
+    const octave = Math.floor((midi - root) / 12);
+    let best = midi;
+    let bestDistance = Infinity;
+    // Check the octave below and above too, so notes near the edges can snap across
+    for (let o = octave - 1; o <= octave + 1; o++) {
+        for (const degree of SCALE_DEGREES[scale]) {
+            const note = root + 12 * o + degree;
+            const distance = Math.abs(note - midi);
+            if (distance < bestDistance) {
+                best = note;
+                bestDistance = distance;
+            }
+        }
+    }
+    return best;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+// MIDI notes of the confidently pitched frames, NaN elsewhere
+function toNotes(curve: PitchCurve, minConfidence: number): Float32Array {
+    return curve.frequencies.map((frequency, n) =>
+        frequency > 0 && curve.confidence[n] >= minConfidence ? frequencyToMidi(frequency) : NaN
+    );
+}
+
+/**
+ * The pitch shift in semitones, per frame, that makes the target sing the source's melody.
+ * The source's notes (transposed and quantised) are held through unpitched frames and glide
+ * into each other. The target is measured frame by frame where it is pitched; elsewhere its
+ * median pitch stands in, and a target with no pitch at all takes on the source's contour
+ * around the source's median note. Both curves must share the same frame grid.
+ */
+export function melodyShift(source: PitchCurve, target: PitchCurve, options: MelodyOptions): Float32Array {
+    const { transpose, glideMs, minConfidence, scale, key } = options;
+    const numFrames = source.frequencies.length;
+    const sourceNotes = toNotes(source, minConfidence);
+    const targetNotes = toNotes(target, minConfidence);
+    const pitchedSource = Array.from(sourceNotes).filter(note => !Number.isNaN(note));
+    const pitchedTarget = Array.from(targetNotes).filter(note => !Number.isNaN(note));
+    const shift = new Float32Array(numFrames);
+    if (pitchedSource.length === 0) return shift;
+
+    const targetReference = pitchedTarget.length > 0 ? median(pitchedTarget) : median(pitchedSource);
+    const glideCoef = glideMs > 0 ? Math.exp(-source.hopSeconds * 1000 / glideMs) : 0;
+    let held = pitchedSource[0];
+    let melody = NaN;
+
+    for (let n = 0; n < numFrames; n++) {
+        if (!Number.isNaN(sourceNotes[n])) held = sourceNotes[n];
+        const note = quantizeToScale(held + (transpose[n] ?? 0), scale, key);
+        melody = Number.isNaN(melody) ? note : note + glideCoef * (melody - note);
+        const current = n < targetNotes.length && !Number.isNaN(targetNotes[n]) ? targetNotes[n] : targetReference;
+        shift[n] = melody - current;
+    }
+    return shift;
+}
@@ -0,0 +1,57 @@
+import type { Breakpoint, ModulationFeature, ModulationRouting, NumericParamKey, ParamSchema, PcmBuffer, TransformationParams } from '../types';
+import { evaluateBreakpoints, getAutomationLane } from './automation';
+import { extractFeature, smoothFeature, FEATURE_HOP } from './featureExtractor';
+
+/**
+ * Resolves the modulation matrix into automation lanes, so transformations only ever read lanes.
+ * Each modulated param gets one point per feature frame: its static or automated value plus the
+ * routed features, clamped to the param's range. Routings to params the schema does not mark
+ * automatable are ignored.
+ *
+ * Lanes are stretched over the render, so they are laid out over `renderLength` samples (the
+ * target's length) with the source's features at their real times: a longer source is cut
+ * off, and past the end of a shorter one the param returns to its unmodulated value.
+ */
+export function applyModulations(params: TransformationParams, schema: ParamSchema, source: PcmBuffer, renderLength: number): TransformationParams {
+    const routings = (params.modulations ?? []).filter(routing => schema[routing.target]?.automatable && routing.depth > 0);
+    if (routings.length === 0 || source.length === 0 || renderLength === 0) return params;
+
+    const features = new Map<ModulationFeature, Float32Array>();
+    const featureFor = (feature: ModulationFeature) => {
+        let values = features.get(feature);
+        if (!values) {
+            values = extractFeature(source, feature);
+            features.set(feature, values);
+        }
+        return values;
+    };
+
+    const byTarget = new Map<NumericParamKey, ModulationRouting[]>();
+    routings.forEach(routing => byTarget.set(routing.target, [...(byTarget.get(routing.target) ?? []), routing]));
+
+    const lastIndex = Math.max(1, renderLength - 1);
+    const numFrames = Math.floor(lastIndex / FEATURE_HOP) + 1;
+    const automation = { ...params.automation };
+
+    byTarget.forEach((targetRoutings, key) => {
+        const config = schema[key]!;
+        const range = config.max - config.min;
+        const baseLane = getAutomationLane(params, key);
+        const staticValue = params[key] ?? config.defaultValue;
+        const modulators = targetRoutings.map(routing => ({
+            values: smoothFeature(featureFor(routing.feature), routing.smoothing, source.sampleRate),
+            scale: (routing.polarity === 'negative' ? -1 : 1) * routing.depth * range,
+        }));
+
+        const lane: Breakpoint[] = [];
+        for (let frame = 0; frame < numFrames; frame++) {
+            const time = Math.min(1, frame * FEATURE_HOP / lastIndex);
+            let value = baseLane ? evaluateBreakpoints(baseLane, time) : staticValue;
+            modulators.forEach(({ values, scale }) => { value += (values[frame] ?? 0) * scale; });
+            lane.push({ time, value: Math.min(config.max, Math.max(config.min, value)) });
+        }
+        automation[key] = lane;
+    });
+
+    return { ...params, automation };
+}
@@ -0,0 +1,171 @@
+import type { PcmBuffer, OnsetMethod, TransformationParams } from '../types';
+import { getFFT } from './fft';
+import { getMonoData } from './channelMapping';
+
+const FRAME_SIZE = 1024;
+// Samples between onset-function frames
+export const HOP_SIZE = 512;
+const NUM_BINS = FRAME_SIZE / 2 + 1;
+// Frames on each side used for the moving-median threshold and for peak picking
+const MEDIAN_RADIUS = 8;
+const PEAK_RADIUS = 3;
+
+export interface OnsetOptions {
+    method?: OnsetMethod;
+    // 0-1; higher values lower the adaptive threshold and find more onsets
+    sensitivity?: number;
+    minSeparationMs?: number;
+}
+
+const hannWindow = (() => {
+    const window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / FRAME_SIZE));
+    }
+    return window;
+})();
+
+const wrapPhase = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+
+/**
+ * Computes an onset detection function with one value per hop; frame `n` is centred on sample
+ * `n * HOP_SIZE`. The result is normalised to a peak of 1.
+ *
+ * - spectral-flux: rise in log-compressed magnitude, summed over bins.
+ * - hfc: rise in high-frequency content (energy weighted by bin index), good for percussion.
+ * - complex: distance from the spectrum predicted by steady magnitude and phase, counted only
+ *   where energy rises, so it also catches soft tonal onsets.
+ */
+export function computeOnsetFunction(data: Float32Array, method: OnsetMethod = 'spectral-flux'): Float32Array {
+    const numFrames = Math.floor(data.length / HOP_SIZE) + 1;
+    const odf = new Float32Array(numFrames);
+    const fft = getFFT(FRAME_SIZE);
+    const real = new Float32Array(FRAME_SIZE);
+    const imag = new Float32Array(FRAME_SIZE);
+    let magnitude = new Float32Array(NUM_BINS);
+    let previousMagnitude = new Float32Array(NUM_BINS);
+    let phase = new Float32Array(NUM_BINS);
+    let previousPhase = new Float32Array(NUM_BINS);
+    let olderPhase = new Float32Array(NUM_BINS);
+    let previousHfc = 0;
+
+    for (let frame = 0; frame < numFrames; frame++) {
+        const start = frame * HOP_SIZE - FRAME_SIZE / 2;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const index = start + i;
+            real[i] = index >= 0 && index < data.length ? data[index] * hannWindow[i] : 0;
+            imag[i] = 0;
+        }
+        fft(real, imag, false);
+
+        let value = 0;
+        let hfc = 0;
+        for (let bin = 0; bin < NUM_BINS; bin++) {
+            const mag = Math.hypot(real[bin], imag[bin]);
+            magnitude[bin] = mag;
+            phase[bin] = Math.atan2(imag[bin], real[bin]);
+
+            switch (method) {
+                case 'spectral-flux': {
+                    const rise = Math.log1p(100 * mag) - Math.log1p(100 * previousMagnitude[bin]);
+                    if (rise > 0) value += rise;
+                    break;
+                }
+                case 'hfc':
+                    hfc += bin * mag * mag;
+                    break;
+                case 'complex': {
+                    if (mag < previousMagnitude[bin]) break;
+                    const predictedPhase = wrapPhase(2 * previousPhase[bin] - olderPhase[bin]);
+                    const predictedMagnitude = previousMagnitude[bin];
+                    const dRe = mag * Math.cos(phase[bin]) - predictedMagnitude * Math.cos(predictedPhase);
+                    const dIm = mag * Math.sin(phase[bin]) - predictedMagnitude * Math.sin(predictedPhase);
+                    value += Math.hypot(dRe, dIm);
+                    break;
+                }
+            }
+        }
+        if (method === 'hfc') {
+            value = Math.max(0, hfc - previousHfc);
+            previousHfc = hfc;
+        }
+        // The first frame has nothing to rise from
+        odf[frame] = frame > 0 ? value : 0;
+
+        [olderPhase, previousPhase, phase] = [previousPhase, phase, olderPhase];
+        [previousMagnitude, magnitude] = [magnitude, previousMagnitude];
+    }
+
+    let peak = 0;
+    for (let i = 0; i < numFrames; i++) peak = Math.max(peak, odf[i]);
+    if (peak > 0) {
+        for (let i = 0; i < numFrames; i++) odf[i] /= peak;
+    }
+    return odf;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Picks onsets from a detection function: local maxima that clear a moving-median threshold
+ * and are at least `minSeparation` frames apart. Returns frame indices.
+ */
+export function pickPeaks(odf: Float32Array, sensitivity = 0.5, minSeparation = 1): number[] {
+    const delta = 0.02 + 0.25 * (1 - Math.min(1, Math.max(0, sensitivity)));
+    const peaks: number[] = [];
+    let lastPeak = -Infinity;
+
+    for (let n = 0; n < odf.length; n++) {
+        const value = odf[n];
+        if (value <= 0) continue;
+
+        let isLocalMax = true;
+        for (let k = Math.max(0, n - PEAK_RADIUS); k <= Math.min(odf.length - 1, n + PEAK_RADIUS); k++) {
+            // Ties resolve to the earliest frame
+            if (odf[k] > value || (odf[k] === value && k < n)) {
+                isLocalMax = false;
+                break;
+            }
+        }
+        if (!isLocalMax) continue;
+
+        const neighbourhood = Array.from(odf.subarray(Math.max(0, n - MEDIAN_RADIUS), n + MEDIAN_RADIUS + 1));
+        if (value < delta + median(neighbourhood)) continue;
+        if (n - lastPeak < minSeparation) continue;
+
+        peaks.push(n);
+        lastPeak = n;
+    }
+    return peaks;
+}
+
+/**
+ * Detects note and hit onsets in a buffer (downmixed to mono). Returns sample indices in
+ * ascending order.
+ */
+export function detectOnsets(buffer: PcmBuffer, options: OnsetOptions = {}): number[] {
+    const { method = 'spectral-flux', sensitivity = 0.5, minSeparationMs = 50 } = options;
+    const odf = computeOnsetFunction(getMonoData(buffer), method);
+    const minSeparation = Math.max(1, Math.round(buffer.sampleRate * minSeparationMs / 1000 / HOP_SIZE));
+    return pickPeaks(odf, sensitivity, minSeparation)
+        .map(frame => frame * HOP_SIZE)
+        .filter(sampleIndex => sampleIndex < buffer.length);
+}
+
+/**
+ * Onsets for a transformation input: the markers the user edited (in seconds) when present,
+ * otherwise freshly detected ones using the transformation's onset params.
+ */
+export function resolveOnsets(buffer: PcmBuffer, editedTimes: number[] | undefined, params: TransformationParams): number[] {
+    if (editedTimes) {
+        return editedTimes
+            .map(time => Math.round(time * buffer.sampleRate))
+            .filter(sampleIndex => sampleIndex >= 0 && sampleIndex < buffer.length)
+            .sort((a, b) => a - b);
+    }
+    return detectOnsets(buffer, { method: params.onsetMethod, sensitivity: params.onsetSensitivity });
+}
@@ -0,0 +1,93 @@
+import type { PcmBuffer, RenderHooks } from '../types';
+
+/**
+ * Creates a silent, plain-memory PcmBuffer. Unlike `OfflineAudioContext.createBuffer`,
+ * this works inside Web Workers.
+ */
+export function createPcmBuffer(numberOfChannels: number, length: number, sampleRate: number): PcmBuffer {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < numberOfChannels; c++) {
+        channels.push(new Float32Array(length));
+    }
+    return pcmFromChannels(channels, sampleRate);
+}
+
+/**
+ * Wraps existing channel arrays (without copying) in a PcmBuffer.
+ */
+export function pcmFromChannels(channels: Float32Array[], sampleRate: number): PcmBuffer {
+    if (channels.length === 0) {
+        throw new Error('A PCM buffer needs at least one channel.');
+    }
+    return {
+        numberOfChannels: channels.length,
+        length: channels[0].length,
+        sampleRate,
+        getChannelData: (channel: number) => {
+            if (channel < 0 || channel >= channels.length) {
+                throw new Error(`Channel index ${channel} is out of range.`);
+            }
+            return channels[channel];
+        },
+    };
+}
+
+/**
+ * Copies every channel of a buffer into fresh arrays, e.g. so they can be transferred to a worker
+ * without detaching the memory behind an AudioBuffer.
+ */
+export function copyChannels(buffer: PcmBuffer): Float32Array[] {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        channels.push(buffer.getChannelData(c).slice());
+    }
+    return channels;
+}
+
+/**
+ * Returns a real AudioBuffer for playback and visualisation, copying the samples if needed.
+ * Main thread only.
+ */
+export function toAudioBuffer(buffer: PcmBuffer): AudioBuffer {
+    if (buffer instanceof AudioBuffer) return buffer;
+
+    const audioBuffer = new AudioBuffer({
+        numberOfChannels: buffer.numberOfChannels,
+        length: Math.max(1, buffer.length),
+        sampleRate: buffer.sampleRate,
+    });
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        audioBuffer.copyToChannel(buffer.getChannelData(c), c);
+    }
+    return audioBuffer;
+}
+
+// --- Render hook helpers ---
+
+/**
+ * Throws a DOMException named 'AbortError' once the render has been cancelled.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+}
+
+export function createAbortError(): DOMException {
+    return new DOMException('The transformation was cancelled.', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Maps the progress of a sub-step onto the [start, end] slice of the parent render.
+ */
+export function scaleProgress(hooks: RenderHooks, start: number, end: number): RenderHooks {
+    const { onProgress } = hooks;
+    return {
+        signal: hooks.signal,
+        onProgress: onProgress ? (fraction: number) => onProgress(start + (end - start) * fraction) : undefined,
+    };
+}
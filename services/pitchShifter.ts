@@ -0,0 +1,38 @@
+import type { PcmBuffer, RenderHooks } from '../types';
+import { createPcmBuffer, scaleProgress, throwIfAborted } from './pcmBuffer';
+import type { TimeMapSegment } from './timeStretch';
+import { stretchBuffer } from './timeStretch';
+import { resampleVarying } from './resampler';
+
+// Input samples per time-map segment; short enough to follow fast glides
+const SEGMENT_LENGTH = 256;
+
+/**
+ * Shifts the pitch of a buffer by a time-varying amount (one value in semitones per sample)
+ * while keeping its timing. The buffer is first time-stretched so each stretch of input lasts
+ * as many samples as the local pitch ratio asks for, then read back at that ratio, which
+ * restores the original timing and moves the pitch.
+ */
+export function shiftPitch(buffer: PcmBuffer, semitones: Float32Array, hooks: RenderHooks = {}): PcmBuffer {
+    const { numberOfChannels, length, sampleRate } = buffer;
+    const ratios = new Float32Array(length);
+    for (let i = 0; i < length; i++) ratios[i] = Math.pow(2, (semitones[i] ?? 0) / 12);
+
+    // Where each input sample lands in the stretched signal
+    const positions = new Float64Array(length + 1);
+    for (let i = 0; i < length; i++) positions[i + 1] = positions[i] + ratios[i];
+    const segments: TimeMapSegment[] = [];
+    for (let start = 0; start < length; start += SEGMENT_LENGTH) {
+        const end = Math.min(length, start + SEGMENT_LENGTH);
+        segments.push({ inputStart: start, inputEnd: end, outputStart: positions[start], outputEnd: positions[end] });
+    }
+
+    const stretched = stretchBuffer(buffer, segments, Math.ceil(positions[length]) + 1, scaleProgress(hooks, 0, 0.8), false);
+    const result = createPcmBuffer(numberOfChannels, length, sampleRate);
+    for (let c = 0; c < numberOfChannels; c++) {
+        throwIfAborted(hooks.signal);
+        hooks.onProgress?.(0.8 + 0.2 * c / numberOfChannels);
+        result.getChannelData(c).set(resampleVarying(stretched.getChannelData(c), ratios));
+    }
+    return result;
+}
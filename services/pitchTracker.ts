@@ -0,0 +1,145 @@
+import type { PcmBuffer } from '../types';
+import { getFFT } from './fft';
+import { getMonoData } from './channelMapping';
+
+// Frames quieter than this (RMS) are left unpitched
+const SILENCE = 1e-4;
+const DEFAULT_HOP_SECONDS = 0.01;
+
+/**
+ * Pitch over time, one value per frame; frame `n` is centred on `n * hopSeconds`.
+ * `frequencies` is 0 in unvoiced frames. `confidence` (0-1) is one minus the depth of the
+ * YIN dip the estimate came from, so clean periodic frames score close to 1.
+ */
+export interface PitchCurve {
+    hopSeconds: number;
+    frequencies: Float32Array;
+    confidence: Float32Array;
+}
+
+export interface PitchTrackingOptions {
+    minFrequency?: number;
+    maxFrequency?: number;
+    // YIN's absolute threshold on the normalised difference; lower is stricter
+    threshold?: number;
+    hopSeconds?: number;
+}
+
+/**
+ * Tracks the fundamental frequency of a buffer with YIN (de Cheveigné & Kawahara, 2002). Each
+ * frame's difference function is computed through an FFT cross-correlation, normalised by
+ * its cumulative mean, and the first dip under the threshold gives the period, refined by
+ * parabolic interpolation.
+ */
+export function trackPitch(buffer: PcmBuffer, options: PitchTrackingOptions = {}): PitchCurve {
+    const { minFrequency = 50, maxFrequency = 1500, threshold = 0.15, hopSeconds = DEFAULT_HOP_SECONDS } = options;
+    const { sampleRate } = buffer;
+    const data = getMonoData(buffer);
+
+    const maxLag = Math.ceil(sampleRate / minFrequency);
+    const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+    // The integration window spans the longest period
+    const windowLength = maxLag;
+    const frameLength = windowLength + maxLag;
+    const fftSize = Math.pow(2, Math.ceil(Math.log2(frameLength)));
+    const fft = getFFT(fftSize);
+    const hop = Math.max(1, Math.round(hopSeconds * sampleRate));
+    const numFrames = Math.floor(data.length / hop) + 1;
+
+    const frequencies = new Float32Array(numFrames);
+    const confidence = new Float32Array(numFrames);
+    const frameReal = new Float32Array(fftSize);
+    const frameImag = new Float32Array(fftSize);
+    const windowReal = new Float32Array(fftSize);
+    const windowImag = new Float32Array(fftSize);
+    const cumulativeEnergy = new Float64Array(frameLength + 1);
+    const difference = new Float32Array(maxLag + 1);
+
+    for (let n = 0; n < numFrames; n++) {
+        const start = n * hop - Math.floor(frameLength / 2);
+        frameReal.fill(0);
+        frameImag.fill(0);
+        windowReal.fill(0);
+        windowImag.fill(0);
+        for (let i = 0; i < frameLength; i++) {
+            const index = start + i;
+            const sample = index >= 0 && index < data.length ? data[index] : 0;
+            frameReal[i] = sample;
+            if (i < windowLength) windowReal[i] = sample;
+            cumulativeEnergy[i + 1] = cumulativeEnergy[i] + sample * sample;
+        }
+        const windowEnergy = cumulativeEnergy[windowLength];
+        if (Math.sqrt(windowEnergy / windowLength) < SILENCE) continue;
+
+        // Cross-correlation of the window with the whole frame: IFFT(F * conj(W))
+        fft(frameReal, frameImag, false);
+        fft(windowReal, windowImag, false);
+        for (let k = 0; k < fftSize; k++) {
+            const re = frameReal[k] * windowReal[k] + frameImag[k] * windowImag[k];
+            const im = frameImag[k] * windowReal[k] - frameReal[k] * windowImag[k];
+            frameReal[k] = re;
+            frameImag[k] = im;
+        }
+        fft(frameReal, frameImag, true);
+
+        // Cumulative-mean-normalised difference: d'(0) = 1, d'(tau) = d(tau) * tau / sum(d(1..tau))
+        difference[0] = 1;
+        let runningSum = 0;
+        for (let lag = 1; lag <= maxLag; lag++) {
+            const lagEnergy = cumulativeEnergy[lag + windowLength] - cumulativeEnergy[lag];
+            const d = Math.max(0, windowEnergy + lagEnergy - 2 * frameReal[lag]);
+            runningSum += d;
+            difference[lag] = runningSum > 0 ? d * lag / runningSum : 1;
+        }
+
+        let lag = -1;
+        for (let tau = minLag; tau < maxLag; tau++) {
+            if (difference[tau] < threshold) {
+                while (tau + 1 < maxLag && difference[tau + 1] < difference[tau]) tau++;
+                lag = tau;
+                break;
+            }
+        }
+        if (lag < 0) {
+            // Unvoiced: report how periodic the best candidate was anyway
+            let best = 1;
+            for (let tau = minLag; tau <= maxLag; tau++) best = Math.min(best, difference[tau]);
+            confidence[n] = Math.max(0, 1 - best);
+            continue;
+        }
+
+        const [left, centre, right] = [difference[lag - 1], difference[lag], difference[lag + 1]];
+        const curvature = left - 2 * centre + right;
+        const offset = curvature > 0 ? 0.5 * (left - right) / curvature : 0;
+        frequencies[n] = sampleRate / (lag + offset);
+        confidence[n] = Math.max(0, Math.min(1, 1 - centre));
+    }
+
+    return { hopSeconds: hop / sampleRate, frequencies, confidence };
+}
+
+/**
+ * Maps a curve onto the frames `trackPitch` would give a buffer of `length` samples at
+ * `sampleRate`, so a curve measured before the buffer was resampled or padded can stand in
+ * for tracking it again. Frames past the end of the curve are unvoiced.
+ */
+export function fitPitchCurve(curve: PitchCurve, length: number, sampleRate: number, hopSeconds = DEFAULT_HOP_SECONDS): PitchCurve {
+    const hop = Math.max(1, Math.round(hopSeconds * sampleRate));
+    const numFrames = Math.floor(length / hop) + 1;
+    const frequencies = new Float32Array(numFrames);
+    const confidence = new Float32Array(numFrames);
+    for (let n = 0; n < numFrames; n++) {
+        const frame = Math.round(n * hop / sampleRate / curve.hopSeconds);
+        if (frame >= curve.frequencies.length) break;
+        frequencies[n] = curve.frequencies[frame];
+        confidence[n] = curve.confidence[frame];
+    }
+    return { hopSeconds: hop / sampleRate, frequencies, confidence };
+}
+
+/**
+ * Converts a frequency in Hz to a (fractional) MIDI note number.
+ */
+export function frequencyToMidi(frequency: number): number {
+    return 69 + 12 * Math.log2(frequency / 440);
+}
@@ -0,0 +1,117 @@
+import type { PcmBuffer, RenderHooks } from '../types';
+import { createPcmBuffer, throwIfAborted } from './pcmBuffer';
+
+// --- Band-limited (Kaiser-windowed sinc) resampler ---
+// The windowed sinc is tabulated once; lookups interpolate linearly between table entries.
+
+// Zero crossings of the sinc on each side of the centre tap. More gives a steeper anti-alias filter.
+const ZERO_CROSSINGS = 32;
+// Table entries per zero crossing
+const TABLE_RESOLUTION = 512;
+// Kaiser window shape; ~9 gives roughly 90dB stop-band rejection
+const KAISER_BETA = 9;
+
+let kernelTable: Float32Array | null = null;
+
+function besselI0(x: number): number {
+    let sum = 1;
+    let term = 1;
+    const halfX = x / 2;
+    for (let k = 1; k < 50; k++) {
+        term *= (halfX / k) * (halfX / k);
+        sum += term;
+        if (term < sum * 1e-12) break;
+    }
+    return sum;
+}
+
+function getKernelTable(): Float32Array {
+    if (kernelTable) return kernelTable;
+
+    const size = ZERO_CROSSINGS * TABLE_RESOLUTION + 2;
+    const table = new Float32Array(size);
+    const norm = besselI0(KAISER_BETA);
+    for (let i = 0; i < size; i++) {
+        const x = i / TABLE_RESOLUTION;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const ratio = x / ZERO_CROSSINGS;
+        const window = ratio >= 1 ? 0 : besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / norm;
+        table[i] = sinc * window;
+    }
+    kernelTable = table;
+    return table;
+}
+
+/**
+ * Resamples `input` to `outputLength` samples, reading `step` input samples per output sample.
+ * When `step` > 1 (downsampling) the sinc is widened so content above the new Nyquist is
+ * filtered out instead of aliasing.
+ */
+export function resample(input: Float32Array, step: number, outputLength: number): Float32Array {
+    const output = new Float32Array(outputLength);
+    if (input.length === 0 || outputLength === 0) return output;
+
+    const table = getKernelTable();
+    const cutoff = Math.min(1, 1 / step);
+    for (let n = 0; n < outputLength; n++) {
+        output[n] = interpolate(input, table, n * step, cutoff);
+    }
+    return output;
+}
+
+/**
+ * Like `resample`, but the step changes from sample to sample: output sample n reads the input
+ * at the sum of the steps before it. The anti-alias filter follows the local step.
+ */
+export function resampleVarying(input: Float32Array, steps: Float32Array): Float32Array {
+    const output = new Float32Array(steps.length);
+    if (input.length === 0) return output;
+
+    const table = getKernelTable();
+    let center = 0;
+    for (let n = 0; n < steps.length; n++) {
+        output[n] = interpolate(input, table, center, Math.min(1, 1 / steps[n]));
+        center += steps[n];
+    }
+    return output;
+}
+
+// The band-limited value of `input` at a fractional position, low-passed at `cutoff` x Nyquist
+function interpolate(input: Float32Array, table: Float32Array, center: number, cutoff: number): number {
+    const halfWidth = ZERO_CROSSINGS / cutoff;
+    const tableScale = cutoff * TABLE_RESOLUTION;
+    const first = Math.max(0, Math.ceil(center - halfWidth));
+    const last = Math.min(input.length - 1, Math.floor(center + halfWidth));
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+        const position = Math.abs(i - center) * tableScale;
+        const index = Math.floor(position);
+        if (index >= table.length - 1) continue;
+        const frac = position - index;
+        sum += input[i] * (table[index] + (table[index + 1] - table[index]) * frac);
+    }
+    return sum * cutoff;
+}
+
+/**
+ * Resamples every channel of a buffer so that it spans `outputLength` samples at `outputSampleRate`.
+ * Converting rates keeps the duration; changing the length at the same rate stretches the audio
+ * in time (and pitch), like a tape running at a different speed.
+ */
+export function resampleBuffer(buffer: PcmBuffer, outputLength: number, outputSampleRate: number = buffer.sampleRate, hooks: RenderHooks = {}): PcmBuffer {
+    const result = createPcmBuffer(buffer.numberOfChannels, outputLength, outputSampleRate);
+    const step = buffer.length / Math.max(1, outputLength);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        throwIfAborted(hooks.signal);
+        hooks.onProgress?.(c / buffer.numberOfChannels);
+        result.getChannelData(c).set(resample(buffer.getChannelData(c), step, outputLength));
+    }
+    return result;
+}
+
+/**
+ * The length a buffer has once converted to `sampleRate` at the same duration.
+ */
+export function lengthAtSampleRate(buffer: PcmBuffer, sampleRate: number): number {
+    return Math.round(buffer.length * sampleRate / buffer.sampleRate);
+}
@@ -0,0 +1,83 @@
+import type { RingModWaveform } from '../types';
+import type { PitchCurve } from './pitchTracker';
+
+/**
+ * Polynomial band-limited step (PolyBLEP): the correction that smooths a jump of 2 at phase 0
+ * over one sample on each side. `phase` and `increment` are in cycles.
+ */
+function polyBlep(phase: number, increment: number): number {
+    if (phase < increment) {
+        const t = phase / increment;
+        return t + t - t * t - 1;
+    }
+    if (phase > 1 - increment) {
+        const t = (phase - 1) / increment;
+        return t * t + t + t + 1;
+    }
+    return 0;
+}
+
+/**
+ * One sample of the modulator at `phase` (in cycles, 0-1), in -1..1. Every waveform starts at 0
+ * rising, like a sine. Square and saw are band-limited with PolyBLEP using the per-sample
+ * phase `increment`, so high modulator frequencies do not alias.
+ */
+export function modulatorSample(waveform: RingModWaveform, phase: number, increment: number): number {
+    const step = Math.min(0.5, Math.abs(increment));
+    switch (waveform) {
+        case 'triangle':
+            return 1 - 4 * Math.abs(((phase + 0.25) % 1) - 0.5);
+        case 'square': {
+            const naive = phase < 0.5 ? 1 : -1;
+            return step > 0 ? naive + polyBlep(phase, step) - polyBlep((phase + 0.5) % 1, step) : naive;
+        }
+        case 'saw': {
+            // Shifted half a cycle so it crosses zero rising at phase 0
+            const shifted = (phase + 0.5) % 1;
+            return step > 0 ? 2 * shifted - 1 - polyBlep(shifted, step) : 2 * shifted - 1;
+        }
+        case 'sine':
+        default:
+            return Math.sin(2 * Math.PI * phase);
+    }
+}
+
+/**
+ * Spreads `detuneCents` across channels: the first channel is detuned down by half, the last up
+ * by half. Returns a frequency ratio per channel; a single channel is not detuned.
+ */
+export function channelDetune(numChannels: number, detuneCents: number): number[] {
+    return Array.from({ length: numChannels }, (_, c) => {
+        const position = numChannels > 1 ? c / (numChannels - 1) - 0.5 : 0;
+        return Math.pow(2, detuneCents * position / 1200);
+    });
+}
+
+/**
+ * Turns a pitch curve into one frequency per sample: a glide between neighbouring pitched
+ * frames, and the last pitch held through unpitched ones. The first pitch also covers the
+ * start; when nothing is pitched the frequency is `fallback` throughout.
+ */
+export function followPitch(curve: PitchCurve, length: number, sampleRate: number, fallback: number): Float32Array {
+    const frequencies = new Float32Array(length).fill(fallback);
+    const hop = curve.hopSeconds * sampleRate;
+    const position = (frame: number) => Math.min(length, Math.round(frame * hop));
+    let previous = -1;
+    curve.frequencies.forEach((frequency, frame) => {
+        if (frequency <= 0) return;
+        if (previous < 0) {
+            frequencies.fill(frequency, 0, position(frame));
+        } else {
+            const from = curve.frequencies[previous];
+            const glideStart = position(frame - 1);
+            const glideEnd = position(frame);
+            frequencies.fill(from, position(previous), glideStart);
+            for (let i = glideStart; i < glideEnd; i++) {
+                frequencies[i] = from + (frequency - from) * (i - glideStart) / (glideEnd - glideStart);
+            }
+        }
+        previous = frame;
+    });
+    if (previous >= 0) frequencies.fill(curve.frequencies[previous], position(previous));
+    return frequencies;
+}
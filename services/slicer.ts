@@ -0,0 +1,132 @@
+import type { PcmBuffer, RenderHooks, SliceOrder } from '../types';
+import { getFFT } from './fft';
+import { createPcmBuffer, throwIfAborted } from './pcmBuffer';
+
+// Only the start of each slice is analysed; that is where its character is
+const ANALYSIS_SIZE = 2048;
+const NUM_BANDS = 24;
+const MIN_BAND_FREQ = 50;
+
+/**
+ * A stretch of audio between two onsets, in samples, with what the ordering rules compare.
+ */
+export interface Slice {
+    start: number;
+    end: number;
+    // RMS level in dB
+    loudness: number;
+    // Log band energies with the mean removed, so they describe timbre rather than level
+    spectrum: Float32Array;
+}
+
+const analysisWindow = (() => {
+    const window = new Float32Array(ANALYSIS_SIZE);
+    for (let i = 0; i < ANALYSIS_SIZE; i++) window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / ANALYSIS_SIZE));
+    return window;
+})();
+
+function describe(data: Float32Array, start: number, end: number, sampleRate: number): Slice {
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    const loudness = 10 * Math.log10(sum / Math.max(1, end - start) + 1e-12);
+
+    const fft = getFFT(ANALYSIS_SIZE);
+    const real = new Float32Array(ANALYSIS_SIZE);
+    const imag = new Float32Array(ANALYSIS_SIZE);
+    for (let i = 0; i < ANALYSIS_SIZE && start + i < end; i++) real[i] = data[start + i] * analysisWindow[i];
+    fft(real, imag, false);
+
+    // Log-spaced bands from MIN_BAND_FREQ up to Nyquist
+    const spectrum = new Float32Array(NUM_BANDS);
+    const binWidth = sampleRate / ANALYSIS_SIZE;
+    const ratio = Math.pow(sampleRate / 2 / MIN_BAND_FREQ, 1 / NUM_BANDS);
+    for (let band = 0; band < NUM_BANDS; band++) {
+        const low = Math.floor(MIN_BAND_FREQ * Math.pow(ratio, band) / binWidth);
+        const high = Math.max(low + 1, Math.floor(MIN_BAND_FREQ * Math.pow(ratio, band + 1) / binWidth));
+        let energy = 0;
+        for (let k = low; k < high && k <= ANALYSIS_SIZE / 2; k++) energy += real[k] * real[k] + imag[k] * imag[k];
+        spectrum[band] = Math.log(energy / (high - low) + 1e-12);
+    }
+    const mean = spectrum.reduce((a, b) => a + b, 0) / NUM_BANDS;
+    for (let band = 0; band < NUM_BANDS; band++) spectrum[band] -= mean;
+
+    return { start, end, loudness, spectrum };
+}
+
+/**
+ * Cuts a buffer (downmixed data) at its onsets. The stretch before the first onset is a slice
+ * too, so the whole buffer is covered.
+ */
+export function sliceAtOnsets(data: Float32Array, onsets: number[], sampleRate: number): Slice[] {
+    const bounds = [0, ...onsets.filter(i => i > 0 && i < data.length), data.length];
+    const slices: Slice[] = [];
+    for (let i = 0; i < bounds.length - 1; i++) {
+        if (bounds[i + 1] > bounds[i]) slices.push(describe(data, bounds[i], bounds[i + 1], sampleRate));
+    }
+    return slices;
+}
+
+function spectralDistance(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return sum;
+}
+
+function nearest(slices: Slice[], distance: (slice: Slice) => number): number {
+    let best = 0;
+    for (let i = 1; i < slices.length; i++) {
+        if (distance(slices[i]) < distance(slices[best])) best = i;
+    }
+    return best;
+}
+
+/**
+ * Picks a target slice for each source slot:
+ * - sequential: the target's slices in order, wrapping around
+ * - spectral: the slice whose band spectrum is closest to the slot's
+ * - loudness: the slice closest in level
+ * - random: any slice, drawn from `random`
+ */
+export function orderSlices(slots: Slice[], slices: Slice[], order: SliceOrder, random: () => number): number[] {
+    return slots.map((slot, index) => {
+        switch (order) {
+            case 'spectral':
+                return nearest(slices, slice => spectralDistance(slice.spectrum, slot.spectrum));
+            case 'loudness':
+                return nearest(slices, slice => Math.abs(slice.loudness - slot.loudness));
+            case 'random':
+                return Math.min(slices.length - 1, Math.floor(random() * slices.length));
+            case 'sequential':
+            default:
+                return index % slices.length;
+        }
+    });
+}
+
+/**
+ * Plays `target` slices into the source's slots: each slice starts at its slot and runs until
+ * the next slot (or until it runs out). Linear fades of `fadeLength` samples shape both ends,
+ * and a slice carries on for one fade into the next slot so the two crossfade.
+ */
+export function renderSlices(target: PcmBuffer, slots: Slice[], slices: Slice[], choices: number[], length: number, fadeLength: number, hooks: RenderHooks = {}): PcmBuffer {
+    const result = createPcmBuffer(target.numberOfChannels, length, target.sampleRate);
+    const fade = Math.max(1, fadeLength);
+
+    slots.forEach((slot, index) => {
+        if (index % 64 === 0) {
+            throwIfAborted(hooks.signal);
+            hooks.onProgress?.(index / slots.length);
+        }
+        const slice = slices[choices[index]];
+        const duration = Math.min(slice.end - slice.start, slot.end - slot.start + fade, length - slot.start);
+        for (let c = 0; c < target.numberOfChannels; c++) {
+            const input = target.getChannelData(c);
+            const output = result.getChannelData(c);
+            for (let i = 0; i < duration; i++) {
+                const gain = Math.min(1, (i + 1) / fade, (duration - i) / fade);
+                output[slot.start + i] += input[slice.start + i] * gain;
+            }
+        }
+    });
+    return result;
+}
@@ -0,0 +1,104 @@
+import type { SpectralMorphMode } from '../types';
+
+// Peaks are local maxima over this many bins on each side
+const PEAK_RADIUS = 2;
+// ...and must be within 40dB of the frame's loudest bin
+const PEAK_FLOOR = 0.01;
+const MAX_PEAKS = 24;
+
+/**
+ * Finds up to `maxPeaks` of the strongest spectral peaks in a magnitude spectrum. Returns bin
+ * indices in ascending order.
+ */
+export function findSpectralPeaks(magnitude: Float32Array, maxPeaks = MAX_PEAKS): number[] {
+    let loudest = 0;
+    for (let k = 0; k < magnitude.length; k++) loudest = Math.max(loudest, magnitude[k]);
+    if (loudest === 0) return [];
+
+    const peaks: number[] = [];
+    for (let k = 1; k < magnitude.length - 1; k++) {
+        const value = magnitude[k];
+        if (value < loudest * PEAK_FLOOR) continue;
+        let isPeak = true;
+        for (let j = Math.max(0, k - PEAK_RADIUS); j <= Math.min(magnitude.length - 1, k + PEAK_RADIUS); j++) {
+            // Ties resolve to the lowest bin
+            if (magnitude[j] > value || (magnitude[j] === value && j < k)) {
+                isPeak = false;
+                break;
+            }
+        }
+        if (isPeak) peaks.push(k);
+    }
+    return peaks
+        .sort((a, b) => magnitude[b] - magnitude[a])
+        .slice(0, maxPeaks)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Resamples `magnitude` along the frequency axis so that bin `from[j]` lands on bin `to[j]`,
+ * stretching linearly in between. Both anchor lists must be ascending and the same length.
+ */
+function warpSpectrum(magnitude: Float32Array, from: number[], to: number[], output: Float32Array): void {
+    let segment = 0;
+    for (let k = 0; k < output.length; k++) {
+        while (segment < to.length - 2 && k > to[segment + 1]) segment++;
+        const span = to[segment + 1] - to[segment];
+        const fraction = span > 0 ? (k - to[segment]) / span : 0;
+        const position = from[segment] + fraction * (from[segment + 1] - from[segment]);
+        const index = Math.min(magnitude.length - 1, Math.max(0, Math.floor(position)));
+        const next = Math.min(magnitude.length - 1, index + 1);
+        output[k] = magnitude[index] + (magnitude[next] - magnitude[index]) * (position - index);
+    }
+}
+
+/**
+ * Morphs one frame's magnitude spectrum (bins 0 to Nyquist) from `target` (position 0) to
+ * `source` (position 1).
+ *
+ * - bins: each bin's magnitude is blended linearly, so partials cross-fade in place.
+ * - peaks: the strongest peaks of the two spectra are paired in frequency order and glide
+ *   towards each other on a log-frequency path; both spectra are warped to meet the in-between
+ *   peaks before they are blended, so partials move instead of fading.
+ */
+export function morphMagnitudes(target: Float32Array, source: Float32Array, position: number, mode: SpectralMorphMode, output: Float32Array): void {
+    const p = Math.min(1, Math.max(0, position));
+    if (mode === 'bins' || p === 0 || p === 1) {
+        for (let k = 0; k < output.length; k++) output[k] = target[k] + (source[k] - target[k]) * p;
+        return;
+    }
+
+    const targetPeaks = findSpectralPeaks(target);
+    const sourcePeaks = findSpectralPeaks(source);
+    const count = Math.min(targetPeaks.length, sourcePeaks.length);
+    const lastBin = output.length - 1;
+    // Keep the strongest `count` of each, still in frequency order
+    const strongest = (peaks: number[], magnitude: Float32Array) => peaks
+        .slice()
+        .sort((a, b) => magnitude[b] - magnitude[a])
+        .slice(0, count)
+        .sort((a, b) => a - b);
+    const pairedTarget = strongest(targetPeaks, target);
+    const pairedSource = strongest(sourcePeaks, source);
+
+    const fromTarget = [0];
+    const fromSource = [0];
+    const to = [0];
+    for (let j = 0; j < count; j++) {
+        const morphed = Math.exp(Math.log(pairedTarget[j]) * (1 - p) + Math.log(pairedSource[j]) * p);
+        // Anchors have to keep rising for the warp to be a function
+        if (morphed <= to[to.length - 1] || morphed >= lastBin) continue;
+        fromTarget.push(pairedTarget[j]);
+        fromSource.push(pairedSource[j]);
+        to.push(morphed);
+    }
+    fromTarget.push(lastBin);
+    fromSource.push(lastBin);
+    to.push(lastBin);
+
+    const warpedTarget = new Float32Array(output.length);
+    const warpedSource = new Float32Array(output.length);
+    warpSpectrum(target, fromTarget, to, warpedTarget);
+    warpSpectrum(source, fromSource, to, warpedSource);
+    for (let k = 0; k < output.length; k++) output[k] = warpedTarget[k] + (warpedSource[k] - warpedTarget[k]) * p;
+}
@@ -0,0 +1,90 @@
+import type { PcmBuffer, EchoDivision } from '../types';
+import { getMonoData } from './channelMapping';
+import { computeOnsetFunction, HOP_SIZE } from './onsetDetector';
+
+const MIN_BPM = 40;
+const MAX_BPM = 240;
+// Tempos near 120 BPM are preferred, which settles half/double-time ambiguity the way
+// listeners usually do (Ellis, 2007)
+const PREFERRED_BPM = 120;
+const PREFERENCE_OCTAVES = 1.4;
+// Frames on each side of the triangular smoothing applied to the onset function
+const SMOOTHING_RADIUS = 2;
+// Repeats are followed until they have decayed this far (-60dB)
+const ECHO_FLOOR = 0.001;
+
+// Length of each note division in beats (quarter notes)
+const DIVISION_BEATS: Record<EchoDivision, number> = {
+    '1/2': 2,
+    '1/4': 1,
+    '1/4d': 1.5,
+    '1/8': 0.5,
+    '1/8d': 0.75,
+    '1/8t': 1 / 3,
+    '1/16': 0.25,
+};
+
+/**
+ * Estimates the tempo of a buffer in BPM from the autocorrelation of its onset function,
+ * weighted towards PREFERRED_BPM and refined by parabolic interpolation. Returns null when
+ * the buffer has no rhythm to measure.
+ */
+export function estimateTempo(buffer: PcmBuffer): number | null {
+    const odf = computeOnsetFunction(getMonoData(buffer));
+    const framesPerSecond = buffer.sampleRate / HOP_SIZE;
+    // Smoothing spreads each onset over a few frames, so beats that fall between frames still
+    // line up at the beat's lag
+    const smoothed = odf.map((_, n) => {
+        let sum = 0;
+        for (let k = -SMOOTHING_RADIUS; k <= SMOOTHING_RADIUS; k++) {
+            const weight = SMOOTHING_RADIUS + 1 - Math.abs(k);
+            sum += (odf[n + k] ?? 0) * weight;
+        }
+        return sum;
+    });
+    const mean = smoothed.reduce((a, b) => a + b, 0) / Math.max(1, smoothed.length);
+    const centred = smoothed.map(value => value - mean);
+
+    const minLag = Math.max(1, Math.floor(60 * framesPerSecond / MAX_BPM));
+    const maxLag = Math.min(centred.length - 2, Math.ceil(60 * framesPerSecond / MIN_BPM));
+    if (maxLag <= minLag) return null;
+
+    const correlation = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let n = lag; n < centred.length; n++) sum += centred[n] * centred[n - lag];
+        correlation[lag] = sum;
+    }
+
+    const weight = (lag: number) => {
+        const octaves = Math.log2(60 * framesPerSecond / lag / PREFERRED_BPM);
+        return Math.exp(-0.5 * (octaves / PREFERENCE_OCTAVES) ** 2);
+    };
+    let best = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        if (correlation[lag] <= 0 || correlation[lag] < correlation[lag - 1] || correlation[lag] < correlation[lag + 1]) continue;
+        if (best < 0 || correlation[lag] * weight(lag) > correlation[best] * weight(best)) best = lag;
+    }
+    if (best < 0) return null;
+
+    const [left, centre, right] = [correlation[best - 1], correlation[best], correlation[best + 1]];
+    const curvature = left - 2 * centre + right;
+    const offset = curvature < 0 ? 0.5 * (left - right) / curvature : 0;
+    return 60 * framesPerSecond / (best + offset);
+}
+
+/**
+ * The length of a note division at `bpm`, in seconds.
+ */
+export function noteDivisionSeconds(division: EchoDivision, bpm: number): number {
+    return DIVISION_BEATS[division] * 60 / bpm;
+}
+
+/**
+ * How long a feedback delay keeps sounding after its last input: the time for the repeats,
+ * which lose `feedback` of their level every `loopSeconds`, to decay 60dB.
+ */
+export function echoTailSeconds(loopSeconds: number, feedback: number): number {
+    const repeats = feedback > 0 ? Math.ceil(Math.log(ECHO_FLOOR) / Math.log(Math.min(feedback, 0.999))) : 0;
+    return loopSeconds * (repeats + 1);
+}
@@ -0,0 +1,177 @@
+import type { PcmBuffer, RenderHooks } from '../types';
+import { getFFT } from './fft';
+import { createPcmBuffer, throwIfAborted } from './pcmBuffer';
+
+const FRAME_SIZE = 2048;
+const SYNTHESIS_HOP = FRAME_SIZE / 4;
+const NUM_BINS = FRAME_SIZE / 2 + 1;
+
+/**
+ * One piece of a piecewise-linear time map: input samples [inputStart, inputEnd) are played
+ * over output samples [outputStart, outputEnd).
+ */
+export interface TimeMapSegment {
+    inputStart: number;
+    inputEnd: number;
+    outputStart: number;
+    outputEnd: number;
+}
+
+const hannWindow = (() => {
+    const window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / FRAME_SIZE));
+    }
+    return window;
+})();
+
+const wrapPhase = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+
+/**
+ * Walks a sorted time map, returning for each output position the matching input position and
+ * the index of the segment it falls in. Positions outside the map play at unit rate.
+ */
+function createTimeMapReader(segments: TimeMapSegment[]) {
+    let index = 0;
+    return (outputPosition: number) => {
+        while (index < segments.length - 1 && outputPosition >= segments[index].outputEnd) index++;
+        const segment = segments[index];
+        const outputSpan = segment.outputEnd - segment.outputStart;
+        if (outputPosition < segment.outputStart || outputPosition >= segment.outputEnd || outputSpan <= 0) {
+            const anchor = outputPosition < segment.outputStart ? segment.inputStart : segment.inputEnd;
+            const offset = outputPosition - (outputPosition < segment.outputStart ? segment.outputStart : segment.outputEnd);
+            return { inputPosition: anchor + offset, segmentIndex: index };
+        }
+        const progress = (outputPosition - segment.outputStart) / outputSpan;
+        return { inputPosition: segment.inputStart + progress * (segment.inputEnd - segment.inputStart), segmentIndex: index };
+    };
+}
+
+/**
+ * Pitch-preserving time stretch of one channel following a time map. A phase vocoder with
+ * identity phase locking: spectral peaks keep their instantaneous frequency from frame to
+ * frame and the bins around each peak keep their phase relative to it. Unless
+ * `resetAtSegments` is off, the phase is reset whenever the map enters a new segment, so the
+ * onsets at segment boundaries stay sharp; maps that merely trace a smooth rate curve turn it
+ * off to stay continuous.
+ */
+export function stretchChannel(input: Float32Array, segments: TimeMapSegment[], outputLength: number, onFrame?: (fraction: number) => void, resetAtSegments = true): Float32Array {
+    const output = new Float32Array(outputLength);
+    if (segments.length === 0 || outputLength === 0) return output;
+
+    const fft = getFFT(FRAME_SIZE);
+    const readTimeMap = createTimeMapReader(segments);
+    const real = new Float32Array(FRAME_SIZE);
+    const imag = new Float32Array(FRAME_SIZE);
+    const magnitude = new Float32Array(NUM_BINS);
+    const analysisPhase = new Float64Array(NUM_BINS);
+    const previousAnalysisPhase = new Float64Array(NUM_BINS);
+    const synthesisPhase = new Float64Array(NUM_BINS);
+    const previousSynthesisPhase = new Float64Array(NUM_BINS);
+    const peakOf = new Int32Array(NUM_BINS);
+    const windowSum = new Float32Array(outputLength);
+
+    const half = FRAME_SIZE / 2;
+    const numFrames = Math.ceil(outputLength / SYNTHESIS_HOP) + 1;
+    let previousInputStart = 0;
+    let previousSegment = -1;
+
+    for (let frame = 0; frame < numFrames; frame++) {
+        if (frame % 64 === 0) onFrame?.(frame / numFrames);
+
+        const outputCenter = frame * SYNTHESIS_HOP;
+        const { inputPosition, segmentIndex } = readTimeMap(outputCenter);
+        const inputStart = Math.round(inputPosition) - half;
+
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const index = inputStart + i;
+            real[i] = index >= 0 && index < input.length ? input[index] * hannWindow[i] : 0;
+            imag[i] = 0;
+        }
+        fft(real, imag, false);
+        for (let bin = 0; bin < NUM_BINS; bin++) {
+            magnitude[bin] = Math.hypot(real[bin], imag[bin]);
+            analysisPhase[bin] = Math.atan2(imag[bin], real[bin]);
+        }
+
+        // Assign every bin to the nearest spectral peak
+        const peaks: number[] = [];
+        for (let bin = 0; bin < NUM_BINS; bin++) {
+            const m = magnitude[bin];
+            if ((bin < 1 || m > magnitude[bin - 1]) && (bin < 2 || m > magnitude[bin - 2]) &&
+                (bin > NUM_BINS - 2 || m >= magnitude[bin + 1]) && (bin > NUM_BINS - 3 || m >= magnitude[bin + 2])) {
+                peaks.push(bin);
+            }
+        }
+        if (peaks.length === 0) peaks.push(0);
+        let peakIndex = 0;
+        for (let bin = 0; bin < NUM_BINS; bin++) {
+            while (peakIndex < peaks.length - 1 && Math.abs(peaks[peakIndex + 1] - bin) < Math.abs(peaks[peakIndex] - bin)) peakIndex++;
+            peakOf[bin] = peaks[peakIndex];
+        }
+
+        const analysisHop = inputStart - previousInputStart;
+        const resetPhase = frame === 0 || (resetAtSegments && segmentIndex !== previousSegment);
+        for (const peak of peaks) {
+            if (resetPhase) {
+                synthesisPhase[peak] = analysisPhase[peak];
+                continue;
+            }
+            const binFrequency = 2 * Math.PI * peak / FRAME_SIZE;
+            const instantaneousFrequency = analysisHop > 0
+                ? binFrequency + wrapPhase(analysisPhase[peak] - previousAnalysisPhase[peak] - binFrequency * analysisHop) / analysisHop
+                : binFrequency;
+            synthesisPhase[peak] = wrapPhase(previousSynthesisPhase[peak] + instantaneousFrequency * SYNTHESIS_HOP);
+        }
+        for (let bin = 0; bin < NUM_BINS; bin++) {
+            const peak = peakOf[bin];
+            if (peak !== bin) {
+                synthesisPhase[bin] = synthesisPhase[peak] + analysisPhase[bin] - analysisPhase[peak];
+            }
+        }
+
+        for (let bin = 0; bin < NUM_BINS; bin++) {
+            real[bin] = magnitude[bin] * Math.cos(synthesisPhase[bin]);
+            imag[bin] = magnitude[bin] * Math.sin(synthesisPhase[bin]);
+            if (bin > 0 && bin < half) {
+                real[FRAME_SIZE - bin] = real[bin];
+                imag[FRAME_SIZE - bin] = -imag[bin];
+            }
+        }
+        fft(real, imag, true);
+
+        const outputStart = outputCenter - half;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const index = outputStart + i;
+            if (index < 0 || index >= outputLength) continue;
+            output[index] += real[i] * hannWindow[i];
+            windowSum[index] += hannWindow[i] * hannWindow[i];
+        }
+
+        previousAnalysisPhase.set(analysisPhase);
+        previousSynthesisPhase.set(synthesisPhase);
+        previousInputStart = inputStart;
+        previousSegment = segmentIndex;
+    }
+
+    for (let i = 0; i < outputLength; i++) {
+        if (windowSum[i] > 1e-3) output[i] /= windowSum[i];
+    }
+    return output;
+}
+
+/**
+ * Stretches every channel of a buffer along the same time map.
+ */
+export function stretchBuffer(buffer: PcmBuffer, segments: TimeMapSegment[], outputLength: number, hooks: RenderHooks = {}, resetAtSegments = true): PcmBuffer {
+    const numChannels = buffer.numberOfChannels;
+    const result = createPcmBuffer(numChannels, outputLength, buffer.sampleRate);
+    for (let c = 0; c < numChannels; c++) {
+        const stretched = stretchChannel(buffer.getChannelData(c), segments, outputLength, (fraction) => {
+            throwIfAborted(hooks.signal);
+            hooks.onProgress?.((c + fraction) / numChannels);
+        }, resetAtSegments);
+        result.getChannelData(c).set(stretched);
+    }
+    return result;
+}
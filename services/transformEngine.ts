@@ -0,0 +1,350 @@
+import type { TransformationType, TransformationParams, ChainStage, XYCorner, PcmBuffer, RenderHooks, MasteringSettings, LoudnessReport, LengthPolicy } from '../types';
+import { getTransformation, rendersInWorker } from './transformationRegistry';
+import type { RenderOverrides } from './transformationRegistry';
+import { renderWithChannelMode } from './channelMapping';
+import { applyLengthPolicy, fitOnsetsToLength } from './alignment';
+import { applyModulations } from './modulation';
+import { masterBuffer } from './mastering';
+import { measure } from './measurements';
+import { fitPitchCurve } from './pitchTracker';
+import type { MelodyPitch } from './audioProcessor';
+import type { MeasurementKind, MeasurementOptions, MeasurementResult } from './measurements';
+import { resampleBuffer, lengthAtSampleRate } from './resampler';
+import { pcmFromChannels, copyChannels, toAudioBuffer, createAbortError, throwIfAborted, scaleProgress } from './pcmBuffer';
+import type { WorkerRequest, WorkerResponse } from './transformWorker';
+
+export interface TransformationRequest {
+    transformation: TransformationType;
+    source: AudioBuffer;
+    target: AudioBuffer;
+    params: TransformationParams;
+    // Only used by Transformation Morphing
+    morphA?: TransformationType;
+    morphB?: TransformationType;
+    // Only used by Transformation Chain
+    chain?: ChainStage[];
+    // Only used by XY Morphing
+    xyCorners?: XYCorner[];
+}
+
+// The request once the source has been converted to the target's sample rate
+interface PreparedRequest extends Omit<TransformationRequest, 'source' | 'target'> {
+    source: PcmBuffer;
+    target: PcmBuffer;
+    // The buffers the caller passed in, which identify the inputs for the render cache
+    inputs: { source: AudioBuffer; target: AudioBuffer };
+}
+
+// Cached sub-renders (see RenderOverrides.cache) for the last source/target pair rendered,
+// keyed by transformation and params
+let renderCache: { source: AudioBuffer; target: AudioBuffer; renders: Map<string, PcmBuffer>; samples: number } | null = null;
+// Total samples (across channels) the cache may hold: 256MB, enough for four corners of a
+// three-minute stereo file
+const RENDER_CACHE_SAMPLES = 1 << 26;
+// Sources already resampled to a target's sample rate, so re-renders on the same inputs skip it
+const preparedSources = new WeakMap<AudioBuffer, { sampleRate: number; buffer: PcmBuffer }>();
+// Pending or finished measurements (see measureOffThread), keyed by buffer and then by kind and options
+const measurementCache = new WeakMap<AudioBuffer, Map<string, Promise<unknown>>>();
+
+/**
+ * Renders a transformation without blocking the UI. Sample-domain transformations run in a
+ * Web Worker. Graph-based ones need an OfflineAudioContext, which only exists on the main
+ * thread, so their sample analysis (pitch, formant and onset tracking, impulse response
+ * shaping) runs in the worker first and only the graph is built and rendered here. Progress
+ * is reported through `hooks.onProgress` and the render rejects with an AbortError as soon
+ * as `hooks.signal` aborts.
+ *
+ * Before anything runs, the source is resampled to the target's sample rate, so every
+ * transformation can pair source and target samples one-to-one.
+ */
+export async function runTransformation(request: TransformationRequest, hooks: RenderHooks = {}): Promise<AudioBuffer> {
+    const { source, target } = request;
+    let preparedSource: PcmBuffer = source;
+    let renderHooks = hooks;
+    if (source.sampleRate !== target.sampleRate) {
+        const prepared = preparedSources.get(source);
+        if (prepared?.sampleRate === target.sampleRate) {
+            preparedSource = prepared.buffer;
+        } else {
+            preparedSource = await resampleOffThread(source, lengthAtSampleRate(source, target.sampleRate), target.sampleRate, scaleProgress(hooks, 0, 0.1));
+            preparedSources.set(source, { sampleRate: target.sampleRate, buffer: preparedSource });
+            renderHooks = scaleProgress(hooks, 0.1, 1);
+        }
+    }
+
+    const result = await renderTransformation(request.transformation, { ...request, source: preparedSource, inputs: { source, target } }, renderHooks);
+    hooks.onProgress?.(1);
+    return toAudioBuffer(result);
+}
+
+/**
+ * Runs a finished render through the output stage (loudness normalisation and true-peak
+ * limiting) in a worker, and reports the loudness of the result.
+ */
+export async function masterResult(buffer: AudioBuffer, settings: MasteringSettings, hooks: RenderHooks = {}): Promise<{ buffer: AudioBuffer; loudness: LoudnessReport }> {
+    if (typeof Worker === 'undefined') {
+        const mastered = masterBuffer(buffer, settings, hooks);
+        return { buffer: toAudioBuffer(mastered.buffer), loudness: mastered.loudness };
+    }
+    const response = await postToWorker<WorkerDone>({ type: 'master', buffer: transferable(buffer), settings }, hooks);
+    return {
+        buffer: toAudioBuffer(pcmFromChannels(response.result.channels, response.result.sampleRate)),
+        loudness: response.loudness!,
+    };
+}
+
+async function renderTransformation(type: TransformationType, request: PreparedRequest, hooks: RenderHooks): Promise<PcmBuffer> {
+    const { morphA, morphB, chain, xyCorners } = request;
+    const definition = getTransformation(type);
+    throwIfAborted(hooks.signal);
+
+    let { source, target } = request;
+    let params = request.params;
+    const lengthPolicy = params.lengthPolicies?.[type] ?? definition.lengthPolicy;
+    if (lengthPolicy) {
+        ({ source, target } = await applyLengthPolicy(lengthPolicy, source, target, (buffer, length) =>
+            resampleOffThread(buffer, length, buffer.sampleRate, { signal: hooks.signal })
+        ));
+        if (params.sourceOnsets && source.length !== request.source.length) {
+            const sourceOnsets = fitOnsetsToLength(lengthPolicy, params.sourceOnsets,
+                request.source.length / source.sampleRate, source.length / source.sampleRate);
+            params = { ...params, sourceOnsets };
+        }
+    }
+    // Features are measured on the source as the transformation will see it, and laid out
+    // over the target, which is what automation lanes are stretched over
+    if (params.modulations?.length) {
+        params = await modulateOffThread(type, params, source, target.length, { signal: hooks.signal });
+    }
+
+    const channelMode = params.channelModes?.[type] ?? definition.channelMode;
+    const context = {
+        morphA,
+        morphB,
+        chain,
+        xyCorners,
+        analysis: definition.pitchInputs && channelMode === 'linked'
+            ? await reusePitchCurves(request, source, target, lengthPolicy, hooks)
+            : undefined,
+        render: (subType: TransformationType, subHooks: RenderHooks, { cache, ...overrides }: RenderOverrides = {}) => {
+            const subRequest = { ...request, ...overrides };
+            return cache && !overrides.target
+                ? renderCached(subType, subRequest, subHooks)
+                : renderTransformation(subType, subRequest, subHooks);
+        },
+    };
+    const renderOnce = async (sourcePart: PcmBuffer, targetPart: PcmBuffer, partHooks: RenderHooks) => {
+        if (rendersInWorker(definition, params)) {
+            return typeof Worker !== 'undefined'
+                ? runInWorker(
+                    { type: 'render', transformation: type, params, source: transferable(sourcePart), target: transferable(targetPart), analysis: context.analysis },
+                    partHooks
+                )
+                : definition.offline(sourcePart, targetPart, params, { ...context, ...partHooks });
+        }
+        if (!definition.analyze) {
+            return definition.offline(sourcePart, targetPart, params, { ...context, ...partHooks });
+        }
+        const analysis = await analyzeOffThread(type, params, sourcePart, targetPart, scaleProgress(partHooks, 0, 0.3));
+        return definition.offline(sourcePart, targetPart, params, { ...context, ...scaleProgress(partHooks, 0.3, 1), analysis });
+    };
+
+    if (!channelMode) {
+        return renderOnce(source, target, hooks);
+    }
+    return renderWithChannelMode(channelMode, source, target, hooks, renderOnce);
+}
+
+/**
+ * Pitch curves of the caller's files (usually already measured for the pitch view) fitted to
+ * the buffers the render sees, so it doesn't track them again. Only inputs whose timing the
+ * length policy left alone are reused, and the target only when it is the caller's file
+ * rather than, say, the previous chain stage's output.
+ */
+async function reusePitchCurves(request: PreparedRequest, source: PcmBuffer, target: PcmBuffer, lengthPolicy: LengthPolicy | undefined, hooks: RenderHooks): Promise<MelodyPitch> {
+    const timingKept = source.length === request.source.length || !lengthPolicy || lengthPolicy === 'pad' || lengthPolicy === 'truncate';
+    if (!timingKept) return {};
+    const { inputs } = request;
+    const [sourceCurve, targetCurve] = await Promise.all([
+        measureOffThread(inputs.source, 'pitch', {}),
+        request.target === inputs.target ? measureOffThread(inputs.target, 'pitch', {}) : undefined,
+    ]);
+    throwIfAborted(hooks.signal);
+    return {
+        source: fitPitchCurve(sourceCurve, source.length, source.sampleRate),
+        target: targetCurve && fitPitchCurve(targetCurve, target.length, target.sampleRate),
+    };
+}
+
+/**
+ * Drops every cached sub-render. Called when the selected transformation changes, since its
+ * renders will not be asked for again.
+ */
+export function clearRenderCache(): void {
+    renderCache = null;
+}
+
+async function renderCached(type: TransformationType, request: PreparedRequest, hooks: RenderHooks): Promise<PcmBuffer> {
+    const { source, target } = request.inputs;
+    if (renderCache?.source !== source || renderCache.target !== target) {
+        renderCache = { source, target, renders: new Map(), samples: 0 };
+    }
+    const cache = renderCache;
+
+    const key = JSON.stringify([type, request.params]);
+    const cached = cache.renders.get(key);
+    if (cached) {
+        // Re-insert so the render counts as recently used
+        cache.renders.delete(key);
+        cache.renders.set(key, cached);
+        hooks.onProgress?.(1);
+        return cached;
+    }
+    const result = await renderTransformation(type, request, hooks);
+    const samples = result.length * result.numberOfChannels;
+    if (renderCache !== cache || samples > RENDER_CACHE_SAMPLES) return result;
+
+    cache.renders.set(key, result);
+    cache.samples += samples;
+    for (const [oldestKey, oldest] of cache.renders) {
+        if (cache.samples <= RENDER_CACHE_SAMPLES) break;
+        // Maps iterate in insertion order, so this evicts the least recently used render first
+        cache.renders.delete(oldestKey);
+        cache.samples -= oldest.length * oldest.numberOfChannels;
+    }
+    return result;
+}
+
+/**
+ * Resamples in the worker when possible; the windowed-sinc resampler is too slow for the main thread.
+ */
+function resampleOffThread(buffer: PcmBuffer, length: number, sampleRate: number, hooks: RenderHooks): Promise<PcmBuffer> {
+    if (typeof Worker === 'undefined') {
+        return Promise.resolve(resampleBuffer(buffer, length, sampleRate, hooks));
+    }
+    return runInWorker({ type: 'resample', buffer: transferable(buffer), length, sampleRate }, hooks);
+}
+
+/**
+ * Runs a graph-based transformation's analysis step in the worker when possible.
+ */
+async function analyzeOffThread(type: TransformationType, params: TransformationParams, source: PcmBuffer, target: PcmBuffer, hooks: RenderHooks): Promise<unknown> {
+    const definition = getTransformation(type);
+    if (typeof Worker === 'undefined') {
+        throwIfAborted(hooks.signal);
+        return definition.analyze?.(source, target, params);
+    }
+    const { analysis } = await postToWorker<WorkerAnalyzed>(
+        { type: 'analyze', transformation: type, params, source: transferable(source), target: transferable(target) },
+        hooks
+    );
+    return analysis;
+}
+
+/**
+ * Resolves the modulation matrix in the worker when possible; feature extraction runs over
+ * the whole source.
+ */
+async function modulateOffThread(type: TransformationType, params: TransformationParams, source: PcmBuffer, renderLength: number, hooks: RenderHooks): Promise<TransformationParams> {
+    if (typeof Worker === 'undefined') {
+        throwIfAborted(hooks.signal);
+        return applyModulations(params, getTransformation(type).params, source, renderLength);
+    }
+    const response = await postToWorker<WorkerModulated>(
+        { type: 'modulate', transformation: type, params, source: transferable(source), renderLength },
+        hooks
+    );
+    return response.params;
+}
+
+/**
+ * Measures an input file for the UI in the worker when possible. Results are cached per buffer
+ * and options, so views that show the same analysis share one measurement.
+ */
+export function measureOffThread<K extends MeasurementKind>(buffer: AudioBuffer, kind: K, options: MeasurementOptions<K>): Promise<MeasurementResult<K>> {
+    let measurements = measurementCache.get(buffer);
+    if (!measurements) {
+        measurements = new Map();
+        measurementCache.set(buffer, measurements);
+    }
+    const key = JSON.stringify([kind, options]);
+    let measurement = measurements.get(key);
+    if (!measurement) {
+        measurement = typeof Worker === 'undefined'
+            ? Promise.resolve().then(() => measure(buffer, kind, options))
+            : postToWorker<WorkerMeasured>({ type: 'measure', kind, options, buffer: transferable(buffer) }, {}).then(({ result }) => result);
+        // A failed measurement is retried the next time it is asked for
+        measurement.catch(() => measurements.delete(key));
+        measurements.set(key, measurement);
+    }
+    return measurement as Promise<MeasurementResult<K>>;
+}
+
+// Copies channel data so it can be transferred without detaching the memory behind an AudioBuffer
+function transferable(buffer: PcmBuffer) {
+    return { channels: copyChannels(buffer), sampleRate: buffer.sampleRate };
+}
+
+async function runInWorker(request: WorkerRequest, hooks: RenderHooks): Promise<PcmBuffer> {
+    const { result } = await postToWorker<WorkerDone>(request, hooks);
+    return pcmFromChannels(result.channels, result.sampleRate);
+}
+
+type WorkerDone = Extract<WorkerResponse, { type: 'done' }>;
+type WorkerAnalyzed = Extract<WorkerResponse, { type: 'analyzed' }>;
+type WorkerModulated = Extract<WorkerResponse, { type: 'modulated' }>;
+type WorkerMeasured = Extract<WorkerResponse, { type: 'measured' }>;
+
+/**
+ * Runs one job in a dedicated worker. Channel data is transferred rather than cloned, and
+ * cancelling terminates the worker outright.
+ */
+function postToWorker<Result extends WorkerDone | WorkerAnalyzed | WorkerModulated | WorkerMeasured>(request: WorkerRequest, hooks: RenderHooks): Promise<Result> {
+    const { signal, onProgress } = hooks;
+
+    return new Promise<Result>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+
+        const worker = new Worker(new URL('./transformWorker.ts', import.meta.url), { type: 'module' });
+
+        const cleanup = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            cleanup();
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'progress':
+                    onProgress?.(message.fraction);
+                    break;
+                case 'done':
+                case 'analyzed':
+                case 'modulated':
+                case 'measured':
+                    cleanup();
+                    resolve(message as Result);
+                    break;
+                case 'error':
+                    cleanup();
+                    reject(new Error(message.message));
+                    break;
+            }
+        };
+        worker.onerror = (event) => {
+            cleanup();
+            reject(new Error(event.message || 'The transformation worker crashed.'));
+        };
+
+        const buffers = 'buffer' in request ? [request.buffer] : 'target' in request ? [request.source, request.target] : [request.source];
+        worker.postMessage(request, buffers.flatMap(buffer => buffer.channels.map(channel => channel.buffer)));
+    });
+}
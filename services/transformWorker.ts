@@ -0,0 +1,160 @@
+import type { TransformationType, TransformationParams, PcmBuffer, MasteringSettings, LoudnessReport } from '../types';
+import { pcmFromChannels } from './pcmBuffer';
+import { getTransformation, rendersInWorker } from './transformationRegistry';
+import { resampleBuffer } from './resampler';
+import { masterBuffer } from './mastering';
+import { measure } from './measurements';
+import { applyModulations } from './modulation';
+import type { MeasurementKind, MeasurementOptions, MeasurementResult } from './measurements';
+
+// --- Message protocol between the transformation engine and this worker ---
+
+export interface TransferredBuffer {
+    channels: Float32Array[];
+    sampleRate: number;
+}
+
+export interface WorkerRenderRequest {
+    type: 'render';
+    transformation: TransformationType;
+    params: TransformationParams;
+    source: TransferredBuffer;
+    target: TransferredBuffer;
+    // Passed to the transformation as RenderContext.analysis
+    analysis?: unknown;
+}
+
+// Runs a graph-based transformation's `analyze` step ahead of its main-thread render
+export interface WorkerAnalyzeRequest {
+    type: 'analyze';
+    transformation: TransformationType;
+    params: TransformationParams;
+    source: TransferredBuffer;
+    target: TransferredBuffer;
+}
+
+// Resolves a render's modulation matrix against the (length-fitted) source
+export interface WorkerModulateRequest {
+    type: 'modulate';
+    transformation: TransformationType;
+    params: TransformationParams;
+    source: TransferredBuffer;
+    renderLength: number;
+}
+
+// Measures an input file for the UI (see services/measurements)
+export interface WorkerMeasureRequest {
+    type: 'measure';
+    kind: MeasurementKind;
+    options: MeasurementOptions<MeasurementKind>;
+    buffer: TransferredBuffer;
+}
+
+export interface WorkerResampleRequest {
+    type: 'resample';
+    buffer: TransferredBuffer;
+    length: number;
+    sampleRate: number;
+}
+
+export interface WorkerMasterRequest {
+    type: 'master';
+    buffer: TransferredBuffer;
+    settings: MasteringSettings;
+}
+
+export type WorkerRequest =
+    | WorkerRenderRequest
+    | WorkerAnalyzeRequest
+    | WorkerModulateRequest
+    | WorkerMeasureRequest
+    | WorkerResampleRequest
+    | WorkerMasterRequest;
+
+export type WorkerResponse =
+    | { type: 'progress'; fraction: number }
+    // `loudness` is only set for master requests
+    | { type: 'done'; result: TransferredBuffer; loudness?: LoudnessReport }
+    | { type: 'analyzed'; analysis: unknown }
+    | { type: 'modulated'; params: TransformationParams }
+    | { type: 'measured'; result: MeasurementResult<MeasurementKind> }
+    | { type: 'error'; message: string };
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+const onProgress = (fraction: number) => post({ type: 'progress', fraction });
+
+function analyze(request: WorkerAnalyzeRequest): unknown {
+    const { transformation, params, source, target } = request;
+    const definition = getTransformation(transformation);
+    if (!definition.analyze) {
+        throw new Error(`${transformation} has no analysis step.`);
+    }
+    return definition.analyze(
+        pcmFromChannels(source.channels, source.sampleRate),
+        pcmFromChannels(target.channels, target.sampleRate),
+        params
+    );
+}
+
+async function handleRequest(request: Exclude<WorkerRequest, WorkerAnalyzeRequest | WorkerModulateRequest | WorkerMeasureRequest>): Promise<{ result: PcmBuffer; loudness?: LoudnessReport }> {
+    if (request.type === 'resample') {
+        const { buffer, length, sampleRate } = request;
+        return { result: resampleBuffer(pcmFromChannels(buffer.channels, buffer.sampleRate), length, sampleRate, { onProgress }) };
+    }
+    if (request.type === 'master') {
+        const { buffer, settings } = request;
+        const { buffer: result, loudness } = masterBuffer(pcmFromChannels(buffer.channels, buffer.sampleRate), settings, { onProgress });
+        return { result, loudness };
+    }
+
+    const { transformation, params, source, target, analysis } = request;
+    const definition = getTransformation(transformation);
+    if (!rendersInWorker(definition, params)) {
+        throw new Error(`${transformation} cannot be rendered in a worker.`);
+    }
+    const result = await definition.offline(
+        pcmFromChannels(source.channels, source.sampleRate),
+        pcmFromChannels(target.channels, target.sampleRate),
+        params,
+        {
+            onProgress,
+            analysis,
+            render: () => Promise.reject(new Error('Composite transformations cannot be rendered in a worker.')),
+        }
+    );
+    return { result };
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    try {
+        if (event.data.type === 'analyze') {
+            post({ type: 'analyzed', analysis: analyze(event.data) });
+            return;
+        }
+        if (event.data.type === 'modulate') {
+            const { transformation, params, source, renderLength } = event.data;
+            const schema = getTransformation(transformation).params;
+            post({ type: 'modulated', params: applyModulations(params, schema, pcmFromChannels(source.channels, source.sampleRate), renderLength) });
+            return;
+        }
+        if (event.data.type === 'measure') {
+            const { kind, options, buffer } = event.data;
+            post({ type: 'measured', result: measure(pcmFromChannels(buffer.channels, buffer.sampleRate), kind, options) });
+            return;
+        }
+        const { result, loudness } = await handleRequest(event.data);
+        const channels: Float32Array[] = [];
+        for (let c = 0; c < result.numberOfChannels; c++) {
+            channels.push(result.getChannelData(c));
+        }
+        // Results may alias the input arrays (e.g. when a transform passes the target through),
+        // so only transfer each underlying ArrayBuffer once.
+        const transfer = [...new Set(channels.map(channel => channel.buffer))] as ArrayBuffer[];
+        post({ type: 'done', result: { channels, sampleRate: result.sampleRate }, loudness }, transfer);
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : 'The transformation worker failed.' });
+    }
+};
@@ -0,0 +1,771 @@
+import { TransformationType } from '../types';
+import type { TransformationParams, ChainStage, XYCorner, PcmBuffer, RenderHooks, ParamSchema, ChoiceSchema, ChannelMode, LengthPolicy, NumericParamKey, ChoiceParamKey, ModulationFeature, ModulationPolarity } from '../types';
+import { SPECTRAL_BANDS } from '../constants';
+import type * as Icons from '../components/Icons';
+import { toAudioBuffer, scaleProgress, copyChannels, pcmFromChannels } from './pcmBuffer';
+import { applyAmplitudeMapping, applySpectralShaping, applyRhythmicGating, applyConvolution, applyTimeScaleWarping, applySurfaceTranslationMapping, applyFourierMasking, applyCepstralCrossSynthesis, applyGranularCloud, applySpectralMorph, applyMelodyTransfer, applySliceResequence, applySidechainDynamics, applyEqMatch, applyHarmonicImprinting, applyInterferenceEchoes, applyFormantShifting, analyzeConvolution, analyzeTimeScaleWarping, analyzeHarmonicImprinting, analyzeInterferenceEchoes, analyzeFormantShifting, applyDynamicRingModulation, applyTransformationMorph, applyXYMorph, mixWetDry } from './audioProcessor';
+import type { TimeWarpPlan, EchoTriggers, MelodyPitch } from './audioProcessor';
+import type { HarmonicTracks } from './harmonicTracker';
+import type { FormantTracks } from './formantTracker';
+
+/**
+ * Everything a transformation gets while rendering: progress/cancellation hooks plus a way to
+ * render other transformations (used by composite techniques such as morphing).
+ */
+export interface RenderContext extends RenderHooks {
+    // Renders another transformation on the same inputs, or on a different target/params
+    render: (type: TransformationType, hooks: RenderHooks, overrides?: RenderOverrides) => Promise<PcmBuffer>;
+    morphA?: TransformationType;
+    morphB?: TransformationType;
+    chain?: ChainStage[];
+    xyCorners?: XYCorner[];
+    // Analysis done ahead of the render: what the definition's `analyze` returned, or the
+    // caller's pitch measurements for transformations with `pitchInputs` (a MelodyPitch)
+    analysis?: unknown;
+}
+
+export interface RenderOverrides {
+    target?: PcmBuffer;
+    params?: TransformationParams;
+    // Reuse an earlier render of the same transformation and params on the same inputs
+    cache?: boolean;
+}
+
+export type OfflineRender = (source: PcmBuffer, target: PcmBuffer, params: TransformationParams, context: RenderContext) => Promise<PcmBuffer>;
+
+export interface TransformationDefinition {
+    id: TransformationType;
+    title: string;
+    description: string;
+    // Name of the icon component exported from components/Icons. Kept as a name so this module
+    // (and the worker that imports it) never pulls in React.
+    icon: keyof typeof Icons;
+    params: ParamSchema;
+    // Parameters picked from a fixed set of options rather than a slider
+    choices?: ChoiceSchema;
+    // Default source-to-target channel mapping. Composite transformations leave this unset and
+    // let each inner transformation map channels itself.
+    channelMode?: ChannelMode;
+    // Default way the source is fitted to the target's length. Left unset by transformations
+    // that do not pair source and target samples in time (e.g. convolution, which uses the
+    // whole source as an impulse response).
+    lengthPolicy?: LengthPolicy;
+    offline: OfflineRender;
+    // True when `offline` only touches sample data, so it can run in the transformation worker.
+    // A function decides per render, for techniques whose modes differ.
+    runsInWorker?: boolean | ((params: TransformationParams) => boolean);
+    // Sample analysis that a render which cannot run in the worker (it needs an
+    // OfflineAudioContext) does before building its graph. The engine runs it in the worker and
+    // hands the result to `offline` as `context.analysis`, so it must be structured-cloneable.
+    analyze?: (source: PcmBuffer, target: PcmBuffer, params: TransformationParams) => unknown;
+    // Kernel in public/transform-processor.js that implements the technique for live input
+    live?: { kernel: string };
+    // Can be used as one side of Transformation Morphing (defaults to true)
+    morphable?: boolean;
+    // Renders other transformations (morphing, chains), so it cannot be nested inside another one
+    composite?: boolean;
+    // Inputs whose onsets drive the technique; the UI shows editable markers for them
+    onsetInputs?: OnsetInput[];
+    // Inputs whose pitch drives the technique; the UI draws their detected pitch curves, and
+    // the render reuses them when the inputs reach it unchanged in time
+    pitchInputs?: OnsetInput[];
+    // Plain-language description used to prompt the AI name generator
+    aiDescription: string;
+}
+
+export type OnsetInput = 'source' | 'target';
+
+// Shared by every onset-driven transformation, so they all read the same param keys
+const ONSET_PARAMS: ParamSchema = {
+    onsetSensitivity: { label: 'Onset Sensitivity', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+};
+
+const ONSET_CHOICES: ChoiceSchema = {
+    onsetMethod: {
+        label: 'Onset Detection',
+        options: [
+            { value: 'spectral-flux', label: 'Spectral Flux' },
+            { value: 'hfc', label: 'High-Frequency Content' },
+            { value: 'complex', label: 'Complex Domain' },
+        ],
+        defaultValue: 'spectral-flux',
+    },
+};
+
+// Shared by the blending transformations
+const CROSSFADE_CHOICES: ChoiceSchema = {
+    morphCrossfade: {
+        label: 'Crossfade',
+        options: [
+            { value: 'linear', label: 'Linear' },
+            { value: 'equal-power', label: 'Equal Power' },
+        ],
+        defaultValue: 'linear',
+    },
+};
+
+// Graph-based entries wrap their inputs in toAudioBuffer(): an OfflineAudioContext can only play
+// real AudioBuffers, while composite renders may hand them plain PcmBuffers.
+export const TRANSFORMATIONS: TransformationDefinition[] = [
+    {
+        id: TransformationType.AMPLITUDE,
+        title: 'Amplitude Mapping',
+        description: 'Applies the volume envelope of the source to the target.',
+        icon: 'IconAmplitude',
+        params: {},
+        channelMode: 'per-channel',
+        lengthPolicy: 'pad',
+        offline: (source, target, _params, context) => applyAmplitudeMapping(source, target, context),
+        runsInWorker: true,
+        live: { kernel: 'amplitude' },
+        aiDescription: 'The rhythm and volume shape of the source was applied to the target.',
+    },
+    {
+        id: TransformationType.SPECTRAL,
+        title: 'Spectral Shaping',
+        description: 'Reshapes the frequency content of the target to match the source.',
+        icon: 'IconSpectral',
+        params: {
+            spectralBands: { label: 'Bands', min: 4, max: 32, step: 1, defaultValue: SPECTRAL_BANDS },
+            spectralBandQ: { label: 'Band Q', min: 1, max: 30, step: 0.5, defaultValue: 5 },
+            spectralAttack: { label: 'Attack', min: 0.5, max: 100, step: 0.5, defaultValue: 3, unit: 'ms' },
+            spectralRelease: { label: 'Release', min: 5, max: 1000, step: 5, defaultValue: 250, unit: 'ms' },
+            spectralMix: { label: 'Mix', min: 0, max: 1, step: 0.01, defaultValue: 1.0, automatable: true },
+        },
+        channelMode: 'per-channel',
+        lengthPolicy: 'pad',
+        offline: (source, target, params, context) => applySpectralShaping(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: 'The tonal color and frequency character of the source was imprinted onto the target.',
+    },
+    {
+        id: TransformationType.RHYTHMIC,
+        title: 'Rhythmic Gating',
+        description: 'Triggers the target sound using the rhythmic attacks of the source.',
+        icon: 'IconRhythmic',
+        params: {
+            gateThreshold: { label: 'Gate Threshold', min: 0.01, max: 1.0, step: 0.01, defaultValue: 0.2, automatable: true },
+            ...ONSET_PARAMS,
+        },
+        choices: ONSET_CHOICES,
+        onsetInputs: ['source'],
+        channelMode: 'linked',
+        lengthPolicy: 'loop',
+        offline: (source, target, params, context) => applyRhythmicGating(source, target, params, context),
+        runsInWorker: true,
+        live: { kernel: 'gate' },
+        aiDescription: 'The percussive hits of the source were used to trigger the target sound.',
+    },
+    {
+        id: TransformationType.CONVOLUTION,
+        title: 'Convolution Morphing',
+        description: 'Imprints the sonic character of the source onto the target.',
+        icon: 'IconConvolution',
+        params: {
+            convolutionMix: { label: 'Wet/Dry Mix', min: 0, max: 1, step: 0.01, defaultValue: 1, automatable: true },
+            convolutionPreDelay: { label: 'Pre-Delay', min: 0, max: 500, step: 1, defaultValue: 0, unit: 'ms' },
+            irStart: { label: 'IR Start', min: 0, max: 10, step: 0.01, defaultValue: 0, unit: 's' },
+            irLength: { label: 'IR Length', min: 0.05, max: 10, step: 0.01, defaultValue: 10, unit: 's' },
+            irFade: { label: 'IR Fade-Out', min: 0, max: 5, step: 0.01, defaultValue: 0.01, unit: 's' },
+            irStretch: { label: 'IR Stretch', min: 0.25, max: 4, step: 0.01, defaultValue: 1, unit: 'x' },
+        },
+        choices: {
+            irDirection: {
+                label: 'IR Direction',
+                options: [
+                    { value: 'forward', label: 'Forward' },
+                    { value: 'reverse', label: 'Reversed' },
+                ],
+                defaultValue: 'forward',
+            },
+            convolutionTail: {
+                label: 'Tail',
+                options: [
+                    { value: 'decay', label: 'Until It Decays (-60dB)' },
+                    { value: 'full', label: 'Full Length' },
+                    { value: 'target', label: "Cut at Target's End" },
+                ],
+                defaultValue: 'decay',
+            },
+        },
+        channelMode: 'per-channel',
+        // The shaped impulse response comes back as bare channel data
+        analyze: (source, _target, params) => copyChannels(analyzeConvolution(source, params)),
+        offline: (source, target, params, context) => {
+            const impulseResponse = context.analysis as Float32Array[] | undefined;
+            return applyConvolution(source, target, params, context, impulseResponse && pcmFromChannels(impulseResponse, source.sampleRate));
+        },
+        aiDescription: 'The resonance and acoustic space of the source was applied to the target.',
+    },
+    {
+        id: TransformationType.TIME_WARP,
+        title: 'Time Scale Warping',
+        description: "Matches the target's rhythm to the source's groove by time-stretching.",
+        icon: 'IconTimeWarp',
+        params: {
+            ...ONSET_PARAMS,
+        },
+        choices: {
+            ...ONSET_CHOICES,
+            timeWarpMode: {
+                label: 'Stretch Mode',
+                options: [
+                    { value: 'vocoder', label: 'Phase Vocoder (keeps pitch)' },
+                    { value: 'tape', label: 'Tape (pitch follows speed)' },
+                ],
+                defaultValue: 'vocoder',
+            },
+        },
+        onsetInputs: ['source', 'target'],
+        channelMode: 'linked',
+        offline: (source, target, params, context) => applyTimeScaleWarping(source, target, params, context, context.analysis as TimeWarpPlan | null | undefined),
+        // Tape mode plays segments through an OfflineAudioContext
+        runsInWorker: (params) => params.timeWarpMode !== 'tape',
+        analyze: analyzeTimeScaleWarping,
+        aiDescription: "The rhythmic timing of the source was applied to the target, stretching and shrinking it to match the source's groove.",
+    },
+    {
+        id: TransformationType.SURFACE_TRANSLATE,
+        title: 'Surface Translation',
+        description: "Uses the source's waveform to re-sequence the target's sonic texture.",
+        icon: 'IconSurfaceTranslation',
+        params: {
+            surfaceJitter: { label: 'Jitter', min: 0, max: 1, step: 0.01, defaultValue: 0, automatable: true },
+        },
+        channelMode: 'per-channel',
+        offline: (source, target, params, context) => applySurfaceTranslationMapping(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: 'The texture of the target sound was re-sequenced according to the waveform shape of the source.',
+    },
+    {
+        id: TransformationType.FOURIER_MASKING,
+        title: 'Fourier Masking',
+        description: "Combines source's frequency power with target's phase.",
+        icon: 'IconFourierMask',
+        params: {},
+        channelMode: 'per-channel',
+        lengthPolicy: 'truncate',
+        offline: (source, target, _params, context) => applyFourierMasking(source, target, context),
+        runsInWorker: true,
+        aiDescription: "The raw frequency-by-frequency power of the source was applied to the target's sound structure, creating a direct spectral merge.",
+    },
+    {
+        id: TransformationType.CEPSTRAL_CROSS_SYNTH,
+        title: 'Cepstral Cross-Synthesis',
+        description: "Gives the target the source's timbre while keeping its own pitch.",
+        icon: 'IconCepstrum',
+        params: {
+            lifterOrder: { label: 'Lifter Order', min: 4, max: 120, step: 1, defaultValue: 30 },
+            envelopeStrength: { label: 'Envelope Strength', min: 0, max: 1, step: 0.01, defaultValue: 1, automatable: true },
+        },
+        choices: {
+            cepstralFftSize: {
+                label: 'FFT Size',
+                options: [
+                    { value: '1024', label: '1024' },
+                    { value: '2048', label: '2048' },
+                    { value: '4096', label: '4096' },
+                ],
+                defaultValue: '2048',
+            },
+        },
+        channelMode: 'linked',
+        lengthPolicy: 'loop',
+        offline: (source, target, params, context) => applyCepstralCrossSynthesis(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: "The smoothed spectral envelope of the source, the shape that gives it its timbre, was imposed on the target frame by frame while the target kept its own pitch and harmonics.",
+    },
+    {
+        id: TransformationType.GRANULAR_CLOUD,
+        title: 'Granular Cloud',
+        description: 'The source plays a cloud of tiny grains cut from the target.',
+        icon: 'IconGranular',
+        params: {
+            grainSize: { label: 'Grain Size', min: 5, max: 500, step: 1, defaultValue: 80, unit: 'ms', automatable: true },
+            grainDensity: { label: 'Density', min: 1, max: 200, step: 1, defaultValue: 40, unit: '/s', automatable: true },
+            grainJitter: { label: 'Jitter', min: 0, max: 1, step: 0.01, defaultValue: 0.2, automatable: true },
+            grainPitchScatter: { label: 'Pitch Scatter', min: 0, max: 24, step: 0.5, defaultValue: 2, unit: 'st', automatable: true },
+            grainSeed: { label: 'Seed', min: 0, max: 9999, step: 1, defaultValue: 1 },
+            ...ONSET_PARAMS,
+        },
+        choices: {
+            grainControl: {
+                label: 'Source Control',
+                options: [
+                    { value: 'onsets', label: 'Onset Bursts' },
+                    { value: 'envelope', label: 'Amplitude Envelope' },
+                ],
+                defaultValue: 'onsets',
+            },
+            grainWindow: {
+                label: 'Grain Window',
+                options: [
+                    { value: 'hann', label: 'Hann' },
+                    { value: 'triangle', label: 'Triangle' },
+                    { value: 'gaussian', label: 'Gaussian' },
+                    { value: 'tukey', label: 'Tukey (flat top)' },
+                ],
+                defaultValue: 'hann',
+            },
+            ...ONSET_CHOICES,
+        },
+        onsetInputs: ['source'],
+        offline: (source, target, params, context) => applyGranularCloud(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: "The target was cut into thousands of tiny grains and re-scattered as a stereo cloud, with the source's rhythm and loudness setting how dense, pitch-scattered and wide it became.",
+    },
+    {
+        id: TransformationType.SPECTRAL_MORPH,
+        title: 'Spectral Morph',
+        description: "Glides the target's spectrum into the source's.",
+        icon: 'IconSpectralMorph',
+        params: {
+            spectralMorphPosition: { label: 'Position (Target → Source)', min: 0, max: 1, step: 0.01, defaultValue: 0.5, automatable: true },
+        },
+        choices: {
+            spectralMorphMode: {
+                label: 'Blend',
+                options: [
+                    { value: 'bins', label: 'Per-Bin Crossfade' },
+                    { value: 'peaks', label: 'Spectral Peak Matching' },
+                ],
+                defaultValue: 'bins',
+            },
+            spectralMorphPhase: {
+                label: 'Phase',
+                options: [
+                    { value: 'target', label: "Target's Phase" },
+                    { value: 'interpolate', label: 'Interpolated' },
+                ],
+                defaultValue: 'target',
+            },
+        },
+        channelMode: 'per-channel',
+        lengthPolicy: 'loop',
+        offline: (source, target, params, context) => applySpectralMorph(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: "The target's spectrum was morphed continuously towards the source's, frame by frame, so one timbre melted into the other.",
+    },
+    {
+        id: TransformationType.MELODY_TRANSFER,
+        title: 'Melody Transfer',
+        description: "Makes the target sing the source's melody.",
+        icon: 'IconMelodyTransfer',
+        params: {
+            melodyTranspose: { label: 'Transpose', min: -24, max: 24, step: 1, defaultValue: 0, unit: 'st', automatable: true },
+            melodyGlide: { label: 'Glide', min: 0, max: 500, step: 5, defaultValue: 50, unit: 'ms' },
+            melodyConfidence: { label: 'Min. Pitch Confidence', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+        },
+        choices: {
+            melodyScale: {
+                label: 'Scale',
+                options: [
+                    { value: 'none', label: 'Off (Exact Pitch)' },
+                    { value: 'chromatic', label: 'Chromatic' },
+                    { value: 'major', label: 'Major' },
+                    { value: 'minor', label: 'Natural Minor' },
+                    { value: 'pentatonic', label: 'Major Pentatonic' },
+                ],
+                defaultValue: 'none',
+            },
+            melodyKey: {
+                label: 'Key',
+                options: ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].map(key => ({ value: key, label: key })),
+                defaultValue: 'C',
+            },
+        },
+        channelMode: 'linked',
+        lengthPolicy: 'pad',
+        pitchInputs: ['source', 'target'],
+        offline: (source, target, params, context) => applyMelodyTransfer(source, target, params, context, context.analysis as MelodyPitch | undefined),
+        runsInWorker: true,
+        aiDescription: "The pitch of the source was tracked note by note and the target was re-tuned to follow it, so the target sang the source's melody.",
+    },
+    {
+        id: TransformationType.SLICE_RESEQUENCE,
+        title: 'Slice & Resequence',
+        description: "Replays slices of the target on the source's beats.",
+        icon: 'IconSliceResequence',
+        params: {
+            sliceFade: { label: 'Crossfade', min: 0, max: 50, step: 0.5, defaultValue: 5, unit: 'ms' },
+            sliceSeed: { label: 'Seed', min: 0, max: 9999, step: 1, defaultValue: 1 },
+            ...ONSET_PARAMS,
+        },
+        choices: {
+            sliceOrder: {
+                label: 'Slice Order',
+                options: [
+                    { value: 'sequential', label: 'Sequential' },
+                    { value: 'spectral', label: 'Nearest Spectral Match' },
+                    { value: 'loudness', label: 'Loudness Match' },
+                    { value: 'random', label: 'Random (seeded)' },
+                ],
+                defaultValue: 'sequential',
+            },
+            ...ONSET_CHOICES,
+        },
+        onsetInputs: ['source', 'target'],
+        channelMode: 'linked',
+        offline: (source, target, params, context) => applySliceResequence(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: "The target was chopped at its hits and notes, and the pieces were re-triggered on the source's beats, choosing for each beat the slice that best matched what the source played there.",
+    },
+    {
+        id: TransformationType.SIDECHAIN_DYNAMICS,
+        title: 'Sidechain Dynamics',
+        description: 'The source keys a compressor, expander or gate on the target.',
+        icon: 'IconSidechain',
+        params: {
+            dynamicsThreshold: { label: 'Threshold', min: -60, max: 0, step: 0.5, defaultValue: -24, unit: 'dB', automatable: true },
+            dynamicsRatio: { label: 'Ratio', min: 1, max: 20, step: 0.1, defaultValue: 4, automatable: true },
+            dynamicsKnee: { label: 'Knee', min: 0, max: 24, step: 0.5, defaultValue: 6, unit: 'dB' },
+            dynamicsAttack: { label: 'Attack', min: 0.1, max: 200, step: 0.1, defaultValue: 10, unit: 'ms' },
+            dynamicsRelease: { label: 'Release', min: 5, max: 2000, step: 1, defaultValue: 150, unit: 'ms' },
+            dynamicsHold: { label: 'Hold', min: 0, max: 500, step: 1, defaultValue: 0, unit: 'ms' },
+            dynamicsLookahead: { label: 'Lookahead', min: 0, max: 20, step: 0.1, defaultValue: 0, unit: 'ms' },
+        },
+        choices: {
+            dynamicsMode: {
+                label: 'Mode',
+                options: [
+                    { value: 'compress', label: 'Compressor (Ducking)' },
+                    { value: 'expand', label: 'Expander' },
+                    { value: 'gate', label: 'Gate' },
+                ],
+                defaultValue: 'compress',
+            },
+        },
+        channelMode: 'linked',
+        lengthPolicy: 'loop',
+        offline: (source, target, params, context) => applySidechainDynamics(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: 'The source was used as the sidechain key of a compressor, expander or gate on the target, so the target ducked, pumped or opened up in time with the source.',
+    },
+    {
+        id: TransformationType.EQ_MATCH,
+        title: 'EQ Matching',
+        description: "Matches the target's overall tonal balance to the source.",
+        icon: 'IconEqMatch',
+        params: {
+            eqMatchAmount: { label: 'Amount', min: 0, max: 1, step: 0.01, defaultValue: 1 },
+            eqMatchResolution: { label: 'Smoothing', min: 1, max: 24, step: 1, defaultValue: 3, unit: 'bands/oct' },
+            eqMatchMaxBoost: { label: 'Max Boost', min: 0, max: 24, step: 0.5, defaultValue: 12, unit: 'dB' },
+            eqMatchMaxCut: { label: 'Max Cut', min: 0, max: 24, step: 0.5, defaultValue: 12, unit: 'dB' },
+        },
+        choices: {
+            eqMatchPhase: {
+                label: 'Filter Phase',
+                options: [
+                    { value: 'linear', label: 'Linear Phase' },
+                    { value: 'minimum', label: 'Minimum Phase' },
+                ],
+                defaultValue: 'linear',
+            },
+        },
+        channelMode: 'linked',
+        offline: (source, target, params, context) => applyEqMatch(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: 'The long-term average spectra of both sounds were compared and the target was filtered with a smoothed, static matching EQ, so it took on the overall tonal balance of the source.',
+    },
+    {
+        id: TransformationType.HARMONIC_IMPRINT,
+        title: 'Harmonic Imprinting',
+        description: "Resonates the target using the source's key frequencies.",
+        icon: 'IconHarmonicImprint',
+        params: {
+            numHarmonics: { label: 'Number of Harmonics', min: 1, max: 20, step: 1, defaultValue: 12 },
+            harmonicQ: { label: 'Resonance (Q)', min: 1, max: 100, step: 1, defaultValue: 30, automatable: true },
+            harmonicHop: { label: 'Tracking Hop', min: 5, max: 100, step: 1, defaultValue: 20, unit: 'ms' },
+            harmonicSalience: { label: 'Min. Partial Salience', min: -60, max: -6, step: 1, defaultValue: -30, unit: 'dB' },
+        },
+        channelMode: 'linked',
+        analyze: (source, _target, params) => analyzeHarmonicImprinting(source, params),
+        offline: (source, target, params, context) =>
+            applyHarmonicImprinting(toAudioBuffer(source), toAudioBuffer(target), params, context, context.analysis as HarmonicTracks | null | undefined),
+        aiDescription: 'The pitch and overtones of the source were tracked over time and used to steer resonant filters on the target, so the target sang the source\'s melody.',
+    },
+    {
+        id: TransformationType.INTERFERENCE_ECHOES,
+        title: 'Interference Echoes',
+        description: "Source's rhythm triggers cascading echoes of the target.",
+        icon: 'IconInterferenceEchoes',
+        params: {
+            interferenceFeedback: { label: 'Feedback', min: 0, max: 0.95, step: 0.01, defaultValue: 0.5, automatable: true },
+            interferenceMix: { label: 'Echo Mix', min: 0, max: 1, step: 0.01, defaultValue: 0.5, automatable: true },
+            interferenceDelay: { label: 'Delay Time', min: 10, max: 2000, step: 1, defaultValue: 300, unit: 'ms' },
+            interferenceBpm: { label: 'Tempo', min: 40, max: 240, step: 0.1, defaultValue: 120, unit: 'BPM' },
+            interferenceCutoff: { label: 'Feedback Cutoff', min: 200, max: 16000, step: 10, defaultValue: 4000, unit: 'Hz', automatable: true },
+            interferenceWobbleRate: { label: 'Wobble Rate', min: 0.05, max: 10, step: 0.05, defaultValue: 0.5, unit: 'Hz' },
+            interferenceWobbleDepth: { label: 'Wobble Depth', min: 0, max: 20, step: 0.1, defaultValue: 0, unit: 'ms', automatable: true },
+            interferenceTrigger: { label: 'Trigger Length', min: 1, max: 200, step: 1, defaultValue: 10, unit: 'ms' },
+            ...ONSET_PARAMS,
+        },
+        choices: {
+            interferenceSync: {
+                label: 'Tempo Sync',
+                options: [
+                    { value: 'off', label: 'Off (Delay Time)' },
+                    { value: 'detected', label: 'Detected Source Tempo' },
+                    { value: 'manual', label: 'Entered Tempo' },
+                ],
+                defaultValue: 'off',
+            },
+            interferenceDivision: {
+                label: 'Note Division',
+                options: [
+                    { value: '1/2', label: '1/2' },
+                    { value: '1/4', label: '1/4' },
+                    { value: '1/4d', label: '1/4 Dotted' },
+                    { value: '1/8', label: '1/8' },
+                    { value: '1/8d', label: '1/8 Dotted' },
+                    { value: '1/8t', label: '1/8 Triplet' },
+                    { value: '1/16', label: '1/16' },
+                ],
+                defaultValue: '1/8',
+            },
+            interferenceStereo: {
+                label: 'Stereo Mode',
+                options: [
+                    { value: 'mono', label: 'Mono' },
+                    { value: 'ping-pong', label: 'Ping-Pong' },
+                    { value: 'multi-tap', label: 'Multi-Tap' },
+                ],
+                defaultValue: 'mono',
+            },
+            ...ONSET_CHOICES,
+        },
+        onsetInputs: ['source'],
+        channelMode: 'linked',
+        lengthPolicy: 'pad',
+        analyze: (source, _target, params) => analyzeInterferenceEchoes(source, params),
+        offline: (source, target, params, context) =>
+            applyInterferenceEchoes(toAudioBuffer(source), toAudioBuffer(target), params, context, context.analysis as EchoTriggers | undefined),
+        aiDescription: 'Rhythmic events in the source audio were used to trigger cascading, feedback-driven echoes of the target audio, timed in milliseconds or to a tempo, filtered and wobbled on each repeat and optionally spread across the stereo field.',
+    },
+    {
+        id: TransformationType.FORMANT_SHIFTING,
+        title: 'Formant Shifting',
+        description: 'Imprints the vocal character of the source onto the target.',
+        icon: 'IconFormantShifting',
+        params: {
+            numFormants: { label: 'Formants', min: 1, max: 8, step: 1, defaultValue: 4 },
+            formantQ: { label: 'Resonance (Q)', min: 1, max: 50, step: 1, defaultValue: 20, automatable: true },
+            formantMix: { label: 'Mix', min: 0, max: 1, step: 0.01, defaultValue: 0.7, automatable: true },
+        },
+        channelMode: 'linked',
+        analyze: (source, _target, params) => analyzeFormantShifting(source, params),
+        offline: (source, target, params, context) =>
+            applyFormantShifting(toAudioBuffer(source), toAudioBuffer(target), params, context, context.analysis as FormantTracks | null | undefined),
+        aiDescription: "The key resonant frequencies that define the 'vowel' character of the source sound were tracked over time and used to steer a set of resonant filters that re-shaped the target sound, so it took on the source's changing vocal quality.",
+    },
+    {
+        id: TransformationType.DYNAMIC_RING_MOD,
+        title: 'Dynamic Ring Modulation',
+        description: "Source's volume or pitch steers a metallic modulator.",
+        icon: 'IconRingMod',
+        params: {
+            ringModBaseFreq: { label: 'Base Frequency', min: 20, max: 2000, step: 1, defaultValue: 100, unit: 'Hz', automatable: true },
+            ringModRange: { label: 'Frequency Range', min: 0, max: 5000, step: 10, defaultValue: 1000, unit: 'Hz', automatable: true },
+            ringModMix: { label: 'Mix', min: 0, max: 1, step: 0.01, defaultValue: 0.5, automatable: true },
+            ringModDetune: { label: 'Stereo Detune', min: 0, max: 100, step: 1, defaultValue: 0, unit: 'cents' },
+            ringModIndex: { label: 'FM Index', min: 0, max: 20, step: 0.1, defaultValue: 3, automatable: true },
+            ringModRatio: { label: 'Pitch Ratio', min: 0.25, max: 8, step: 0.01, defaultValue: 1 },
+        },
+        choices: {
+            ringModWaveform: {
+                label: 'Waveform',
+                options: [
+                    { value: 'sine', label: 'Sine' },
+                    { value: 'triangle', label: 'Triangle' },
+                    { value: 'square', label: 'Square' },
+                    { value: 'saw', label: 'Saw' },
+                ],
+                defaultValue: 'sine',
+            },
+            ringModMode: {
+                label: 'Mode',
+                options: [
+                    { value: 'ring', label: 'Ring Modulation' },
+                    { value: 'fm', label: 'FM / Phase Modulation' },
+                ],
+                defaultValue: 'ring',
+            },
+            ringModControl: {
+                label: 'Controlled By',
+                options: [
+                    { value: 'amplitude', label: 'Source Amplitude' },
+                    { value: 'pitch', label: 'Source Pitch' },
+                ],
+                defaultValue: 'amplitude',
+            },
+        },
+        // The modulators of all target channels are rendered together so they can be detuned
+        channelMode: 'linked',
+        lengthPolicy: 'pad',
+        offline: (source, target, params, context) => applyDynamicRingModulation(source, target, params, context),
+        runsInWorker: true,
+        aiDescription: 'The amplitude or pitch of the source sound was used to steer the frequency of an oscillator per channel, which was then multiplied with the target sound (or used to phase-modulate it, with the source\'s loudness setting the depth) to create shifting, metallic, and bell-like textures.',
+    },
+    {
+        id: TransformationType.TRANSFORMATION_MORPH,
+        title: 'Transformation Morphing',
+        description: 'Blends the result of two different transformations together.',
+        icon: 'IconTransformationMorph',
+        params: {
+            morphPosition: { label: 'Morph A/B', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+            morphLfoRate: { label: 'LFO Rate', min: 0.05, max: 10, step: 0.05, defaultValue: 0.5, unit: ' Hz' },
+            morphDepth: { label: 'Curve Depth', min: 0, max: 1, step: 0.01, defaultValue: 1 },
+        },
+        choices: {
+            morphCurve: {
+                label: 'Morph Curve',
+                options: [
+                    { value: 'static', label: 'Static' },
+                    { value: 'breakpoints', label: 'Breakpoints' },
+                    { value: 'lfo', label: 'LFO' },
+                    { value: 'envelope', label: 'Source Envelope' },
+                ],
+                defaultValue: 'static',
+            },
+            ...CROSSFADE_CHOICES,
+        },
+        offline: async (source, _target, params, context) => {
+            const { morphA, morphB } = context;
+            if (!morphA || !morphB || !isMorphable(morphA) || !isMorphable(morphB)) {
+                throw new Error('Transformation Morphing needs two other transformations to blend.');
+            }
+            const resultA = await context.render(morphA, scaleProgress(context, 0, 0.5));
+            const resultB = await context.render(morphB, scaleProgress(context, 0.5, 1));
+            return applyTransformationMorph(resultA, resultB, params, source);
+        },
+        morphable: false,
+        composite: true,
+        aiDescription: 'A smooth blend was created between the results of two different transformation techniques (A and B).',
+    },
+    {
+        id: TransformationType.TRANSFORMATION_CHAIN,
+        title: 'Transformation Chain',
+        description: 'Runs several transformations in series, each on the previous one\'s output.',
+        icon: 'IconChain',
+        params: {},
+        offline: async (_source, target, _params, context) => {
+            const stages = (context.chain ?? []).filter(stage => !stage.bypass);
+            if (stages.length === 0) {
+                throw new Error('Transformation Chain needs at least one active stage.');
+            }
+            let current = target;
+            for (const [index, stage] of stages.entries()) {
+                if (getTransformation(stage.transformation).composite) {
+                    throw new Error(`${stage.transformation} cannot be used inside a chain.`);
+                }
+                const wet = await context.render(
+                    stage.transformation,
+                    scaleProgress(context, index / stages.length, (index + 1) / stages.length),
+                    { target: current, params: stage.params }
+                );
+                current = mixWetDry(current, wet, stage.mix);
+            }
+            return current;
+        },
+        morphable: false,
+        composite: true,
+        aiDescription: 'Several techniques were applied one after another, each processing the output of the previous one.',
+    },
+    {
+        id: TransformationType.XY_MORPH,
+        title: 'XY Morphing',
+        description: 'Blends three or four transformations placed on the corners of an XY pad.',
+        icon: 'IconXYPad',
+        params: {
+            morphX: { label: 'Pad X', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+            morphY: { label: 'Pad Y', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+        },
+        choices: CROSSFADE_CHOICES,
+        offline: async (_source, _target, params, context) => {
+            const corners = context.xyCorners ?? [];
+            if (corners.length < 3 || corners.length > 4) {
+                throw new Error('XY Morphing needs three or four corner transformations.');
+            }
+            const results: PcmBuffer[] = [];
+            for (const [index, corner] of corners.entries()) {
+                if (getTransformation(corner.transformation).composite) {
+                    throw new Error(`${corner.transformation} cannot be used as an XY Morphing corner.`);
+                }
+                // Corner renders are cached, so moving the puck only re-mixes
+                results.push(await context.render(
+                    corner.transformation,
+                    scaleProgress(context, index / corners.length, (index + 1) / corners.length),
+                    { params: corner.params, cache: true }
+                ));
+            }
+            return applyXYMorph(results, params);
+        },
+        morphable: false,
+        composite: true,
+        aiDescription: 'Three or four techniques were blended together, weighted by a position on a two-dimensional pad.',
+    },
+];
+
+const registry = new Map(TRANSFORMATIONS.map(definition => [definition.id, definition]));
+
+export function getTransformation(type: TransformationType): TransformationDefinition {
+    const definition = registry.get(type);
+    if (!definition) {
+        throw new Error(`Unknown transformation type: ${type}`);
+    }
+    return definition;
+}
+
+export function isMorphable(type: TransformationType): boolean {
+    return getTransformation(type).morphable !== false;
+}
+
+export function rendersInWorker(definition: TransformationDefinition, params: TransformationParams): boolean {
+    return typeof definition.runsInWorker === 'function' ? definition.runsInWorker(params) : definition.runsInWorker === true;
+}
+
+export const MORPHABLE_TRANSFORMATIONS = TRANSFORMATIONS.filter(t => t.morphable !== false).map(t => t.id);
+
+export const CHAINABLE_TRANSFORMATIONS = TRANSFORMATIONS.filter(t => !t.composite).map(t => t.id);
+
+// Transformations that cannot be driven by a live microphone source
+export const FILE_ONLY_TRANSFORMATIONS = TRANSFORMATIONS.filter(t => !t.live).map(t => t.id);
+
+export const CHANNEL_MODE_OPTIONS: { value: ChannelMode; label: string }[] = [
+    { value: 'linked', label: 'Linked (mono source)' },
+    { value: 'per-channel', label: 'Per Channel' },
+    { value: 'mid-side', label: 'Mid/Side' },
+];
+
+export const LENGTH_POLICY_OPTIONS: { value: LengthPolicy; label: string }[] = [
+    { value: 'loop', label: 'Loop Source' },
+    { value: 'stretch', label: 'Stretch to Fit' },
+    { value: 'pad', label: 'Pad with Silence' },
+    { value: 'truncate', label: 'Truncate to Shorter' },
+];
+
+export const MODULATION_FEATURE_OPTIONS: { value: ModulationFeature; label: string }[] = [
+    { value: 'rms', label: 'Loudness (RMS)' },
+    { value: 'spectral-centroid', label: 'Brightness (Spectral Centroid)' },
+    { value: 'onset-density', label: 'Onset Density' },
+];
+
+export const MODULATION_POLARITY_OPTIONS: { value: ModulationPolarity; label: string }[] = [
+    { value: 'positive', label: '+' },
+    { value: 'negative', label: '−' },
+];
+
+export const getDefaultParams = (): TransformationParams => {
+    const defaults: TransformationParams = {};
+    for (const definition of TRANSFORMATIONS) {
+        for (const paramKey in definition.params) {
+            const key = paramKey as NumericParamKey;
+            defaults[key] = definition.params[key]!.defaultValue;
+        }
+        for (const choiceKey in definition.choices) {
+            const key = choiceKey as ChoiceParamKey;
+            (defaults as Record<ChoiceParamKey, string>)[key] = definition.choices[key]!.defaultValue;
+        }
+    }
+    return defaults;
+};
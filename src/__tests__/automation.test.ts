@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateBreakpoints, renderControlCurve, renderParam } from '../../services/automation'
+import { applyDynamicRingModulation, applyTransformationMorph } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+function constant(value: number, length: number) {
+  const buffer = createPcmBuffer(1, length, 48000)
+  buffer.getChannelData(0).fill(value)
+  return buffer
+}
+
+describe('evaluateBreakpoints', () => {
+  it('interpolates between points and holds past the ends', () => {
+    const points = [{ time: 0.5, value: 1 }, { time: 0.25, value: 0 }]
+    expect(evaluateBreakpoints(points, 0)).toBe(0)
+    expect(evaluateBreakpoints(points, 0.375)).toBeCloseTo(0.5)
+    expect(evaluateBreakpoints(points, 1)).toBe(1)
+  })
+})
+
+describe('renderControlCurve', () => {
+  it('ramps across the whole render', () => {
+    const curve = renderControlCurve({ mode: 'breakpoints', value: 0, breakpoints: [{ time: 0, value: 0 }, { time: 1, value: 1 }] }, 5, 48000)
+    expect(Array.from(curve)).toEqual([0, 0.25, 0.5, 0.75, 1])
+  })
+
+  it('swings an LFO around the centre value', () => {
+    const curve = renderControlCurve({ mode: 'lfo', value: 0.5, lfoRate: 1, depth: 0.5 }, 48000, 48000)
+    expect(curve[12000]).toBeCloseTo(0.75)
+    expect(curve[36000]).toBeCloseTo(0.25)
+  })
+})
+
+describe('applyTransformationMorph', () => {
+  it('keeps power constant across an equal-power crossfade', () => {
+    const result = applyTransformationMorph(constant(1, 3), constant(1, 3), {
+      morphCurve: 'breakpoints',
+      morphCrossfade: 'equal-power',
+    }).getChannelData(0)
+    expect(result[0]).toBeCloseTo(1)
+    expect(result[1]).toBeCloseTo(Math.SQRT2)
+    expect(result[2]).toBeCloseTo(1)
+  })
+})
+
+describe('automation lanes', () => {
+  it('renders the static value when a param has no lane', () => {
+    expect(Array.from(renderParam({}, 'ringModMix', 0.25, 3))).toEqual([0.25, 0.25, 0.25])
+  })
+
+  it('stretches a lane over the render in the param units', () => {
+    const lane = renderParam({ automation: { ringModBaseFreq: [{ time: 0, value: 100 }, { time: 1, value: 500 }] } }, 'ringModBaseFreq', 0, 5)
+    expect(Array.from(lane)).toEqual([100, 200, 300, 400, 500])
+  })
+
+  it('lets the ring modulator mix swell over the render', async () => {
+    const target = constant(0.5, 1000)
+    const result = await applyDynamicRingModulation(constant(0, 1000), target, {
+      ringModMix: 1,
+      automation: { ringModMix: [{ time: 0, value: 0 }, { time: 0.5, value: 0 }, { time: 1, value: 1 }] },
+    })
+    const data = result.getChannelData(0)
+    for (let i = 0; i < 500; i++) expect(data[i]).toBe(0.5)
+    expect(data[999]).not.toBeCloseTo(0.5)
+  })
+})
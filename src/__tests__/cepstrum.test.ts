@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { cepstralEnvelope } from '../../services/cepstrum'
+import { applyCepstralCrossSynthesis } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 48000
+
+function tones(frequencies: number[], length: number) {
+  const buffer = createPcmBuffer(1, length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < length; i++) {
+    for (const frequency of frequencies) data[i] += 0.05 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  }
+  return buffer
+}
+
+// Amplitude of one frequency over the middle of a signal
+function levelAt(data: Float32Array, frequency: number) {
+  let re = 0
+  let im = 0
+  const start = data.length / 4
+  const count = data.length / 2
+  for (let i = start; i < start + count; i++) {
+    re += data[i] * Math.cos(2 * Math.PI * frequency * i / SAMPLE_RATE)
+    im += data[i] * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  }
+  return 2 * Math.hypot(re, im) / count
+}
+
+describe('cepstralEnvelope', () => {
+  it('leaves a flat spectrum flat', () => {
+    const envelope = cepstralEnvelope(new Float32Array(256).fill(2), 20)
+    envelope.forEach(value => expect(value).toBeCloseTo(2, 3))
+  })
+})
+
+describe('applyCepstralCrossSynthesis', () => {
+  it("takes on the source's timbre and keeps the target's pitch", async () => {
+    const harmonics = Array.from({ length: 20 }, (_, n) => 200 * (n + 1))
+    const target = tones(harmonics, SAMPLE_RATE / 2)
+    const source = tones([3000, 3100, 3200], SAMPLE_RATE / 2)
+    const result = (await applyCepstralCrossSynthesis(source, target, {})).getChannelData(0)
+
+    // The source is bright, so high harmonics now dominate low ones
+    expect(levelAt(result, 3000)).toBeGreaterThan(4 * levelAt(result, 400))
+    // ...but energy stays on the target's harmonics
+    expect(levelAt(result, 3000)).toBeGreaterThan(10 * levelAt(result, 3100))
+  })
+
+  it('passes the target through at zero strength', async () => {
+    const target = tones([440], SAMPLE_RATE / 4)
+    const result = (await applyCepstralCrossSynthesis(tones([3000], SAMPLE_RATE / 4), target, { envelopeStrength: 0 })).getChannelData(0)
+    const input = target.getChannelData(0)
+    for (let i = 0; i < input.length; i += 97) expect(result[i]).toBeCloseTo(input[i], 4)
+  })
+})
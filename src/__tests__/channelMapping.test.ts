@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import { renderWithChannelMode } from '../../services/channelMapping'
+import type { PcmBuffer } from '../../types'
+
+function stereo(left: number[], right: number[]): PcmBuffer {
+  const buffer = createPcmBuffer(2, left.length, 48000)
+  buffer.getChannelData(0).set(left)
+  buffer.getChannelData(1).set(right)
+  return buffer
+}
+
+const passTarget = async (_source: PcmBuffer, target: PcmBuffer) => target
+
+describe('renderWithChannelMode', () => {
+  it('round-trips stereo through mid/side', async () => {
+    const target = stereo([1, 0.5, -0.25], [0, 0.5, 0.75])
+    const result = await renderWithChannelMode('mid-side', target, target, {}, passTarget)
+    expect(Array.from(result.getChannelData(0))).toEqual([1, 0.5, -0.25])
+    expect(Array.from(result.getChannelData(1))).toEqual([0, 0.5, 0.75])
+  })
+
+  it('folds the source to mono when linked', async () => {
+    const seen: number[] = []
+    await renderWithChannelMode('linked', stereo([1, 1], [0, -1]), stereo([0, 0], [0, 0]), {}, async (source, target) => {
+      seen.push(source.numberOfChannels, ...source.getChannelData(0))
+      return target
+    })
+    expect(seen).toEqual([1, 0.5, 0])
+  })
+
+  it('keeps every target channel in per-channel mode', async () => {
+    const mono = createPcmBuffer(1, 4, 48000)
+    const result = await renderWithChannelMode('per-channel', mono, stereo([1, 2, 3, 4], [5, 6, 7, 8]), {}, passTarget)
+    expect(result.numberOfChannels).toBe(2)
+    expect(Array.from(result.getChannelData(1))).toEqual([5, 6, 7, 8])
+  })
+})
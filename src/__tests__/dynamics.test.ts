@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { gainComputer, detectLevel, sidechainGains } from '../../services/dynamics'
+import type { DynamicsOptions } from '../../services/dynamics'
+
+const SAMPLE_RATE = 1000
+
+// Silence, then a full-scale burst from 0.5s to 1s, then silence again
+const burstKey = () => Float32Array.from({ length: 2000 }, (_, i) => (i >= 500 && i < 1000 ? 1 : 0))
+
+const options = (overrides: Partial<DynamicsOptions> = {}): DynamicsOptions => ({
+  mode: 'compress',
+  thresholdDb: new Float32Array(2000).fill(-20),
+  ratio: new Float32Array(2000).fill(4),
+  kneeDb: 0,
+  attackMs: 1,
+  releaseMs: 50,
+  holdMs: 0,
+  lookaheadMs: 0,
+  ...overrides,
+})
+
+describe('gainComputer', () => {
+  it('compresses above the threshold', () => {
+    expect(gainComputer('compress', -8, -20, 4, 0)).toBeCloseTo(-9)
+    expect(gainComputer('compress', -30, -20, 4, 0)).toBe(0)
+  })
+
+  it('bends smoothly through the knee', () => {
+    expect(gainComputer('compress', -20, -20, 4, 6)).toBeCloseTo(-0.5625)
+    expect(gainComputer('compress', -23, -20, 4, 6)).toBeCloseTo(0)
+    expect(gainComputer('compress', -17, -20, 4, 6)).toBeCloseTo(-2.25)
+  })
+
+  it('expands and gates below the threshold', () => {
+    expect(gainComputer('expand', -30, -20, 2, 0)).toBeCloseTo(-10)
+    expect(gainComputer('expand', -10, -20, 2, 0)).toBe(0)
+    expect(gainComputer('gate', -21, -20, 2, 0)).toBe(-80)
+    expect(gainComputer('expand', -200, -20, 20, 0)).toBe(-80)
+  })
+})
+
+describe('detectLevel', () => {
+  it('holds the level before releasing', () => {
+    const level = detectLevel(burstKey(), SAMPLE_RATE, 0, 10, 100)
+    expect(level[1050]).toBe(1)
+    expect(level[1150]).toBeLessThan(0.01)
+  })
+})
+
+describe('sidechainGains', () => {
+  it('ducks the target while the key is loud and recovers after', () => {
+    const gains = sidechainGains(burstKey(), 2000, SAMPLE_RATE, options())
+    expect(gains[400]).toBe(1)
+    // 0dB into -20dB at 4:1 comes out at -15dB
+    expect(20 * Math.log10(gains[900])).toBeCloseTo(-15)
+    expect(gains[1500]).toBeCloseTo(1)
+  })
+
+  it('reacts ahead of the key with lookahead', () => {
+    const gains = sidechainGains(burstKey(), 2000, SAMPLE_RATE, options({ lookaheadMs: 10 }))
+    expect(gains[495]).toBeLessThan(0.5)
+  })
+
+  it('opens a gate only while the key is present', () => {
+    const gains = sidechainGains(burstKey(), 2000, SAMPLE_RATE, options({ mode: 'gate' }))
+    expect(gains[400]).toBeCloseTo(0)
+    expect(gains[900]).toBe(1)
+    expect(gains[1500]).toBeCloseTo(0)
+  })
+
+  it('treats the key as silent past its end', () => {
+    const gains = sidechainGains(new Float32Array(10).fill(1), 2000, SAMPLE_RATE, options())
+    expect(gains[1999]).toBe(1)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { averageSpectrum, resampleSpectrum, matchingCurve, designMatchingFilter, applyMatchingEq } from '../../services/eqMatch'
+import { pcmFromChannels } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 8000
+const FFT_SIZE = 1024
+const OPTIONS = { bandsPerOctave: 3, amount: 1, maxBoost: 12, maxCut: 12 }
+
+const sine = (frequency: number, length = 8000) =>
+  pcmFromChannels([Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE))], SAMPLE_RATE)
+
+const noise = (seed: number, length = 8000) => {
+  let state = seed
+  return Float32Array.from({ length }, () => {
+    state = (state * 16807) % 2147483647
+    return state / 2147483647 - 0.5
+  })
+}
+
+describe('averageSpectrum', () => {
+  it('finds the tone and normalises the total', () => {
+    const spectrum = averageSpectrum(sine(1000), FFT_SIZE)
+    const peak = spectrum.indexOf(Math.max(...spectrum))
+    expect(peak).toBe(1000 * FFT_SIZE / SAMPLE_RATE)
+    expect(spectrum.reduce((a, b) => a + b, 0)).toBeCloseTo(1)
+  })
+})
+
+describe('resampleSpectrum', () => {
+  it('keeps a tone at its frequency on the new bin grid', () => {
+    // At 16kHz the same FFT size has bins twice as wide, and nothing above 4kHz
+    const spectrum = resampleSpectrum(averageSpectrum(sine(1000), FFT_SIZE), SAMPLE_RATE, 2 * SAMPLE_RATE)
+    const peak = spectrum.indexOf(Math.max(...spectrum))
+    expect(peak).toBe(1000 * FFT_SIZE / (2 * SAMPLE_RATE))
+    expect(spectrum.slice(FFT_SIZE / 4 + 1).every(value => value === 0)).toBe(true)
+    expect(spectrum.reduce((a, b) => a + b, 0)).toBeCloseTo(1)
+  })
+})
+
+describe('matchingCurve', () => {
+  it('is flat when the spectra already match', () => {
+    const spectrum = averageSpectrum(pcmFromChannels([noise(1)], SAMPLE_RATE), FFT_SIZE)
+    const curve = matchingCurve(spectrum, spectrum, SAMPLE_RATE, OPTIONS)
+    expect(curve.every(gain => Math.abs(gain) < 1e-6)).toBe(true)
+  })
+
+  it('scales by the amount and respects the limits', () => {
+    const bright = averageSpectrum(pcmFromChannels([noise(1)], SAMPLE_RATE), FFT_SIZE)
+    const dull = averageSpectrum(sine(200), FFT_SIZE)
+    const full = matchingCurve(bright, dull, SAMPLE_RATE, OPTIONS)
+    const half = matchingCurve(bright, dull, SAMPLE_RATE, { ...OPTIONS, amount: 0.5, maxBoost: 3, maxCut: 2 })
+    // High up the dull target needs a big boost, around its tone a cut
+    expect(full[400]).toBe(12)
+    expect(full[26]).toBe(-12)
+    expect(Math.max(...half)).toBe(3)
+    expect(Math.min(...half)).toBe(-2)
+  })
+})
+
+describe('designMatchingFilter', () => {
+  it('turns a flat curve into a delayed or immediate impulse', () => {
+    const flat = new Float32Array(FFT_SIZE / 2 + 1)
+    const linear = designMatchingFilter(flat, 'linear')
+    expect(linear.latency).toBe(FFT_SIZE / 2)
+    expect(linear.taps[FFT_SIZE / 2]).toBeCloseTo(1)
+    const minimum = designMatchingFilter(flat, 'minimum')
+    expect(minimum.latency).toBe(0)
+    expect(minimum.taps[0]).toBeCloseTo(1)
+    expect(minimum.taps[1]).toBeCloseTo(0)
+  })
+})
+
+describe('applyMatchingEq', () => {
+  it('applies the gain without shifting the signal', () => {
+    const input = sine(500)
+    const boost = new Float32Array(FFT_SIZE / 2 + 1).fill(6.0206)
+    for (const phase of ['linear', 'minimum'] as const) {
+      const output = applyMatchingEq(input, boost, phase).getChannelData(0)
+      expect(output.length).toBe(8000)
+      for (const i of [2000, 4321, 6000]) expect(output[i]).toBeCloseTo(2 * input.getChannelData(0)[i], 2)
+    }
+  })
+
+  it('cuts where the curve cuts', () => {
+    const curve = new Float32Array(FFT_SIZE / 2 + 1)
+    curve.fill(-20, 100)
+    const low = applyMatchingEq(sine(200), curve, 'minimum').getChannelData(0)
+    const high = applyMatchingEq(sine(2000), curve, 'minimum').getChannelData(0)
+    const peak = (data: Float32Array) => Math.max(...data.subarray(2000, 6000).map(Math.abs))
+    expect(peak(low)).toBeCloseTo(1, 1)
+    expect(peak(high)).toBeCloseTo(0.1, 1)
+  })
+})
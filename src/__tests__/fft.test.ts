@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { getFFT } from '../../services/fft'
+
+describe('getFFT', () => {
+  it('puts a cosine in its own bin and round-trips', () => {
+    const size = 64
+    const real = new Float32Array(size)
+    const imag = new Float32Array(size)
+    for (let i = 0; i < size; i++) real[i] = Math.cos(2 * Math.PI * 5 * i / size)
+    const original = Float32Array.from(real)
+
+    const fft = getFFT(size)
+    fft(real, imag, false)
+    expect(real[5]).toBeCloseTo(size / 2, 3)
+    expect(real[size - 5]).toBeCloseTo(size / 2, 3)
+    expect(Math.abs(real[4]) + Math.abs(imag[4])).toBeLessThan(1e-3)
+
+    fft(real, imag, true)
+    original.forEach((value, i) => expect(real[i]).toBeCloseTo(value, 4))
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { lpcCoefficients, trackFormants, FORMANT_HOP_SECONDS } from '../../services/formantTracker'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 16000
+
+// A 120 Hz pulse train through two-pole resonators, one per formant; the formants switch
+// halfway through
+function vowels(first: number[], second: number[], seconds: number) {
+  const length = Math.round(seconds * SAMPLE_RATE)
+  const buffer = createPcmBuffer(1, length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  const period = Math.round(SAMPLE_RATE / 120)
+  const states = first.map(() => [0, 0])
+  for (let i = 0; i < length; i++) {
+    const formants = i < length / 2 ? first : second
+    let sample = i % period === 0 ? 1 : 0
+    formants.forEach((frequency, f) => {
+      const radius = Math.exp(-Math.PI * 100 / SAMPLE_RATE)
+      const [y1, y2] = states[f]
+      const y = sample + 2 * radius * Math.cos(2 * Math.PI * frequency / SAMPLE_RATE) * y1 - radius * radius * y2
+      states[f] = [y, y1]
+      sample = y
+    })
+    data[i] = sample * 1e-3
+  }
+  return buffer
+}
+
+function medianOver(track: Float32Array, fromSeconds: number, toSeconds: number) {
+  const values = Array.from(track.subarray(Math.round(fromSeconds / FORMANT_HOP_SECONDS), Math.round(toSeconds / FORMANT_HOP_SECONDS)))
+  values.sort((a, b) => a - b)
+  return values[Math.floor(values.length / 2)]
+}
+
+describe('lpcCoefficients', () => {
+  it('recovers a two-pole resonator', () => {
+    const frame = new Float32Array(4096)
+    let y1 = 0
+    let y2 = 0
+    for (let i = 0; i < frame.length; i++) {
+      const y = (i === 0 ? 1 : 0) + 1.6 * y1 - 0.81 * y2
+      frame[i] = y
+      y2 = y1
+      y1 = y
+    }
+    const a = lpcCoefficients(frame, 2)!
+    expect(a[1]).toBeCloseTo(-1.6, 2)
+    expect(a[2]).toBeCloseTo(0.81, 2)
+  })
+
+  it('returns null for silence', () => {
+    expect(lpcCoefficients(new Float32Array(256), 8)).toBeNull()
+  })
+})
+
+describe('trackFormants', () => {
+  it('follows the formants as the vowel changes', () => {
+    const tracks = trackFormants(vowels([700, 1220, 2600], [300, 2300, 3000], 1), 3)!
+    const [f1, f2, f3] = tracks.frequencies
+
+    expect(Math.abs(medianOver(f1, 0.1, 0.4) - 700)).toBeLessThan(100)
+    expect(Math.abs(medianOver(f2, 0.1, 0.4) - 1220)).toBeLessThan(150)
+    expect(Math.abs(medianOver(f3, 0.1, 0.4) - 2600)).toBeLessThan(250)
+    // LPC pulls a low first formant towards the nearest harmonic of the 120 Hz pulse
+    expect(Math.abs(medianOver(f1, 0.6, 0.9) - 300)).toBeLessThan(100)
+    expect(Math.abs(medianOver(f2, 0.6, 0.9) - 2300)).toBeLessThan(250)
+    expect(Math.abs(medianOver(f3, 0.6, 0.9) - 3000)).toBeLessThan(250)
+  })
+
+  it('returns null for a silent source', () => {
+    expect(trackFormants(createPcmBuffer(1, SAMPLE_RATE / 2, SAMPLE_RATE), 4)).toBeNull()
+  })
+})
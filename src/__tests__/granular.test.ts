@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { createRandom } from '../../services/granular'
+import { applyGranularCloud } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 48000
+
+function noise(length: number, seed: number) {
+  const random = createRandom(seed)
+  const buffer = createPcmBuffer(1, length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < length; i++) data[i] = random() * 2 - 1
+  return buffer
+}
+
+// Silence with a few clicks, which the onset detector picks up
+function clicks(length: number, times: number[]) {
+  const buffer = createPcmBuffer(1, length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  times.forEach(time => data.fill(0.9, Math.round(time * SAMPLE_RATE), Math.round(time * SAMPLE_RATE) + 200))
+  return buffer
+}
+
+describe('createRandom', () => {
+  it('repeats for the same seed', () => {
+    const a = createRandom(42)
+    const b = createRandom(42)
+    const c = createRandom(43)
+    const first = [a(), a(), a()]
+    expect([b(), b(), b()]).toEqual(first)
+    expect([c(), c(), c()]).not.toEqual(first)
+    first.forEach(value => expect(value).toBeGreaterThanOrEqual(0))
+  })
+})
+
+describe('applyGranularCloud', () => {
+  const source = clicks(SAMPLE_RATE, [0.1, 0.5])
+  const target = noise(SAMPLE_RATE, 7)
+
+  it('renders the same cloud for the same seed', async () => {
+    const a = await applyGranularCloud(source, target, { grainSeed: 3 })
+    const b = await applyGranularCloud(source, target, { grainSeed: 3 })
+    const c = await applyGranularCloud(source, target, { grainSeed: 4 })
+    expect(a.numberOfChannels).toBe(2)
+    expect(Array.from(a.getChannelData(0))).toEqual(Array.from(b.getChannelData(0)))
+    expect(Array.from(a.getChannelData(0))).not.toEqual(Array.from(c.getChannelData(0)))
+  })
+
+  it('stays silent until the first onset', async () => {
+    const result = (await applyGranularCloud(source, target, {})).getChannelData(0)
+    expect(result.subarray(0, Math.round(0.05 * SAMPLE_RATE)).every(sample => sample === 0)).toBe(true)
+    expect(result.subarray(Math.round(0.1 * SAMPLE_RATE), Math.round(0.3 * SAMPLE_RATE)).some(sample => sample !== 0)).toBe(true)
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { trackHarmonics } from '../../services/harmonicTracker'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 44100
+const OPTIONS = { numHarmonics: 8, hopMs: 20, minSalience: -30 }
+
+// Two notes, each with five harmonics falling off as 1/h
+function melody(notes: number[], secondsPerNote: number) {
+  const noteLength = Math.round(secondsPerNote * SAMPLE_RATE)
+  const buffer = createPcmBuffer(1, noteLength * notes.length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < data.length; i++) {
+    const f0 = notes[Math.floor(i / noteLength)]
+    for (let h = 1; h <= 5; h++) data[i] += 0.1 / h * Math.sin(2 * Math.PI * h * f0 * i / SAMPLE_RATE)
+  }
+  return buffer
+}
+
+describe('trackHarmonics', () => {
+  it('follows the melody', () => {
+    const tracks = trackHarmonics(melody([220, 330], 0.5), OPTIONS)!
+    const frameAt = (seconds: number) => Math.round(seconds / tracks.hopSeconds)
+
+    expect(tracks.fundamental[frameAt(0.25)]).toBeCloseTo(220, 0)
+    expect(tracks.fundamental[frameAt(0.75)]).toBeCloseTo(330, 0)
+    expect(tracks.partials[2].frequencies[frameAt(0.25)]).toBeCloseTo(660, 0)
+    expect(tracks.partials[2].frequencies[frameAt(0.75)]).toBeCloseTo(990, 0)
+  })
+
+  it('leaves harmonics the source does not have inactive', () => {
+    const tracks = trackHarmonics(melody([220], 0.5), OPTIONS)!
+    expect(tracks.partials[4].active.includes(1)).toBe(true)
+    expect(tracks.partials[6].active.includes(1)).toBe(false)
+  })
+
+  it('returns null for a silent source', () => {
+    expect(trackHarmonics(createPcmBuffer(1, SAMPLE_RATE / 2, SAMPLE_RATE), OPTIONS)).toBeNull()
+  })
+})
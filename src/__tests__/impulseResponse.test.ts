@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { shapeImpulseResponse, applyTailPolicy } from '../../services/impulseResponse'
+import { createPcmBuffer, pcmFromChannels } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 1000
+const UNSHAPED = { start: 0, length: 10, fade: 0, reverse: false, stretch: 1 }
+
+const ramp = (length: number) => pcmFromChannels([Float32Array.from({ length }, (_, i) => i + 1)], SAMPLE_RATE)
+
+describe('shapeImpulseResponse', () => {
+  it('cuts the chosen window out of the source', () => {
+    const ir = shapeImpulseResponse(ramp(1000), { ...UNSHAPED, start: 0.1, length: 0.2 })
+    expect(ir.length).toBe(200)
+    expect(ir.getChannelData(0)[0]).toBe(101)
+  })
+
+  it('reverses and fades the end', () => {
+    const ir = shapeImpulseResponse(ramp(100), { ...UNSHAPED, reverse: true, fade: 0.01 })
+    const data = ir.getChannelData(0)
+    expect(data[0]).toBe(100)
+    expect(data[99]).toBe(0)
+    expect(data[89]).toBe(11)
+  })
+
+  it('stretches the length', () => {
+    expect(shapeImpulseResponse(ramp(100), { ...UNSHAPED, stretch: 2 }).length).toBe(200)
+  })
+})
+
+describe('applyTailPolicy', () => {
+  // A unit impulse followed by a tail that halves every 10 samples
+  const tail = () => pcmFromChannels([Float32Array.from({ length: 1000 }, (_, i) => Math.pow(0.5, i / 10))], SAMPLE_RATE)
+
+  it('cuts where the tail has decayed by 60dB', () => {
+    // 0.5^(i/10) reaches 0.001 at i ≈ 99.7
+    expect(applyTailPolicy(tail(), 'decay', 10).length).toBe(100)
+  })
+
+  it('never cuts into the target', () => {
+    expect(applyTailPolicy(tail(), 'decay', 500).length).toBe(500)
+  })
+
+  it('cuts at the target length or keeps everything', () => {
+    expect(applyTailPolicy(tail(), 'target', 300).length).toBe(300)
+    expect(applyTailPolicy(tail(), 'full', 300).length).toBe(1000)
+    expect(applyTailPolicy(createPcmBuffer(1, 10, SAMPLE_RATE), 'target', 300).length).toBe(10)
+  })
+})
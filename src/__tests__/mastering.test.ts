@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { measureLoudness, measureTruePeak, limitTruePeak, masterBuffer } from '../../services/mastering'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 48000
+
+function sine(frequency: number, amplitude: number, seconds: number, channels = 1) {
+  const length = Math.round(seconds * SAMPLE_RATE)
+  const buffer = createPcmBuffer(channels, length, SAMPLE_RATE)
+  for (let c = 0; c < channels; c++) {
+    const data = buffer.getChannelData(c)
+    for (let i = 0; i < length; i++) data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  }
+  return buffer
+}
+
+describe('measureLoudness', () => {
+  it('measures a -20 dBFS 997 Hz sine in one channel at -23 LUFS', () => {
+    expect(measureLoudness(sine(997, 0.1, 5))).toBeCloseTo(-23, 1)
+  })
+
+  it('sums channels', () => {
+    expect(measureLoudness(sine(997, 0.1, 5, 2))).toBeCloseTo(-20, 1)
+  })
+
+  it('gates out silence', () => {
+    const buffer = sine(997, 0.1, 10)
+    buffer.getChannelData(0).fill(0, 0, 5 * SAMPLE_RATE)
+    // Only the few blocks straddling the fade-in pull it below -23
+    expect(measureLoudness(buffer)).toBeCloseTo(-23, 0)
+    expect(measureLoudness(createPcmBuffer(1, SAMPLE_RATE, SAMPLE_RATE))).toBe(-Infinity)
+  })
+})
+
+describe('true peak', () => {
+  it('finds peaks between samples', () => {
+    // A quarter-rate sine sampled at 45 degrees never hits its crest on a sample
+    const buffer = createPcmBuffer(1, 4800, SAMPLE_RATE)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) data[i] = Math.sin(Math.PI / 2 * i + Math.PI / 4)
+    expect(Math.max(...data)).toBeCloseTo(Math.SQRT1_2)
+    expect(measureTruePeak(buffer)).toBeGreaterThan(-0.5)
+  })
+
+  it('limits to the ceiling', () => {
+    const limited = limitTruePeak(sine(997, 2, 1), -1)
+    expect(measureTruePeak(limited)).toBeLessThan(-0.9)
+  })
+})
+
+describe('masterBuffer', () => {
+  it('normalises to the target loudness', () => {
+    const { loudness } = masterBuffer(sine(997, 0.01, 3), { enabled: true, targetLufs: -16, ceiling: -1 })
+    expect(loudness.integrated).toBeCloseTo(-16, 1)
+    expect(loudness.truePeak).toBeLessThan(-0.9)
+  })
+
+  it('only measures when disabled', () => {
+    const input = sine(997, 0.1, 3)
+    const { buffer, loudness } = masterBuffer(input, { enabled: false, targetLufs: -14, ceiling: -1 })
+    expect(buffer).toBe(input)
+    expect(loudness.truePeak).toBeCloseTo(-20, 1)
+  })
+})
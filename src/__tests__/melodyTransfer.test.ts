@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { trackPitch, fitPitchCurve } from '../../services/pitchTracker'
+import { quantizeToScale, melodyShift } from '../../services/melodyTransfer'
+import { shiftPitch } from '../../services/pitchShifter'
+import { applyMelodyTransfer } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 44100
+
+// Harmonic tones, one after another
+function notes(frequencies: number[], secondsPerNote: number) {
+  const noteLength = Math.round(secondsPerNote * SAMPLE_RATE)
+  const buffer = createPcmBuffer(1, noteLength * frequencies.length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  let phase = 0
+  for (let i = 0; i < data.length; i++) {
+    phase += 2 * Math.PI * frequencies[Math.floor(i / noteLength)] / SAMPLE_RATE
+    for (let h = 1; h <= 3; h++) data[i] += 0.1 / h * Math.sin(h * phase)
+  }
+  return buffer
+}
+
+function pitchAt(buffer: ReturnType<typeof createPcmBuffer>, seconds: number) {
+  const curve = trackPitch(buffer)
+  return curve.frequencies[Math.round(seconds / curve.hopSeconds)]
+}
+
+const OPTIONS = { glideMs: 0, minConfidence: 0.5, scale: 'none', key: 'C' } as const
+
+describe('trackPitch', () => {
+  it('finds the fundamental of a harmonic tone', () => {
+    const curve = trackPitch(notes([220, 330], 0.5))
+    const frame = (seconds: number) => Math.round(seconds / curve.hopSeconds)
+    expect(curve.frequencies[frame(0.25)]).toBeCloseTo(220, 0)
+    expect(curve.frequencies[frame(0.75)]).toBeCloseTo(330, 0)
+    expect(curve.confidence[frame(0.25)]).toBeGreaterThan(0.9)
+  })
+
+  it('leaves silence unpitched', () => {
+    const curve = trackPitch(createPcmBuffer(1, SAMPLE_RATE / 4, SAMPLE_RATE))
+    expect(curve.frequencies.every(f => f === 0)).toBe(true)
+  })
+})
+
+describe('fitPitchCurve', () => {
+  it('maps a curve onto the frames of a resampled, padded buffer', () => {
+    const curve = trackPitch(notes([220, 330], 0.5))
+    const fitted = fitPitchCurve(curve, 48000 * 2, 48000)
+    expect(fitted.frequencies).toHaveLength(trackPitch(createPcmBuffer(1, 48000 * 2, 48000)).frequencies.length)
+    expect(fitted.frequencies[25]).toBe(curve.frequencies[25])
+    expect(fitted.frequencies[75]).toBe(curve.frequencies[75])
+    // Past the end of the measured audio the frames are unvoiced
+    expect(fitted.frequencies[150]).toBe(0)
+    expect(fitted.confidence[150]).toBe(0)
+  })
+})
+
+describe('quantizeToScale', () => {
+  it('snaps to the nearest note of the scale', () => {
+    expect(quantizeToScale(60.8, 'major', 'C')).toBe(60)
+    expect(quantizeToScale(61.2, 'major', 'C')).toBe(62)
+    expect(quantizeToScale(61.2, 'major', 'D')).toBe(61)
+    expect(quantizeToScale(61.2, 'none', 'C')).toBe(61.2)
+  })
+})
+
+describe('melodyShift', () => {
+  it('moves the target onto the source notes and holds through gaps', () => {
+    const hopSeconds = 0.01
+    const source = { hopSeconds, frequencies: new Float32Array([440, 0, 880]), confidence: new Float32Array([1, 0, 1]) }
+    const target = { hopSeconds, frequencies: new Float32Array([220, 220, 220]), confidence: new Float32Array([1, 1, 1]) }
+    const shift = melodyShift(source, target, { ...OPTIONS, transpose: new Float32Array(3) })
+    expect(Array.from(shift)).toEqual([12, 12, 24])
+  })
+})
+
+describe('shiftPitch', () => {
+  it('shifts pitch and keeps timing', () => {
+    const input = notes([220], 1)
+    const semitones = new Float32Array(input.length).fill(7)
+    const shifted = shiftPitch(input, semitones)
+    expect(shifted.length).toBe(input.length)
+    expect(pitchAt(shifted, 0.5)).toBeCloseTo(220 * Math.pow(2, 7 / 12), -1)
+  })
+})
+
+describe('applyMelodyTransfer', () => {
+  it("re-tunes the target to the source's melody", async () => {
+    const result = await applyMelodyTransfer(notes([330, 440], 0.5), notes([220], 1), { melodyGlide: 0 })
+    expect(pitchAt(result, 0.25)).toBeCloseTo(330, -1)
+    expect(pitchAt(result, 0.75)).toBeCloseTo(440, -1)
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { extractFeature, smoothFeature, FEATURE_HOP } from '../../services/featureExtractor'
+import { applyModulations } from '../../services/modulation'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import type { ParamSchema } from '../../types'
+
+const SAMPLE_RATE = 48000
+
+function sine(frequency: number, length: number, amplitude = 0.5) {
+  const buffer = createPcmBuffer(1, length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < length; i++) data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  return buffer
+}
+
+// Silent for the first half, then a steady tone
+function swell(length: number) {
+  const buffer = sine(440, length)
+  buffer.getChannelData(0).fill(0, 0, length / 2)
+  return buffer
+}
+
+const schema: ParamSchema = {
+  formantMix: { label: 'Mix', min: 0, max: 1, step: 0.01, defaultValue: 0.7, automatable: true },
+  numFormants: { label: 'Formants', min: 1, max: 8, step: 1, defaultValue: 4 },
+}
+
+describe('extractFeature', () => {
+  it('follows loudness', () => {
+    const rms = extractFeature(swell(SAMPLE_RATE), 'rms')
+    expect(rms[5]).toBe(0)
+    expect(rms[rms.length - 5]).toBeCloseTo(1, 1)
+  })
+
+  it('rates a higher tone as brighter', () => {
+    const low = extractFeature(sine(200, SAMPLE_RATE / 2), 'spectral-centroid')
+    const high = extractFeature(sine(4000, SAMPLE_RATE / 2), 'spectral-centroid')
+    expect(high[10]).toBeGreaterThan(low[10] + 0.3)
+  })
+})
+
+describe('smoothFeature', () => {
+  it('lags a step by its time constant', () => {
+    const step = new Float32Array(100).fill(1)
+    step[0] = 0
+    const smoothed = smoothFeature(step, 1000 * FEATURE_HOP / SAMPLE_RATE, SAMPLE_RATE)
+    expect(smoothed[1]).toBeCloseTo(1 - Math.exp(-1))
+  })
+})
+
+describe('applyModulations', () => {
+  it('turns a routing into an automation lane around the static value', () => {
+    const params = applyModulations({
+      formantMix: 0.2,
+      modulations: [{ id: 'r', feature: 'rms', target: 'formantMix', depth: 0.5, polarity: 'positive', smoothing: 0 }],
+    }, schema, swell(SAMPLE_RATE), SAMPLE_RATE)
+    const lane = params.automation!.formantMix!
+    expect(lane[0]).toEqual({ time: 0, value: 0.2 })
+    expect(lane[lane.length - 5].value).toBeCloseTo(0.7, 1)
+  })
+
+  it('clamps to the param range and ignores params that are not automatable', () => {
+    const params = applyModulations({
+      formantMix: 0.2,
+      modulations: [
+        { id: 'a', feature: 'rms', target: 'formantMix', depth: 1, polarity: 'negative', smoothing: 0 },
+        { id: 'b', feature: 'rms', target: 'numFormants', depth: 1, polarity: 'positive', smoothing: 0 },
+      ],
+    }, schema, swell(SAMPLE_RATE), SAMPLE_RATE)
+    const lane = params.automation!.formantMix!
+    expect(lane[lane.length - 1].value).toBe(0)
+    expect(params.automation!.numFormants).toBeUndefined()
+  })
+
+  it('lays features out over the render length at their real times', () => {
+    const routing = { id: 'r', feature: 'rms' as const, target: 'formantMix' as const, depth: 0.5, polarity: 'positive' as const, smoothing: 0 }
+    // A one-second source under a two-second render: the swell ends halfway through the lane
+    const params = applyModulations({ formantMix: 0.2, modulations: [routing] }, schema, swell(SAMPLE_RATE), 2 * SAMPLE_RATE)
+    const lane = params.automation!.formantMix!
+    const valueAt = (time: number) => lane.reduce((best, point) => (Math.abs(point.time - time) < Math.abs(best.time - time) ? point : best)).value
+    expect(lane[lane.length - 1].time).toBeCloseTo(1, 1)
+    expect(valueAt(0.45)).toBeCloseTo(0.7, 1)
+    expect(valueAt(0.75)).toBe(0.2)
+  })
+})
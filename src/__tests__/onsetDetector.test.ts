@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import { detectOnsets, resolveOnsets } from '../../services/onsetDetector'
+import type { OnsetMethod } from '../../types'
+
+const SAMPLE_RATE = 44100
+const BURST_STARTS = [0.25, 0.75, 1.25, 1.75].map(t => Math.round(t * SAMPLE_RATE))
+
+// Decaying 660 Hz tone bursts over faint noise
+function bursts() {
+  const buffer = createPcmBuffer(1, 2 * SAMPLE_RATE, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  let seed = 1
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 16807) % 2147483647
+    data[i] = 0.001 * (seed / 2147483647 - 0.5)
+  }
+  for (const start of BURST_STARTS) {
+    for (let i = 0; i < 0.2 * SAMPLE_RATE; i++) {
+      data[start + i] += 0.8 * Math.exp(-i / (0.05 * SAMPLE_RATE)) * Math.sin(2 * Math.PI * 660 * i / SAMPLE_RATE)
+    }
+  }
+  return buffer
+}
+
+describe('detectOnsets', () => {
+  it.each<OnsetMethod>(['spectral-flux', 'hfc', 'complex'])('finds each burst with %s', (method) => {
+    const onsets = detectOnsets(bursts(), { method })
+    expect(onsets).toHaveLength(BURST_STARTS.length)
+    onsets.forEach((onset, i) => expect(Math.abs(onset - BURST_STARTS[i])).toBeLessThanOrEqual(1024))
+  })
+
+  it('finds nothing in silence', () => {
+    expect(detectOnsets(createPcmBuffer(1, SAMPLE_RATE, SAMPLE_RATE))).toEqual([])
+  })
+})
+
+describe('resolveOnsets', () => {
+  it('prefers edited markers, converted to samples', () => {
+    const onsets = resolveOnsets(bursts(), [1.5, 0.5, 9], {})
+    expect(onsets).toEqual([0.5 * SAMPLE_RATE, 1.5 * SAMPLE_RATE])
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import { resampleBuffer, lengthAtSampleRate } from '../../services/resampler'
+import { applyLengthPolicy } from '../../services/alignment'
+
+const noStretch = () => Promise.reject(new Error('unexpected stretch'))
+
+// Counts upward zero crossings to estimate the frequency of a steady tone
+function estimateFrequency(data: Float32Array, sampleRate: number): number {
+  let crossings = 0
+  for (let i = 1; i < data.length; i++) {
+    if (data[i - 1] < 0 && data[i] >= 0) crossings++
+  }
+  return crossings * sampleRate / data.length
+}
+
+describe('resampleBuffer', () => {
+  it('keeps the pitch of a tone when converting 44.1 kHz to 48 kHz', () => {
+    const source = createPcmBuffer(1, 44100, 44100)
+    const data = source.getChannelData(0)
+    for (let i = 0; i < data.length; i++) data[i] = Math.sin(2 * Math.PI * 440 * i / 44100)
+
+    const length = lengthAtSampleRate(source, 48000)
+    const result = resampleBuffer(source, length, 48000)
+    expect(result.length).toBe(48000)
+    expect(result.sampleRate).toBe(48000)
+    expect(estimateFrequency(result.getChannelData(0), 48000)).toBeCloseTo(440, -1)
+  })
+
+  it('preserves a DC level away from the edges', () => {
+    const source = createPcmBuffer(1, 2000, 48000)
+    source.getChannelData(0).fill(0.5)
+    const result = resampleBuffer(source, 1837, 44100).getChannelData(0)
+    expect(result[900]).toBeCloseTo(0.5, 3)
+  })
+})
+
+describe('applyLengthPolicy', () => {
+  it('loops the source to cover the target', async () => {
+    const source = createPcmBuffer(1, 3, 48000)
+    source.getChannelData(0).set([1, 2, 3])
+    const target = createPcmBuffer(1, 7, 48000)
+    const aligned = await applyLengthPolicy('loop', source, target, noStretch)
+    expect(Array.from(aligned.source.getChannelData(0))).toEqual([1, 2, 3, 1, 2, 3, 1])
+  })
+
+  it('truncates both buffers to the shorter length', async () => {
+    const aligned = await applyLengthPolicy('truncate', createPcmBuffer(2, 10, 48000), createPcmBuffer(2, 4, 48000), noStretch)
+    expect(aligned.source.length).toBe(4)
+    expect(aligned.target.length).toBe(4)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { modulatorSample, channelDetune, followPitch } from '../../services/ringModulator'
+import { applyDynamicRingModulation } from '../../services/audioProcessor'
+import { pcmFromChannels } from '../../services/pcmBuffer'
+
+describe('modulatorSample', () => {
+  it('starts every waveform at zero, rising', () => {
+    for (const waveform of ['sine', 'triangle', 'saw'] as const) {
+      expect(modulatorSample(waveform, 0, 0)).toBeCloseTo(0)
+      expect(modulatorSample(waveform, 0.1, 0)).toBeGreaterThan(0)
+    }
+    expect(modulatorSample('triangle', 0.25, 0)).toBeCloseTo(1)
+    expect(modulatorSample('square', 0.25, 0)).toBe(1)
+    expect(modulatorSample('square', 0.75, 0)).toBe(-1)
+  })
+
+  it('smooths the jumps of the band-limited waveforms', () => {
+    const increment = 0.05
+    // Either side of the saw's reset the naive waveform jumps by 1.9
+    const before = modulatorSample('saw', 0.5 - increment / 2, increment)
+    const after = modulatorSample('saw', 0.5 + increment / 2, increment)
+    expect(before - after).toBeCloseTo(1.4)
+    expect(modulatorSample('square', increment / 2, increment)).toBeCloseTo(0.75)
+  })
+})
+
+describe('channelDetune', () => {
+  it('spreads the detune evenly around the centre', () => {
+    const [left, right] = channelDetune(2, 20)
+    expect(left).toBeCloseTo(Math.pow(2, -10 / 1200))
+    expect(right).toBeCloseTo(Math.pow(2, 10 / 1200))
+    expect(channelDetune(1, 20)).toEqual([1])
+  })
+})
+
+describe('followPitch', () => {
+  const curve = (frequencies: number[]) => ({
+    hopSeconds: 0.01,
+    frequencies: Float32Array.from(frequencies),
+    confidence: new Float32Array(frequencies.length),
+  })
+
+  it('glides between pitched frames and holds through unpitched ones', () => {
+    const frequencies = followPitch(curve([0, 200, 300, 0, 0, 400]), 60, 1000, 100)
+    expect(frequencies[0]).toBe(200)
+    expect(frequencies[15]).toBeCloseTo(250)
+    expect(frequencies[20]).toBe(300)
+    expect(frequencies[35]).toBe(300)
+    expect(frequencies[45]).toBeCloseTo(350)
+    expect(frequencies[55]).toBe(400)
+  })
+
+  it('falls back when nothing is pitched', () => {
+    expect(followPitch(curve([0, 0]), 10, 1000, 100).every(f => f === 100)).toBe(true)
+  })
+})
+
+describe('applyDynamicRingModulation', () => {
+  const SAMPLE_RATE = 8000
+  const tone = () => Float32Array.from({ length: 4000 }, (_, i) => Math.sin(2 * Math.PI * 220 * i / SAMPLE_RATE))
+  const source = pcmFromChannels([new Float32Array(4000).fill(0.5)], SAMPLE_RATE)
+  const target = pcmFromChannels([tone(), tone()], SAMPLE_RATE)
+
+  it('runs a separate modulator on each channel', async () => {
+    const result = await applyDynamicRingModulation(source, target, { ringModMix: 1 })
+    expect(Array.from(result.getChannelData(1))).toEqual(Array.from(result.getChannelData(0)))
+  })
+
+  it('detunes the channels against each other', async () => {
+    const result = await applyDynamicRingModulation(source, target, { ringModMix: 1, ringModDetune: 50 })
+    const [left, right] = [result.getChannelData(0), result.getChannelData(1)]
+    expect(Math.abs(left[3900] - right[3900])).toBeGreaterThan(0.01)
+  })
+})
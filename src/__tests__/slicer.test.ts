@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { sliceAtOnsets, orderSlices } from '../../services/slicer'
+import { applySliceResequence } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import { createRandom } from '../../services/granular'
+
+const SAMPLE_RATE = 44100
+const NOTE = SAMPLE_RATE / 4
+
+// Tone bursts, one per quarter second, each decaying like a hit
+function hits(frequencies: number[], levels = frequencies.map(() => 0.5)) {
+  const buffer = createPcmBuffer(1, NOTE * frequencies.length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  frequencies.forEach((frequency, n) => {
+    for (let i = 0; i < NOTE; i++) {
+      data[n * NOTE + i] = levels[n] * Math.exp(-i / (0.05 * SAMPLE_RATE)) * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+    }
+  })
+  return buffer
+}
+
+const onsetsOf = (count: number) => Array.from({ length: count }, (_, n) => n * NOTE)
+
+describe('orderSlices', () => {
+  const target = sliceAtOnsets(hits([200, 4000]).getChannelData(0), onsetsOf(2), SAMPLE_RATE)
+
+  it('matches slices by spectrum', () => {
+    const slots = sliceAtOnsets(hits([4000, 200, 4000]).getChannelData(0), onsetsOf(3), SAMPLE_RATE)
+    expect(orderSlices(slots, target, 'spectral', Math.random)).toEqual([1, 0, 1])
+  })
+
+  it('matches slices by loudness', () => {
+    const quietLoud = sliceAtOnsets(hits([200, 200], [0.05, 0.5]).getChannelData(0), onsetsOf(2), SAMPLE_RATE)
+    const slots = sliceAtOnsets(hits([300, 300, 300], [0.5, 0.05, 0.5]).getChannelData(0), onsetsOf(3), SAMPLE_RATE)
+    expect(orderSlices(slots, quietLoud, 'loudness', Math.random)).toEqual([1, 0, 1])
+  })
+
+  it('wraps around in sequence and repeats a seeded shuffle', () => {
+    const slots = sliceAtOnsets(hits([300, 300, 300]).getChannelData(0), onsetsOf(3), SAMPLE_RATE)
+    expect(orderSlices(slots, target, 'sequential', Math.random)).toEqual([0, 1, 0])
+    expect(orderSlices(slots, target, 'random', createRandom(7))).toEqual(orderSlices(slots, target, 'random', createRandom(7)))
+  })
+})
+
+describe('applySliceResequence', () => {
+  it("plays the target's slices on the source's onsets", async () => {
+    const source = hits([4000, 200, 4000])
+    const target = hits([200, 4000])
+    const seconds = (samples: number[]) => samples.map(i => i / SAMPLE_RATE)
+    const result = await applySliceResequence(source, target, {
+      sliceOrder: 'spectral',
+      sliceFade: 0,
+      sourceOnsets: seconds(onsetsOf(3)),
+      targetOnsets: seconds(onsetsOf(2)),
+    })
+
+    expect(result.length).toBe(source.length)
+    const output = result.getChannelData(0)
+    const input = target.getChannelData(0)
+    // The second source beat is the low slice, copied sample for sample
+    for (let i = 0; i < NOTE; i += 101) expect(output[NOTE + i]).toBeCloseTo(input[i], 5)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { findSpectralPeaks, morphMagnitudes } from '../../services/spectralMorph'
+import { applySpectralMorph } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 48000
+
+function tone(frequency: number, length: number) {
+  const buffer = createPcmBuffer(1, length, SAMPLE_RATE)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < length; i++) data[i] = 0.1 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  return buffer
+}
+
+// A spectrum with one peak at each bin given
+function spectrum(peaks: number[], size = 257) {
+  const magnitude = new Float32Array(size)
+  for (const bin of peaks) {
+    magnitude[bin - 1] = 0.5
+    magnitude[bin] = 1
+    magnitude[bin + 1] = 0.5
+  }
+  return magnitude
+}
+
+function loudestBin(magnitude: Float32Array) {
+  let best = 0
+  for (let k = 1; k < magnitude.length; k++) if (magnitude[k] > magnitude[best]) best = k
+  return best
+}
+
+describe('findSpectralPeaks', () => {
+  it('returns peaks in frequency order', () => {
+    expect(findSpectralPeaks(spectrum([90, 20, 50]))).toEqual([20, 50, 90])
+  })
+
+  it('keeps only the strongest', () => {
+    const magnitude = spectrum([20, 50, 90])
+    magnitude[50] = 2
+    expect(findSpectralPeaks(magnitude, 1)).toEqual([50])
+  })
+})
+
+describe('morphMagnitudes', () => {
+  it('averages bins halfway through a per-bin blend', () => {
+    const output = new Float32Array(257)
+    morphMagnitudes(spectrum([20]), spectrum([80]), 0.5, 'bins', output)
+    expect(output[20]).toBeCloseTo(0.5)
+    expect(output[80]).toBeCloseTo(0.5)
+  })
+
+  it('glides a peak to the geometric mean of its pair', () => {
+    const output = new Float32Array(257)
+    morphMagnitudes(spectrum([20]), spectrum([80]), 0.5, 'peaks', output)
+    expect(loudestBin(output)).toBe(40)
+    expect(output[20]).toBeLessThan(0.1)
+    expect(output[80]).toBeLessThan(0.1)
+  })
+})
+
+describe('applySpectralMorph', () => {
+  it('passes the target through at position 0', async () => {
+    const target = tone(440, SAMPLE_RATE / 4)
+    const result = (await applySpectralMorph(tone(3000, SAMPLE_RATE / 4), target, { spectralMorphPosition: 0 })).getChannelData(0)
+    const input = target.getChannelData(0)
+    for (let i = 0; i < input.length; i += 97) expect(result[i]).toBeCloseTo(input[i], 4)
+  })
+})
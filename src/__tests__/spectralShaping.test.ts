@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { applySpectralShaping } from '../../services/audioProcessor'
+import { pcmFromChannels } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 16000
+const LENGTH = 16000
+
+const tone = (...frequencies: number[]) => Float32Array.from({ length: LENGTH }, (_, i) =>
+  frequencies.reduce((sum, frequency) => sum + Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE), 0) / frequencies.length)
+
+// Amplitude of one frequency in the second half of the signal (past the envelope attack)
+function levelAt(data: Float32Array, frequency: number): number {
+  let re = 0
+  let im = 0
+  for (let i = LENGTH / 2; i < LENGTH; i++) {
+    re += data[i] * Math.cos(2 * Math.PI * frequency * i / SAMPLE_RATE)
+    im += data[i] * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  }
+  return 2 * Math.hypot(re, im) / (LENGTH / 2)
+}
+
+const rms = (data: Float32Array) => Math.sqrt(data.reduce((sum, x) => sum + x * x, 0) / data.length)
+
+describe('applySpectralShaping', () => {
+  const target = pcmFromChannels([tone(250, 4000)], SAMPLE_RATE)
+
+  it('produces sound, not silence', async () => {
+    const source = pcmFromChannels([tone(250, 4000)], SAMPLE_RATE)
+    const result = await applySpectralShaping(source, target, {})
+    expect(rms(result.getChannelData(0))).toBeGreaterThan(0.1)
+  })
+
+  it('turns down the bands the source does not play', async () => {
+    const both = (await applySpectralShaping(pcmFromChannels([tone(250, 4000)], SAMPLE_RATE), target, {})).getChannelData(0)
+    const lowOnly = (await applySpectralShaping(pcmFromChannels([tone(250)], SAMPLE_RATE), target, {})).getChannelData(0)
+    expect(levelAt(lowOnly, 250)).toBeGreaterThan(0.2)
+    expect(levelAt(lowOnly, 4000)).toBeLessThan(levelAt(both, 4000) / 2)
+  })
+
+  it('returns the dry target at zero mix', async () => {
+    const source = pcmFromChannels([new Float32Array(LENGTH)], SAMPLE_RATE)
+    const result = await applySpectralShaping(source, target, { spectralMix: 0 })
+    expect(Array.from(result.getChannelData(0))).toEqual(Array.from(target.getChannelData(0)))
+  })
+
+  it('silences the target when the source is silent', async () => {
+    const source = pcmFromChannels([new Float32Array(LENGTH)], SAMPLE_RATE)
+    const result = await applySpectralShaping(source, target, { spectralMix: 1 })
+    expect(rms(result.getChannelData(0))).toBeLessThan(1e-3)
+  })
+})
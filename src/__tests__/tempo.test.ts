@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { estimateTempo, noteDivisionSeconds, echoTailSeconds } from '../../services/tempo'
+import { createPcmBuffer, pcmFromChannels } from '../../services/pcmBuffer'
+
+const SAMPLE_RATE = 22050
+
+// Short decaying noise bursts on every beat
+const clickTrack = (bpm: number, seconds: number) => {
+  const data = new Float32Array(SAMPLE_RATE * seconds)
+  const period = Math.round(SAMPLE_RATE * 60 / bpm)
+  let seed = 1
+  for (let start = 0; start < data.length; start += period) {
+    for (let i = 0; i < 200 && start + i < data.length; i++) {
+      seed = (seed * 16807) % 2147483647
+      data[start + i] = (seed / 2147483647 - 0.5) * Math.exp(-i / 40)
+    }
+  }
+  return pcmFromChannels([data], SAMPLE_RATE)
+}
+
+describe('estimateTempo', () => {
+  it('finds the beat of a click track', () => {
+    expect(estimateTempo(clickTrack(120, 10))).toBeCloseTo(120, -0.5)
+    expect(estimateTempo(clickTrack(95, 10))).toBeCloseTo(95, -0.5)
+  })
+
+  it('returns null for silence', () => {
+    expect(estimateTempo(createPcmBuffer(1, SAMPLE_RATE * 4, SAMPLE_RATE))).toBeNull()
+  })
+})
+
+describe('noteDivisionSeconds', () => {
+  it('converts divisions to seconds', () => {
+    expect(noteDivisionSeconds('1/4', 120)).toBeCloseTo(0.5)
+    expect(noteDivisionSeconds('1/8d', 120)).toBeCloseTo(0.375)
+    expect(noteDivisionSeconds('1/8t', 60)).toBeCloseTo(1 / 3)
+  })
+})
+
+describe('echoTailSeconds', () => {
+  it('lasts until the repeats decay 60dB', () => {
+    // 0.5^10 is just under -60dB
+    expect(echoTailSeconds(0.1, 0.5)).toBeCloseTo(1.1)
+    expect(echoTailSeconds(0.1, 0)).toBeCloseTo(0.1)
+  })
+
+  it('grows with the feedback', () => {
+    expect(echoTailSeconds(0.3, 0.9)).toBeGreaterThan(echoTailSeconds(0.3, 0.6))
+  })
+})
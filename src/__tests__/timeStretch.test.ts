@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { stretchChannel } from '../../services/timeStretch'
+
+const SAMPLE_RATE = 44100
+
+function sine(frequency: number, length: number): Float32Array {
+  const data = new Float32Array(length)
+  for (let i = 0; i < length; i++) data[i] = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  return data
+}
+
+// Counts upward zero crossings in the middle half to estimate the frequency of a steady tone
+function estimateFrequency(data: Float32Array): number {
+  const start = Math.floor(data.length / 4)
+  const end = Math.floor(data.length * 3 / 4)
+  let crossings = 0
+  for (let i = start + 1; i < end; i++) {
+    if (data[i - 1] < 0 && data[i] >= 0) crossings++
+  }
+  return crossings * SAMPLE_RATE / (end - start)
+}
+
+describe('stretchChannel', () => {
+  it.each([0.6, 1.5])('keeps the pitch of a tone when stretching by %s', (ratio) => {
+    const input = sine(440, SAMPLE_RATE)
+    const outputLength = Math.round(input.length * ratio)
+    const output = stretchChannel(input, [{ inputStart: 0, inputEnd: input.length, outputStart: 0, outputEnd: outputLength }], outputLength)
+    expect(output.length).toBe(outputLength)
+    expect(Math.abs(estimateFrequency(output) - 440)).toBeLessThan(5)
+  })
+
+  it('preserves the level of a steady tone', () => {
+    const input = sine(1000, SAMPLE_RATE)
+    const output = stretchChannel(input, [{ inputStart: 0, inputEnd: input.length, outputStart: 0, outputEnd: 2 * input.length }], 2 * input.length)
+    let peak = 0
+    for (let i = output.length / 4; i < output.length * 3 / 4; i++) peak = Math.max(peak, Math.abs(output[i]))
+    expect(peak).toBeGreaterThan(0.9)
+    expect(peak).toBeLessThan(1.1)
+  })
+})
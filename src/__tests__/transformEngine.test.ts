@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { runTransformation, measureOffThread, clearRenderCache } from '../../services/transformEngine'
+import { isAbortError } from '../../services/pcmBuffer'
+import type { WorkerRequest, WorkerResponse, TransferredBuffer } from '../../services/transformWorker'
+import { createXYCorners } from '../../components/XYMorphPad'
+import { TransformationType } from '../../types'
+
+// jsdom has no Web Audio, so results are copied into this minimal AudioBuffer
+class TestAudioBuffer {
+  readonly numberOfChannels: number
+  readonly length: number
+  readonly sampleRate: number
+  private readonly channels: Float32Array[]
+
+  constructor({ numberOfChannels, length, sampleRate }: { numberOfChannels: number; length: number; sampleRate: number }) {
+    this.numberOfChannels = numberOfChannels
+    this.length = length
+    this.sampleRate = sampleRate
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length))
+  }
+
+  get duration() {
+    return this.length / this.sampleRate
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel]
+  }
+
+  copyToChannel(data: Float32Array, channel: number) {
+    this.channels[channel].set(data)
+  }
+}
+
+// Answers each posted request with the messages `respond` returns
+function stubWorker(respond: (request: WorkerRequest) => WorkerResponse[]) {
+  const workers: { requests: WorkerRequest[]; terminate: ReturnType<typeof vi.fn> }[] = []
+  class TestWorker {
+    onmessage: ((event: { data: WorkerResponse }) => void) | null = null
+    onerror: ((event: { message: string }) => void) | null = null
+    requests: WorkerRequest[] = []
+    terminate = vi.fn()
+
+    constructor() {
+      workers.push(this)
+    }
+
+    postMessage(request: WorkerRequest) {
+      this.requests.push(request)
+      setTimeout(() => respond(request).forEach(data => this.onmessage?.({ data })))
+    }
+  }
+  vi.stubGlobal('Worker', TestWorker)
+  return workers
+}
+
+function tone(length = 4800, sampleRate = 48000) {
+  const buffer = new TestAudioBuffer({ numberOfChannels: 1, length, sampleRate })
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < length; i++) data[i] = Math.sin((2 * Math.PI * 440 * i) / sampleRate)
+  return buffer as unknown as AudioBuffer
+}
+
+// Echoes the target back for renders and returns silence of the right length for resampling
+function echo(request: WorkerRequest): WorkerResponse[] {
+  let result: TransferredBuffer
+  if (request.type === 'render') result = request.target
+  else if (request.type === 'resample') result = { channels: [new Float32Array(request.length)], sampleRate: request.sampleRate }
+  else return [{ type: 'error', message: `Unexpected ${request.type} request` }]
+  return [{ type: 'done', result }]
+}
+
+function request(transformation: TransformationType) {
+  return { transformation, source: tone(), target: tone(), params: {} }
+}
+
+describe('transformation engine', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('renders sample-domain transformations inline when there is no worker', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const onProgress = vi.fn()
+    const result = await runTransformation(request(TransformationType.AMPLITUDE), { onProgress })
+    expect(result.length).toBe(4800)
+    expect(onProgress).toHaveBeenLastCalledWith(1)
+  })
+
+  it('rejects with an AbortError when cancelled before the render starts', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const workers = stubWorker(() => [])
+    const controller = new AbortController()
+    controller.abort()
+    const error = await runTransformation(request(TransformationType.AMPLITUDE), { signal: controller.signal }).catch(e => e)
+    expect(isAbortError(error)).toBe(true)
+    expect(workers).toHaveLength(0)
+  })
+
+  it('rejects with an AbortError when cancelled mid-render', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const controller = new AbortController()
+    const onProgress = () => controller.abort()
+    const error = await runTransformation(request(TransformationType.AMPLITUDE), { signal: controller.signal, onProgress }).catch(e => e)
+    expect(isAbortError(error)).toBe(true)
+  })
+
+  it('terminates the worker when cancelled mid-render', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const workers = stubWorker(() => [{ type: 'progress', fraction: 0.5 }])
+    const controller = new AbortController()
+    const onProgress = () => controller.abort()
+    const error = await runTransformation(request(TransformationType.AMPLITUDE), { signal: controller.signal, onProgress }).catch(e => e)
+    expect(isAbortError(error)).toBe(true)
+    expect(workers[0].terminate).toHaveBeenCalled()
+  })
+
+  it('propagates worker errors and terminates the worker', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const workers = stubWorker(() => [{ type: 'error', message: 'Out of memory' }])
+    await expect(runTransformation(request(TransformationType.AMPLITUDE))).rejects.toThrow('Out of memory')
+    expect(workers[0].requests[0].type).toBe('render')
+    expect(workers[0].terminate).toHaveBeenCalled()
+  })
+
+  it('runs the analysis of graph-based transformations in the worker', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const workers = stubWorker(() => [{ type: 'error', message: 'Tracking failed' }])
+    await expect(runTransformation(request(TransformationType.HARMONIC_IMPRINT))).rejects.toThrow('Tracking failed')
+    expect(workers[0].requests[0]).toMatchObject({ type: 'analyze', transformation: TransformationType.HARMONIC_IMPRINT })
+  })
+
+  it('re-mixes XY Morphing from cached corners and a cached resampled source', async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const workers = stubWorker(echo)
+    const source44k = tone(4410, 44100)
+    const target = tone()
+    const xyRequest = (morphX: number) => ({
+      transformation: TransformationType.XY_MORPH,
+      source: source44k,
+      target,
+      params: { morphX },
+      xyCorners: createXYCorners().slice(0, 3),
+    })
+    const requestTypes = () => workers.map(worker => worker.requests[0].type)
+
+    await runTransformation(xyRequest(0))
+    expect(requestTypes()).toEqual(['resample', 'render', 'render', 'render'])
+
+    await runTransformation(xyRequest(1))
+    expect(workers).toHaveLength(4)
+
+    clearRenderCache()
+    await runTransformation(xyRequest(0.5))
+    expect(requestTypes().slice(4)).toEqual(['render', 'render', 'render'])
+  })
+
+  it("reuses the caller's pitch measurements in Melody Transfer renders", async () => {
+    vi.stubGlobal('AudioBuffer', TestAudioBuffer)
+    const curve = { hopSeconds: 0.01, frequencies: new Float32Array(11).fill(220), confidence: new Float32Array(11).fill(1) }
+    const workers = stubWorker(request => (request.type === 'measure' ? [{ type: 'measured', result: curve }] : echo(request)))
+    await runTransformation(request(TransformationType.MELODY_TRANSFER))
+
+    const requests = workers.map(worker => worker.requests[0])
+    expect(requests.map(({ type }) => type)).toEqual(['measure', 'measure', 'render'])
+    const render = requests[2] as Extract<WorkerRequest, { type: 'render' }>
+    expect(render.analysis).toEqual({ source: curve, target: curve })
+  })
+
+  it('measures in the worker and shares the result between callers', async () => {
+    const workers = stubWorker(() => [{ type: 'measured', result: [2400] }])
+    const buffer = tone()
+    const first = measureOffThread(buffer, 'onsets', { sensitivity: 0.5 })
+    const second = measureOffThread(buffer, 'onsets', { sensitivity: 0.5 })
+    expect(await first).toEqual([2400])
+    expect(await second).toBe(await first)
+    expect(workers).toHaveLength(1)
+    expect(workers[0].requests[0]).toMatchObject({ type: 'measure', kind: 'onsets', options: { sensitivity: 0.5 } })
+
+    await measureOffThread(buffer, 'onsets', { sensitivity: 0.8 })
+    expect(workers).toHaveLength(2)
+  })
+
+  it('measures again after a failed measurement', async () => {
+    const workers = stubWorker(() => [{ type: 'error', message: 'Worker crashed' }])
+    const buffer = tone()
+    await expect(measureOffThread(buffer, 'pitch', {})).rejects.toThrow('Worker crashed')
+    await expect(measureOffThread(buffer, 'pitch', {})).rejects.toThrow('Worker crashed')
+    expect(workers).toHaveLength(2)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+import type { WorkerRequest } from '../../services/transformWorker'
+import { TransformationType } from '../../types'
+
+// Installs the worker's message handler on the test global
+beforeAll(async () => {
+  await import('../../services/transformWorker')
+})
+
+const postMessage = vi.fn()
+
+beforeEach(() => {
+  postMessage.mockReset()
+  vi.spyOn(self, 'postMessage').mockImplementation(postMessage)
+})
+
+async function send(request: WorkerRequest) {
+  await (self.onmessage as (event: { data: WorkerRequest }) => Promise<void>)({ data: request })
+  return postMessage.mock.calls
+}
+
+const settings = { enabled: false, targetLufs: -14, ceiling: -1 }
+
+describe('transformation worker', () => {
+  it('transfers each underlying buffer once when result channels alias each other', async () => {
+    const data = new Float32Array([0.1, 0.2, 0.3])
+    // Mastering is off, so the aliased channels come straight back
+    const calls = await send({ type: 'master', buffer: { channels: [data, data], sampleRate: 48000 }, settings })
+    const [message, options] = calls[calls.length - 1]
+    expect(message.type).toBe('done')
+    expect(message.result.channels).toHaveLength(2)
+    expect(options.transfer).toEqual([data.buffer])
+  })
+
+  it('renders sample-domain transformations and reports progress', async () => {
+    const buffer = { channels: [new Float32Array(4800).fill(0.5)], sampleRate: 48000 }
+    const calls = await send({ type: 'render', transformation: TransformationType.AMPLITUDE, params: {}, source: buffer, target: buffer })
+    expect(calls.some(([message]) => message.type === 'progress')).toBe(true)
+    expect(calls[calls.length - 1][0].type).toBe('done')
+  })
+
+  it('posts an error for transformations that must render on the main thread', async () => {
+    const buffer = { channels: [new Float32Array(16)], sampleRate: 48000 }
+    const calls = await send({ type: 'render', transformation: TransformationType.CONVOLUTION, params: {}, source: buffer, target: buffer })
+    expect(calls).toHaveLength(1)
+    expect(calls[0][0]).toEqual({ type: 'error', message: `${TransformationType.CONVOLUTION} cannot be rendered in a worker.` })
+  })
+
+  it('runs the analysis step of graph-based transformations', async () => {
+    const buffer = { channels: [new Float32Array(4800)], sampleRate: 48000 }
+    const calls = await send({ type: 'analyze', transformation: TransformationType.INTERFERENCE_ECHOES, params: {}, source: buffer, target: buffer })
+    expect(calls[0][0]).toEqual({ type: 'analyzed', analysis: { onsets: [], tempo: null } })
+  })
+})
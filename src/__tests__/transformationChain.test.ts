@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import { getTransformation } from '../../services/transformationRegistry'
+import type { RenderContext } from '../../services/transformationRegistry'
+import { TransformationType } from '../../types'
+import type { ChainStage, PcmBuffer } from '../../types'
+
+function constant(value: number): PcmBuffer {
+  const buffer = createPcmBuffer(1, 4, 48000)
+  buffer.getChannelData(0).fill(value)
+  return buffer
+}
+
+function stage(transformation: TransformationType, changes: Partial<ChainStage> = {}): ChainStage {
+  return { id: transformation, transformation, params: {}, bypass: false, mix: 1, ...changes }
+}
+
+// Stand-in renders: Amplitude adds 1, Spectral doubles
+function contextFor(chain: ChainStage[], rendered: TransformationType[] = []): RenderContext {
+  return {
+    chain,
+    render: async (type, _hooks, overrides = {}) => {
+      rendered.push(type)
+      const input = overrides.target!.getChannelData(0)[0]
+      return constant(type === TransformationType.AMPLITUDE ? input + 1 : input * 2)
+    },
+  }
+}
+
+const chainDefinition = getTransformation(TransformationType.TRANSFORMATION_CHAIN)
+
+describe('Transformation Chain', () => {
+  it('renders stages in series', async () => {
+    const chain = [stage(TransformationType.AMPLITUDE), stage(TransformationType.SPECTRAL)]
+    const result = await chainDefinition.offline(constant(0), constant(1), {}, contextFor(chain))
+    expect(result.getChannelData(0)[0]).toBe(4)
+
+    const reversed = await chainDefinition.offline(constant(0), constant(1), {}, contextFor([...chain].reverse()))
+    expect(reversed.getChannelData(0)[0]).toBe(3)
+  })
+
+  it('skips bypassed stages and blends by the wet mix', async () => {
+    const rendered: TransformationType[] = []
+    const chain = [
+      stage(TransformationType.AMPLITUDE, { bypass: true }),
+      stage(TransformationType.SPECTRAL, { mix: 0.25 }),
+    ]
+    const result = await chainDefinition.offline(constant(0), constant(1), {}, contextFor(chain, rendered))
+    expect(rendered).toEqual([TransformationType.SPECTRAL])
+    expect(result.getChannelData(0)[0]).toBeCloseTo(1.25)
+  })
+
+  it('rejects an empty chain', async () => {
+    await expect(chainDefinition.offline(constant(0), constant(1), {}, contextFor([]))).rejects.toThrow()
+  })
+})
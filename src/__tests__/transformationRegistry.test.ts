@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+import {
+  TRANSFORMATIONS,
+  CHAINABLE_TRANSFORMATIONS,
+  MORPHABLE_TRANSFORMATIONS,
+  getTransformation,
+  getDefaultParams,
+  isMorphable,
+  rendersInWorker,
+} from '../../services/transformationRegistry'
+import type { RenderContext } from '../../services/transformationRegistry'
+import { TransformationType } from '../../types'
+import type { ChainStage, XYCorner } from '../../types'
+
+const COMPOSITES = [TransformationType.TRANSFORMATION_MORPH, TransformationType.TRANSFORMATION_CHAIN, TransformationType.XY_MORPH]
+
+const buffer = createPcmBuffer(1, 4, 48000)
+
+// Fails the test if a composite ever gets as far as rendering an inner transformation
+const context = (overrides: Partial<RenderContext>): RenderContext => ({
+  render: async () => {
+    throw new Error('Rendered a nested composite')
+  },
+  ...overrides,
+})
+
+describe('getDefaultParams', () => {
+  it('collects the default of every slider and choice', () => {
+    const defaults = getDefaultParams()
+    for (const definition of TRANSFORMATIONS) {
+      for (const [key, schema] of Object.entries(definition.params)) {
+        expect(defaults[key as keyof typeof defaults]).toBe(schema!.defaultValue)
+      }
+      for (const [key, schema] of Object.entries(definition.choices ?? {})) {
+        expect(defaults[key as keyof typeof defaults]).toBe(schema!.defaultValue)
+      }
+    }
+  })
+
+  it('keeps every default inside its slider range', () => {
+    for (const definition of TRANSFORMATIONS) {
+      for (const schema of Object.values(definition.params)) {
+        expect(schema!.defaultValue).toBeGreaterThanOrEqual(schema!.min)
+        expect(schema!.defaultValue).toBeLessThanOrEqual(schema!.max)
+      }
+    }
+  })
+
+  it('returns a fresh object each time', () => {
+    const defaults = getDefaultParams()
+    defaults.onsetSensitivity = 0
+    expect(getDefaultParams().onsetSensitivity).not.toBe(0)
+  })
+})
+
+describe('isMorphable', () => {
+  it('excludes composites from morphing', () => {
+    for (const type of COMPOSITES) {
+      expect(isMorphable(type)).toBe(false)
+      expect(MORPHABLE_TRANSFORMATIONS).not.toContain(type)
+    }
+  })
+
+  it('defaults to true', () => {
+    expect(isMorphable(TransformationType.AMPLITUDE)).toBe(true)
+    expect(MORPHABLE_TRANSFORMATIONS).toContain(TransformationType.AMPLITUDE)
+  })
+})
+
+describe('rendersInWorker', () => {
+  it('keeps graph-based and composite renders on the main thread', () => {
+    expect(rendersInWorker(getTransformation(TransformationType.AMPLITUDE), {})).toBe(true)
+    expect(rendersInWorker(getTransformation(TransformationType.CONVOLUTION), {})).toBe(false)
+    for (const type of COMPOSITES) {
+      expect(rendersInWorker(getTransformation(type), {})).toBe(false)
+    }
+  })
+
+  it('decides per render for techniques whose modes differ', () => {
+    const timeWarp = getTransformation(TransformationType.TIME_WARP)
+    expect(rendersInWorker(timeWarp, { timeWarpMode: 'vocoder' })).toBe(true)
+    expect(rendersInWorker(timeWarp, { timeWarpMode: 'tape' })).toBe(false)
+  })
+})
+
+describe('composite nesting', () => {
+  it('leaves composites out of the chainable list', () => {
+    for (const type of COMPOSITES) {
+      expect(CHAINABLE_TRANSFORMATIONS).not.toContain(type)
+    }
+  })
+
+  it.each(COMPOSITES)('rejects %s as a chain stage', async (type) => {
+    const chain: ChainStage[] = [{ id: 'stage', transformation: type, params: {}, bypass: false, mix: 1 }]
+    const definition = getTransformation(TransformationType.TRANSFORMATION_CHAIN)
+    await expect(definition.offline(buffer, buffer, {}, context({ chain }))).rejects.toThrow('cannot be used inside a chain')
+  })
+
+  it.each(COMPOSITES)('rejects %s as an XY corner', async (type) => {
+    const xyCorners: XYCorner[] = [
+      { transformation: type, params: {} },
+      { transformation: TransformationType.AMPLITUDE, params: {} },
+      { transformation: TransformationType.SPECTRAL, params: {} },
+    ]
+    const definition = getTransformation(TransformationType.XY_MORPH)
+    await expect(definition.offline(buffer, buffer, {}, context({ xyCorners }))).rejects.toThrow('cannot be used as an XY Morphing corner')
+  })
+
+  it.each(COMPOSITES)('rejects %s as a morph side', async (type) => {
+    const definition = getTransformation(TransformationType.TRANSFORMATION_MORPH)
+    const morph = context({ morphA: type, morphB: TransformationType.AMPLITUDE })
+    await expect(definition.offline(buffer, buffer, {}, morph)).rejects.toThrow('needs two other transformations')
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { getXYWeights, applyXYMorph } from '../../services/audioProcessor'
+import { createPcmBuffer } from '../../services/pcmBuffer'
+
+function constant(value: number) {
+  const buffer = createPcmBuffer(1, 2, 48000)
+  buffer.getChannelData(0).fill(value)
+  return buffer
+}
+
+describe('getXYWeights', () => {
+  it('gives a corner full weight when the puck sits on it', () => {
+    expect(getXYWeights(4, 1, 0)).toEqual([0, 1, 0, 0])
+    expect(getXYWeights(3, 0.5, 1)).toEqual([0, 0, 1])
+  })
+
+  it('weights every corner equally at the centre of the square', () => {
+    expect(getXYWeights(4, 0.5, 0.5)).toEqual([0.25, 0.25, 0.25, 0.25])
+  })
+
+  it('stays normalised outside the triangle', () => {
+    const weights = getXYWeights(3, 0, 1)
+    expect(weights.every(w => w >= 0)).toBe(true)
+    expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1)
+  })
+})
+
+describe('applyXYMorph', () => {
+  it('mixes corner results by the pad weights', () => {
+    const results = [constant(1), constant(2), constant(3), constant(4)]
+    const mixed = applyXYMorph(results, { morphX: 0.5, morphY: 0 })
+    expect(mixed.getChannelData(0)[0]).toBeCloseTo(1.5)
+  })
+})
@@ -2,6 +2,45 @@ export interface AudioData {
   name: string;
   buffer: AudioBuffer;
   url?: string;
+  // Measured by the output stage on rendered results
+  loudness?: LoudnessReport;
+}
+
+// The output stage every offline render passes through (see services/mastering.ts)
+export interface MasteringSettings {
+  enabled: boolean;
+  // Integrated loudness to normalise to, in LUFS
+  targetLufs: number;
+  // True-peak ceiling for the limiter, in dBTP
+  ceiling: number;
+}
+
+export interface LoudnessReport {
+  // Integrated loudness in LUFS (ITU-R BS.1770)
+  integrated: number;
+  // In dBTP
+  truePeak: number;
+}
+
+/**
+ * The subset of the AudioBuffer interface the sample-domain transformations rely on.
+ * Real AudioBuffers satisfy it, and so do the plain buffers built in the transformation worker,
+ * where the Web Audio API is not available.
+ */
+export interface PcmBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Optional progress and cancellation hooks threaded through a render.
+ */
+export interface RenderHooks {
+  signal?: AbortSignal;
+  // Called with the completed fraction of the render, from 0 to 1
+  onProgress?: (fraction: number) => void;
 }
 
 export enum TransformationType {
@@ -12,33 +51,212 @@ export enum TransformationType {
   TIME_WARP = 'Time Scale Warping',
   SURFACE_TRANSLATE = 'Surface Translation',
   FOURIER_MASKING = 'Fourier Masking',
+  CEPSTRAL_CROSS_SYNTH = 'Cepstral Cross-Synthesis',
+  GRANULAR_CLOUD = 'Granular Cloud',
+  SPECTRAL_MORPH = 'Spectral Morph',
+  MELODY_TRANSFER = 'Melody Transfer',
+  SLICE_RESEQUENCE = 'Slice & Resequence',
+  SIDECHAIN_DYNAMICS = 'Sidechain Dynamics',
+  EQ_MATCH = 'EQ Matching',
   HARMONIC_IMPRINT = 'Harmonic Imprinting',
   INTERFERENCE_ECHOES = 'Interference Echoes',
   FORMANT_SHIFTING = 'Formant Shifting',
   DYNAMIC_RING_MOD = 'Dynamic Ring Modulation',
   TRANSFORMATION_MORPH = 'Transformation Morphing',
+  TRANSFORMATION_CHAIN = 'Transformation Chain',
+  XY_MORPH = 'XY Morphing',
 }
 
+// How source channels drive target channels (see services/channelMapping.ts)
+export type ChannelMode = 'linked' | 'per-channel' | 'mid-side';
+
+// How a source is fitted to the target's length before a transformation (see services/alignment.ts)
+export type LengthPolicy = 'loop' | 'stretch' | 'pad' | 'truncate';
+
 export enum SourceType {
     FILE = 'File',
     LIVE = 'Live',
 }
 
+// Onset detection function used by the rhythm-driven transformations (see services/onsetDetector.ts)
+export type OnsetMethod = 'spectral-flux' | 'hfc' | 'complex';
+
+// How Time Scale Warping changes segment lengths: a pitch-preserving phase vocoder, or
+// resampling like a tape machine (pitch follows speed)
+export type TimeWarpMode = 'vocoder' | 'tape';
+
+// Where a time-varying control value comes from (see services/automation.ts)
+export type CurveMode = 'static' | 'breakpoints' | 'lfo' | 'envelope';
+
+// FFT sizes offered for Cepstral Cross-Synthesis. Larger sizes resolve lower pitches and smear
+// transients more.
+export type CepstralFftSize = '1024' | '2048' | '4096';
+
+// How Spectral Morph blends magnitudes: bin by bin, or by gliding paired spectral peaks
+export type SpectralMorphMode = 'bins' | 'peaks';
+
+// Spectral Morph's output phase: the target's, or one advanced by the blend of both inputs'
+// instantaneous frequencies
+export type SpectralMorphPhase = 'target' | 'interpolate';
+
+// Scales Melody Transfer can snap notes to; 'none' follows the source's pitch exactly
+export type MelodyScale = 'none' | 'chromatic' | 'major' | 'minor' | 'pentatonic';
+
+// Root note of the Melody Transfer scale
+export type MelodyKey = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
+
+// Whether Convolution Morphing plays the impulse response forwards or backwards
+export type IrDirection = 'forward' | 'reverse';
+
+// How much of the convolution tail is kept (see services/impulseResponse.ts)
+export type ConvolutionTail = 'full' | 'decay' | 'target';
+
+// How Slice & Resequence picks the target slice for each source onset
+export type SliceOrder = 'sequential' | 'spectral' | 'loudness' | 'random';
+
+// Where Interference Echoes takes its delay time from: the Delay Time param, or a note
+// division at the source's detected tempo or an entered BPM
+export type EchoSync = 'off' | 'detected' | 'manual';
+
+// Note divisions an echo can be synced to ('d' dotted, 't' triplet)
+export type EchoDivision = '1/2' | '1/4' | '1/4d' | '1/8' | '1/8d' | '1/8t' | '1/16';
+
+// How Interference Echoes spreads its repeats: in place, bouncing between left and right, or
+// three taps per loop panned left, right and centre
+export type EchoStereoMode = 'mono' | 'ping-pong' | 'multi-tap';
+
+// What Sidechain Dynamics does to the target when the key crosses the threshold (see
+// services/dynamics.ts)
+export type DynamicsMode = 'compress' | 'expand' | 'gate';
+
+// The FIR EQ Matching filters with: linear-phase (symmetric, no phase shift) or minimum-phase
+// (no pre-ringing)
+export type EqMatchPhase = 'linear' | 'minimum';
+
+// Modulator waveforms for Dynamic Ring Modulation; square and saw are band-limited
+export type RingModWaveform = 'sine' | 'triangle' | 'square' | 'saw';
+
+// Whether Dynamic Ring Modulation multiplies the target by the modulator, or phase-modulates it
+export type RingModMode = 'ring' | 'fm';
+
+// What steers the ring modulator: the source's amplitude, or its pitch
+export type RingModControl = 'amplitude' | 'pitch';
+
+// Amplitude shape of each grain in Granular Cloud
+export type GrainWindow = 'hann' | 'triangle' | 'gaussian' | 'tukey';
+
+// What the source controls the grain cloud with: bursts at its onsets, or its amplitude envelope
+export type GrainControlMode = 'onsets' | 'envelope';
+
+// How two signals are blended: constant-amplitude gains, or constant-power (sin/cos) gains
+export type CrossfadeMode = 'linear' | 'equal-power';
+
+// Source features that can drive params through the modulation matrix (see services/featureExtractor.ts)
+export type ModulationFeature = 'rms' | 'spectral-centroid' | 'onset-density';
+
+// Whether a rising feature pushes its param up or down
+export type ModulationPolarity = 'positive' | 'negative';
+
+// A point on a control envelope. `time` is normalised to the render length (0-1).
+export interface Breakpoint {
+  time: number;
+  value: number;
+}
+
 export interface TransformationParams {
+  // Per-transformation override of the registry's default channel mapping
+  channelModes?: Partial<Record<TransformationType, ChannelMode>>;
+  // Per-transformation override of the registry's default length policy
+  lengthPolicies?: Partial<Record<TransformationType, LengthPolicy>>;
+  // Onset detection (Rhythmic Gating, Time Scale Warping, Interference Echoes)
+  onsetMethod?: OnsetMethod;
+  onsetSensitivity?: number;
+  // Onset markers edited on the waveforms, in seconds. Unset means "detect automatically".
+  sourceOnsets?: number[];
+  targetOnsets?: number[];
+  // Breakpoint envelopes that replace a param's static value over the render (see AutomationLanes)
+  automation?: AutomationLanes;
+  // Source features routed to params (see ModulationRouting)
+  modulations?: ModulationRouting[];
   // Rhythmic Gating
   gateThreshold?: number;
   // Spectral Shaping
   spectralMix?: number;
+  spectralBands?: number;
+  spectralBandQ?: number;
+  spectralAttack?: number;
+  spectralRelease?: number;
+  // Convolution Morphing
+  convolutionMix?: number;
+  convolutionPreDelay?: number;
+  convolutionTail?: ConvolutionTail;
+  irStart?: number;
+  irLength?: number;
+  irFade?: number;
+  irStretch?: number;
+  irDirection?: IrDirection;
   // Time Scale Warping
-  transientSensitivity?: number;
+  timeWarpMode?: TimeWarpMode;
   // Surface Translation
   surfaceJitter?: number;
+  // Cepstral Cross-Synthesis
+  lifterOrder?: number;
+  envelopeStrength?: number;
+  cepstralFftSize?: CepstralFftSize;
+  // Granular Cloud
+  grainSize?: number;
+  grainDensity?: number;
+  grainJitter?: number;
+  grainPitchScatter?: number;
+  grainSeed?: number;
+  grainWindow?: GrainWindow;
+  grainControl?: GrainControlMode;
+  // Spectral Morph
+  spectralMorphPosition?: number;
+  spectralMorphMode?: SpectralMorphMode;
+  spectralMorphPhase?: SpectralMorphPhase;
+  // Melody Transfer
+  melodyTranspose?: number;
+  melodyGlide?: number;
+  melodyConfidence?: number;
+  melodyScale?: MelodyScale;
+  melodyKey?: MelodyKey;
+  // Slice & Resequence
+  sliceFade?: number;
+  sliceSeed?: number;
+  sliceOrder?: SliceOrder;
+  // Sidechain Dynamics
+  dynamicsThreshold?: number;
+  dynamicsRatio?: number;
+  dynamicsKnee?: number;
+  dynamicsAttack?: number;
+  dynamicsRelease?: number;
+  dynamicsHold?: number;
+  dynamicsLookahead?: number;
+  dynamicsMode?: DynamicsMode;
+  // EQ Matching
+  eqMatchAmount?: number;
+  eqMatchResolution?: number;
+  eqMatchMaxBoost?: number;
+  eqMatchMaxCut?: number;
+  eqMatchPhase?: EqMatchPhase;
   // Harmonic Imprinting
   numHarmonics?: number;
   harmonicQ?: number;
+  harmonicHop?: number;
+  harmonicSalience?: number;
   // Interference Echoes
   interferenceFeedback?: number;
   interferenceMix?: number;
+  interferenceDelay?: number;
+  interferenceSync?: EchoSync;
+  interferenceBpm?: number;
+  interferenceDivision?: EchoDivision;
+  interferenceStereo?: EchoStereoMode;
+  interferenceCutoff?: number;
+  interferenceWobbleRate?: number;
+  interferenceWobbleDepth?: number;
+  interferenceTrigger?: number;
   // Formant Shifting
   numFormants?: number;
   formantQ?: number;
@@ -47,6 +265,97 @@ export interface TransformationParams {
   ringModBaseFreq?: number;
   ringModRange?: number;
   ringModMix?: number;
+  ringModDetune?: number;
+  ringModIndex?: number;
+  ringModRatio?: number;
+  ringModWaveform?: RingModWaveform;
+  ringModMode?: RingModMode;
+  ringModControl?: RingModControl;
   // Transformation Morphing
   morphPosition?: number;
-}
\ No newline at end of file
+  morphCurve?: CurveMode;
+  morphBreakpoints?: Breakpoint[];
+  morphLfoRate?: number;
+  morphDepth?: number;
+  morphCrossfade?: CrossfadeMode;
+  // XY Morphing puck position, 0-1 from the left and from the top
+  morphX?: number;
+  morphY?: number;
+}
+/**
+ * One stage of a Transformation Chain. Each stage processes the previous stage's output (the
+ * target for the first stage) with its own params.
+ */
+export interface ChainStage {
+  id: string;
+  transformation: TransformationType;
+  params: TransformationParams;
+  bypass: boolean;
+  // 0 = only the stage's input, 1 = only the transformed signal
+  mix: number;
+}
+
+/**
+ * One corner of the XY Morphing pad, with its own params. Corners are ordered top-left,
+ * top-right, then bottom-left and bottom-right (or bottom-centre when there are three).
+ */
+export interface XYCorner {
+  transformation: TransformationType;
+  params: TransformationParams;
+}
+
+export interface ParamConfig {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit?: string;
+  // The transformation reads an automation lane for this param. Params that shape the whole
+  // render (band counts, detection settings) stay static.
+  automatable?: boolean;
+}
+
+// The TransformationParams keys that hold plain numbers, i.e. the ones a slider can drive.
+// `automation` and `modulations` refer to these, so they are left out to keep the type from
+// referring to itself.
+type ScalarParamKey = Exclude<keyof TransformationParams, 'automation' | 'modulations'>;
+export type NumericParamKey = {
+  [K in ScalarParamKey]-?: NonNullable<TransformationParams[K]> extends number ? K : never
+}[ScalarParamKey];
+
+export type ParamSchema = Partial<Record<NumericParamKey, ParamConfig>>;
+
+/**
+ * Automation lanes keyed by param. Breakpoint times are normalised to the render and values are
+ * in the param's own units (the same range as its slider).
+ */
+export type AutomationLanes = Partial<Record<NumericParamKey, Breakpoint[]>>;
+
+/**
+ * One routing in the modulation matrix. The source feature (0-1 after smoothing) moves the param
+ * away from its static or automated value by up to `depth` of the param's range.
+ */
+export interface ModulationRouting {
+  id: string;
+  feature: ModulationFeature;
+  target: NumericParamKey;
+  // 0-1, as a fraction of the param's slider range
+  depth: number;
+  polarity: ModulationPolarity;
+  // Time constant of the smoothing applied to the feature, in milliseconds
+  smoothing: number;
+}
+
+export interface ChoiceParamConfig {
+  label: string;
+  options: { value: string; label: string }[];
+  defaultValue: string;
+}
+
+// The TransformationParams keys that hold a string choice, i.e. the ones a select can drive
+export type ChoiceParamKey = {
+  [K in keyof TransformationParams]-?: NonNullable<TransformationParams[K]> extends string ? K : never
+}[keyof TransformationParams];
+
+export type ChoiceSchema = Partial<Record<ChoiceParamKey, ChoiceParamConfig>>;